@@ -0,0 +1,242 @@
+import { Film, Loader2 } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import {
+  ANIMATION_RESOLUTIONS,
+  MIN_GIF_DELAY,
+  renderAnimation,
+  type AnimationFormat,
+  type AnimationPreferences,
+} from "@/lib/export/animation";
+import { downloadBlob } from "@/lib/export/trajectory-export";
+import type { TrajectoryRecorder } from "@/lib/physics/trajectory";
+import type { RenderScene } from "@/lib/render/pendulum-renderer";
+
+interface AnimationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  recorder: TrajectoryRecorder;
+  // the recording's extent, so the range follows it while the dialog is open
+  recording: { start: number; end: number; length: number };
+  // simulated seconds between recorded samples
+  sampleInterval: number;
+  scene: RenderScene;
+  // frame skip and GIF options, set in the simulator's settings
+  preferences: AnimationPreferences;
+}
+
+const FORMATS: { id: AnimationFormat; label: string; description: string }[] = [
+  {
+    id: "gif",
+    label: "Animated GIF",
+    description: "One looping image, up to 256 colours. Plays anywhere, including chat and slides.",
+  },
+  {
+    id: "png",
+    label: "PNG sequence (.zip)",
+    description: "Every frame as a lossless PNG with a frames.csv of their simulated times, for editing or assembling elsewhere.",
+  },
+];
+
+// Beyond this many frames the export takes a while and the file gets large
+const FRAME_WARNING = 1500;
+
+export function AnimationDialog({
+  open,
+  onOpenChange,
+  recorder,
+  recording,
+  sampleInterval,
+  scene,
+  preferences,
+}: AnimationDialogProps) {
+  const [format, setFormat] = useState<AnimationFormat>("gif");
+  const [resolution, setResolution] = useState(1);
+  // null follows the whole recording
+  const [range, setRange] = useState<[number, number] | null>(null);
+  const [overlays, setOverlays] = useState(false);
+  // progress from 0 to 1 while exporting
+  const [progress, setProgress] = useState<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (open) setRange(null);
+  }, [open]);
+  // Don't keep rendering behind an unmounted page
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const { frameSkip } = preferences;
+  const start = Math.max(recording.start, range?.[0] ?? recording.start);
+  const end = Math.min(recording.end, range?.[1] ?? recording.end);
+  const frames = Math.floor(Math.max(0, end - start) / sampleInterval / frameSkip + 1e-6) + 1;
+  const frameRate = scene.timeScale / (sampleInterval * frameSkip);
+  // GIF frame delays come in hundredths of a second
+  const gifTooFast = format === "gif" && frameRate > 100 / MIN_GIF_DELAY;
+  const size = ANIMATION_RESOLUTIONS[resolution];
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) abortRef.current?.abort();
+    onOpenChange(next);
+  };
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress(0);
+    try {
+      const blob = await renderAnimation({
+        settings: {
+          format,
+          width: size.width,
+          height: size.height,
+          start,
+          end,
+          ...preferences,
+          overlays,
+        },
+        scene,
+        recorder,
+        onProgress: setProgress,
+        signal: controller.signal,
+      });
+      if (!blob) {
+        toast("Animation export cancelled");
+        return;
+      }
+      const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+      downloadBlob(blob, `pendulum-${stamp}.${format === "gif" ? "gif" : "zip"}`);
+      toast.success(`Saved ${frames.toLocaleString()} frames, ${(blob.size / 1e6).toFixed(1)} MB`);
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Export failed");
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="bg-[#111111] border-gray-800 text-white">
+        <DialogHeader>
+          <DialogTitle className="text-[#0088ff]">Export Animation</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Replays the recorded trajectory frame by frame through the canvas renderer, at the current view and
+            playback speed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={format} onValueChange={(value) => setFormat(value as AnimationFormat)}>
+          {FORMATS.map((option) => (
+            <Label
+              key={option.id}
+              htmlFor={`animation-${option.id}`}
+              className="flex items-start gap-3 rounded-lg border border-gray-700 p-3 cursor-pointer hover:bg-gray-800/50"
+            >
+              <RadioGroupItem id={`animation-${option.id}`} value={option.id} className="mt-0.5" />
+              <div>
+                <div className="text-sm text-gray-200">{option.label}</div>
+                <div className="text-xs text-gray-500 font-normal">{option.description}</div>
+              </div>
+            </Label>
+          ))}
+        </RadioGroup>
+
+        <div>
+          <Label className="text-sm text-gray-300">Resolution</Label>
+          <Select value={String(resolution)} onValueChange={(value) => setResolution(Number(value))}>
+            <SelectTrigger className="mt-2 w-full border-gray-700">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ANIMATION_RESOLUTIONS.map((option, i) => (
+                <SelectItem key={option.label} value={String(i)}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div>
+          <Label className="text-sm text-gray-300">
+            Range: {start.toFixed(2)} s to {end.toFixed(2)} s
+          </Label>
+          <Slider
+            value={[start, end]}
+            onValueChange={([from, to]) => setRange([from, to])}
+            min={recording.start}
+            max={recording.end}
+            step={sampleInterval}
+            minStepsBetweenThumbs={1}
+            className="mt-2"
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <Label className="text-sm text-gray-300">Overlays</Label>
+            <p className="text-xs text-gray-500">Energy readout and phase portrait drawn into the frames</p>
+          </div>
+          <Switch checked={overlays} onCheckedChange={setOverlays} />
+        </div>
+
+        <p className="text-xs text-gray-500">
+          {frames.toLocaleString()} frames at {+frameRate.toPrecision(3)} fps, {size.width} × {size.height}
+          {format === "gif" && `, ${preferences.palette === "web-safe" ? "web-safe palette" : `${preferences.colors} colours`}`}.
+          {frames > FRAME_WARNING && (
+            <span className="text-[#ff0080]"> That's a lot of frames: expect a slow export and a large file.</span>
+          )}
+          {gifTooFast && (
+            <span className="text-[#ff0080]">
+              {" "}
+              GIFs play at most {100 / MIN_GIF_DELAY} fps, so this one runs slower; raise the frame skip in the animation settings to keep real time.
+            </span>
+          )}
+        </p>
+
+        <DialogFooter>
+          {progress !== null ? (
+            <Button
+              onClick={() => abortRef.current?.abort()}
+              variant="outline"
+              className="border-[#ff0080] text-[#ff0080] hover:bg-[#ff0080]/10 cursor-pointer"
+            >
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Cancel · {Math.round(progress * 100)}%
+            </Button>
+          ) : (
+            <Button
+              onClick={handleExport}
+              disabled={recording.length < 2}
+              className="bg-[#0088ff] hover:bg-[#0088ff]/80 text-white cursor-pointer"
+            >
+              <Film className="w-4 h-4" />
+              Export {format === "gif" ? "GIF" : "PNGs"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,108 @@
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { PALETTE_SIZES, type AnimationPreferences } from "@/lib/export/animation";
+import type { DitherMode } from "@/lib/export/quantize";
+
+interface AnimationSettingsProps {
+  value: AnimationPreferences;
+  onChange: (value: AnimationPreferences) => void;
+}
+
+const DITHER_MODES: { id: DitherMode; label: string }[] = [
+  { id: "none", label: "None" },
+  { id: "floyd-steinberg", label: "Floyd–Steinberg" },
+  { id: "ordered", label: "Ordered (Bayer)" },
+];
+
+const LOOPS = [
+  { value: 0, label: "Forever" },
+  { value: 1, label: "Once" },
+  { value: 3, label: "3 times" },
+];
+
+// GIF and PNG-sequence options, kept with the other settings and used by every export
+export function AnimationSettings({ value, onChange }: AnimationSettingsProps) {
+  const { frameSkip, palette, colors, dither, loop } = value;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label className="text-sm text-gray-300">Frame Skip: every {frameSkip === 1 ? "sample" : `${frameSkip} samples`}</Label>
+        <Slider
+          value={[frameSkip]}
+          onValueChange={([next]) => onChange({ ...value, frameSkip: next })}
+          min={1}
+          max={10}
+          step={1}
+          className="mt-2"
+        />
+      </div>
+
+      <div>
+        <Label className="text-sm text-gray-300">GIF Palette</Label>
+        <Select
+          value={palette === "adaptive" ? String(colors) : "web-safe"}
+          onValueChange={(next) =>
+            onChange(
+              next === "web-safe"
+                ? { ...value, palette: "web-safe" }
+                : { ...value, palette: "adaptive", colors: Number(next) },
+            )
+          }
+        >
+          <SelectTrigger className="mt-2 w-full border-gray-700">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PALETTE_SIZES.map((size) => (
+              <SelectItem key={size} value={String(size)}>
+                Adaptive, {size} colours
+              </SelectItem>
+            ))}
+            <SelectItem value="web-safe">Web-safe, 256 colours</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label className="text-sm text-gray-300">Dithering</Label>
+          <Select value={dither} onValueChange={(next) => onChange({ ...value, dither: next as DitherMode })}>
+            <SelectTrigger className="mt-2 w-full border-gray-700">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DITHER_MODES.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="text-sm text-gray-300">Loop</Label>
+          <Select value={String(loop)} onValueChange={(next) => onChange({ ...value, loop: Number(next) })}>
+            <SelectTrigger className="mt-2 w-full border-gray-700">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LOOPS.map((option) => (
+                <SelectItem key={option.value} value={String(option.value)}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    </div>
+  );
+}
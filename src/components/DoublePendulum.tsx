@@ -1,312 +1,546 @@
 import { motion } from "framer-motion";
-import { Pause, Play, RotateCcw, Settings, Save, Download } from "lucide-react";
-import { useCallback, useEffect, useRef, useState } from "react";
+import { ArrowRight, Film, GitBranch, Loader2, Maximize2, Pause, Play, Rewind, RotateCcw, Settings, Save, Download, SkipForward, Square, StepForward, Upload, Video, ZoomIn, ZoomOut } from "lucide-react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useNavigate } from "react-router";
+import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DEFAULT_CONFIG,
+  DEFAULT_STATE,
+  MAX_LINKS,
+  MIN_LINKS,
+  calculateEnergy as computeEnergy,
+  getPositions as computePositions,
+  interpolateState,
+  packState,
+  resizeChain,
+  unpackState,
+} from "@/lib/physics/engine";
+import {
+  DEFAULT_INTEGRATOR,
+  DEFAULT_TOLERANCE,
+  INTEGRATORS,
+  type IntegratorId,
+} from "@/lib/physics/integrators";
+import { DAMPING_MODELS, DEFAULT_DAMPING, getDissipation } from "@/lib/physics/damping";
+import { DEFAULT_DRIVE, getPivotOffset } from "@/lib/physics/drive";
+import { LIMITS } from "@/lib/physics/limits";
+import { DEFAULT_PHYSICS_STEP, MAX_FRAME_TIME, MAX_TIME_SCALE, MIN_TIME_SCALE } from "@/lib/physics/loop";
+import type { PhysicsFrame, PhysicsRequest } from "@/lib/physics/worker-protocol";
+import type {
+  DampingConfig,
+  DampingModel,
+  DriveAxis,
+  PendulumConfig,
+  PendulumState,
+  PivotDrive,
+  SimulationSnapshot,
+  StateSample,
+} from "@/lib/physics/types";
+import { bobColor } from "@/lib/palette";
+import type { PresetSetup, PresetSource } from "@/lib/presets";
+import { PLOT_HISTORY_MAX, PLOT_SAMPLE_RATE, PhasePlots } from "@/components/PhasePlots";
+import { PoincarePanel } from "@/components/PoincarePanel";
+import { PresetPanel } from "@/components/PresetPanel";
+import { LyapunovChart } from "@/components/LyapunovChart";
+import { EnsemblePanel, type DivergenceSample } from "@/components/EnsemblePanel";
+import { AnimationDialog } from "@/components/AnimationDialog";
+import { AnimationSettings } from "@/components/AnimationSettings";
+import { ExportDialog } from "@/components/ExportDialog";
+import { VideoDialog } from "@/components/VideoDialog";
+import { DEFAULT_ANIMATION_PREFERENCES } from "@/lib/export/animation";
+import { parseSimulationFile, type ImportedSimulation } from "@/lib/export/simulation-import";
+import { downloadBlob } from "@/lib/export/trajectory-export";
+import { renderExactVideo, startLiveVideo, type VideoMode, type VideoSettings } from "@/lib/export/video";
+import { useCanvasSize } from "@/hooks/use-canvas-size";
+import { useLyapunovEstimate } from "@/hooks/use-lyapunov-estimate";
+import { usePhysicsWorker } from "@/hooks/use-physics-worker";
+import { LYAPUNOV_STEP, type LyapunovOptions } from "@/lib/physics/lyapunov";
+import { createTrajectoryRecorder } from "@/lib/physics/trajectory";
+import {
+  acquireCanvasRenderer,
+  combineRenderers,
+  releaseCanvasRenderer,
+  type CanvasRenderer,
+} from "@/lib/render/canvas-renderer";
+import {
+  DEFAULT_CAMERA_VIEW,
+  fitCamera,
+  panView,
+  worldToScreen,
+  zoomViewAt,
+  type CameraView,
+} from "@/lib/render/camera";
 
-interface PendulumState {
-  angle1: number;
-  angle2: number;
-  velocity1: number;
-  velocity2: number;
-}
+// Simulated seconds between points on the ensemble divergence chart
+const DIVERGENCE_SAMPLE_INTERVAL = 0.05;
 
-interface PendulumConfig {
-  length1: number;
-  length2: number;
-  mass1: number;
-  mass2: number;
-  gravity: number;
-}
+// Wall-clock ms between refreshes of the React-side readouts while playing;
+// the canvas itself is redrawn on every frame
+const READOUT_INTERVAL = 100;
+
+// Canvas size until the layout has been measured
+const INITIAL_CANVAS_SIZE = { width: 800, height: 600, pixelRatio: 1 };
+const ZOOM_STEP = 1.25;
+
+// Wall-clock seconds one press of Step covers, scaled by the playback speed
+const FRAME_DURATION = 1 / 60;
+
+// Simulated seconds of the recording handed to the phase plots
+const PLOT_WINDOW = PLOT_HISTORY_MAX / PLOT_SAMPLE_RATE;
+
+// Wall-clock ms of quiet, e.g. after a slider drag, before the setup is reported
+const SETUP_REPORT_DELAY = 300;
 
-interface Trail {
-  x: number;
-  y: number;
-  timestamp: number;
+// A preset's settings without the motion, which changes every frame while playing
+type SetupSettings = Omit<PresetSetup, "physics"> & { physics: Omit<PresetSetup["physics"], "state" | "time"> };
+
+const withMotion = (settings: SetupSettings, motion: { state: PendulumState; time: number }): PresetSetup => ({
+  ...settings,
+  physics: { ...settings.physics, ...motion },
+});
+
+// Hinge friction coefficients for a chain of `count` links; new hinges copy the outermost
+const resizeJoints = (joint: number[], count: number) =>
+  Array.from({ length: count }, (_, i) => joint[i] ?? joint[joint.length - 1]);
+
+interface DoublePendulumProps {
+  // starting configuration and state, e.g. handed over from the fractal map
+  initial?: SimulationSnapshot;
+  // a saved setup to load once it arrives, replacing everything
+  preset?: PresetSetup;
+  // the saved preset `preset` came from, if any, so it can be forked
+  presetSource?: PresetSource;
+  // told the current setup shortly after any setting changes, and whenever the run pauses
+  onSetupChange?: (setup: PresetSetup) => void;
 }
 
-export default function DoublePendulum() {
+export default function DoublePendulum({ initial, preset, presetSource, onSetupChange }: DoublePendulumProps) {
+  const navigate = useNavigate();
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number | undefined>(undefined);
   const lastTimeRef = useRef<number>(0);
-
-  // Add: coordinate system and physics unit conversion constants
-  const centerX = 400; // pivot X (canvas width is 800)
-  const centerY = 120; // pivot Y (near top for visibility)
-  const scale = 1; // pixel scaling for drawing
-  const metersPerPixel = 0.01; // 1 px = 0.01 m for physics calculations
+  // Wall-clock time not yet handed to the worker, and whether a frame is on its way back
+  const pendingElapsedRef = useRef(0);
+  const awaitingFrameRef = useRef(false);
+  // Playhead while playing back the recording from an earlier moment; null while simulating
+  const replayRef = useRef<number | null>(null);
 
   const [isPlaying, setIsPlaying] = useState(false);
   const [showTrails, setShowTrails] = useState(true);
   const [showEnergy, setShowEnergy] = useState(true);
   const [showControls, setShowControls] = useState(true);
   
-  const [state, setState] = useState<PendulumState>({
-    angle1: Math.PI / 2,
-    angle2: Math.PI / 2,
-    velocity1: 0,
-    velocity2: 0,
-  });
+  // The physics runs in a worker. `state` and `simTime` mirror its interpolated display
+  // state for the readouts; the canvas is drawn by the renderer straight from each frame.
+  const [state, setState] = useState<PendulumState>(initial?.state ?? DEFAULT_STATE);
+  const [simTime, setSimTime] = useState(0);
+  // Last full step reported by the worker; `time` is the simulated time of `current`
+  const physicsRef = useRef({ current: initial?.state ?? DEFAULT_STATE, time: 0 });
+  const displayRef = useRef({ state: initial?.state ?? DEFAULT_STATE, time: 0 });
+  // Bumped on every load so frames computed from an older state can be dropped
+  const epochRef = useRef(0);
+  // Link count the worker was last configured with, and a load for another count held
+  // back until the configuration of its chain has gone out
+  const configuredLinksRef = useRef(0);
+  const pendingLoadRef = useRef<Extract<PhysicsRequest, { type: "load" }> | null>(null);
+  const lastReadoutRef = useRef(0);
   
-  const [config, setConfig] = useState<PendulumConfig>({
-    length1: 150,
-    length2: 150,
-    mass1: 10,
-    mass2: 10,
-    gravity: 9.81,
-  });
+  const [config, setConfig] = useState<PendulumConfig>(initial?.config ?? DEFAULT_CONFIG);
 
   // Add: energy loss (damping) controls
   const [enableDamping, setEnableDamping] = useState(false);
-  const [damping, setDamping] = useState(0.05); // per-second damping factor
+  const [damping, setDamping] = useState<DampingConfig>(DEFAULT_DAMPING);
+  const activeDamping = enableDamping && damping.models.length > 0 ? damping : undefined;
+
+  // Periodically driven pivot (and optional torque on the first link)
+  const [enableDrive, setEnableDrive] = useState(false);
+  const [drive, setDrive] = useState<PivotDrive>(DEFAULT_DRIVE);
+  const physicsConfig = useMemo<PendulumConfig>(
+    () => (enableDrive ? { ...config, drive } : config),
+    [config, enableDrive, drive],
+  );
+
+  // Numerical integrator; the worker keeps a fresh instance per choice so adaptive step sizes don't leak
+  const [integratorId, setIntegratorId] = useState<IntegratorId>(DEFAULT_INTEGRATOR);
+  const [tolerance, setTolerance] = useState(DEFAULT_TOLERANCE);
+  const integratorInfo = INTEGRATORS.find((info) => info.id === integratorId);
+
+  // Fixed physics step, independent of the display refresh rate
+  const [physicsStep, setPhysicsStep] = useState(DEFAULT_PHYSICS_STEP);
+
+  // Playback speed and direction; stepping backwards just runs the integrator with −step
+  const [timeScale, setTimeScale] = useState(1);
+  const [reverse, setReverse] = useState(false);
   
-  const [trails, setTrails] = useState<Trail[]>([]);
+  // Draws the canvas, in a worker when the browser can hand it an OffscreenCanvas;
+  // it keeps the trails itself
+  const rendererRef = useRef<CanvasRenderer | null>(null);
+  const energyHistoryRef = useRef<number[]>([]);
   const [energyHistory, setEnergyHistory] = useState<number[]>([]);
-  const [trails1, setTrails1] = useState<Trail[]>([]);
 
-  // Add: drag state and play state memory
-  const [dragging, setDragging] = useState<null | "mass1" | "mass2">(null);
+  // Every state of the run at the worker's fixed sample rate, for scrubbing back
+  // through it; `recording` mirrors its extent for the timeline
+  const recorder = useMemo(() => createTrajectoryRecorder(), []);
+  const [recording, setRecording] = useState({ start: 0, end: 0, length: 0 });
+  const syncRecording = useCallback(
+    () => setRecording({ start: recorder.startTime, end: recorder.endTime, length: recorder.length }),
+    [recorder],
+  );
+
+  const [exportOpen, setExportOpen] = useState(false);
+  // A file dragged over the canvas, or picked with the Import button, loads into the simulator
+  const [dropActive, setDropActive] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Video recording: the settings dialog, and the recording in progress (`progress` from 0 to 1)
+  const [videoOpen, setVideoOpen] = useState(false);
+  const [videoJob, setVideoJob] = useState<{ mode: VideoMode; progress: number } | null>(null);
+  const stopVideoRef = useRef<(() => void) | null>(null);
+  // GIF and PNG-sequence export of the recording
+  const [animationOpen, setAnimationOpen] = useState(false);
+  const [animationPreferences, setAnimationPreferences] = useState(DEFAULT_ANIMATION_PREFERENCES);
+
+  // The phase plots show the recording up to the current moment, refreshed a few times per second
+  const lastPlotUpdateRef = useRef(0);
+  const [plotSamples, setPlotSamples] = useState<StateSample[]>([]);
+
+  // Butterfly-effect ensemble: the worker steps all members in one packed array
+  // alongside the main pendulum and each frame carries the latest copy to the renderer
+  const [ensembleSize, setEnsembleSize] = useState(100);
+  const [ensembleEpsilon, setEnsembleEpsilon] = useState(1e-3);
+  const [ensembleActive, setEnsembleActive] = useState(false);
+  const divergenceRef = useRef<DivergenceSample[]>([]);
+  const [divergenceSamples, setDivergenceSamples] = useState<DivergenceSample[]>([]);
+
+  // Add: drag state and play state memory (index of the dragged bob)
+  const [dragging, setDragging] = useState<number | null>(null);
   const wasPlayingRef = useRef(false);
+  // whether the current drag has moved the bob, so releasing it branches the run
+  const dragMovedRef = useRef(false);
 
-  // Calculate pendulum positions
-  const getPositions = useCallback((currentState: PendulumState) => {
-    const { angle1, angle2 } = currentState;
-    const { length1, length2 } = config;
-    
-    const x1 = centerX + length1 * Math.sin(angle1) * scale;
-    const y1 = centerY + length1 * Math.cos(angle1) * scale;
-    
-    const x2 = x1 + length2 * Math.sin(angle2) * scale;
-    const y2 = y1 + length2 * Math.cos(angle2) * scale;
-    
-    return { x1, y1, x2, y2 };
-  }, [config, centerX, centerY, scale]);
+  // Where the Lyapunov estimate's trajectories start; moved whenever the state is replaced
+  const [lyapunovStart, setLyapunovStart] = useState({ state: initial?.state ?? DEFAULT_STATE, time: 0 });
+
+  // The frame loop copies from the ref, so both have to be emptied
+  const clearEnergyHistory = useCallback(() => {
+    energyHistoryRef.current = [];
+    setEnergyHistory([]);
+  }, []);
+
+  // Drop everything derived from the trajectory so far
+  const clearHistory = useCallback(() => {
+    rendererRef.current?.clearTrails();
+    clearEnergyHistory();
+    recorder.clear();
+    syncRecording();
+    setPlotSamples([]);
+  }, [clearEnergyHistory, recorder, syncRecording]);
+
+  // Largest Lyapunov exponent, estimated in a worker of its own
+  const lyapunovOptions = useMemo<LyapunovOptions>(
+    () => ({
+      config: physicsConfig,
+      damping: activeDamping,
+      state: lyapunovStart.state,
+      time: lyapunovStart.time,
+      integrator: integratorId,
+      tolerance,
+      step: LYAPUNOV_STEP,
+    }),
+    [physicsConfig, activeDamping, lyapunovStart, integratorId, tolerance],
+  );
+  const lyapunov = useLyapunovEstimate(lyapunovOptions);
+
+  // The camera fits the whole reach of the chain into the canvas as laid out,
+  // then applies the user's zoom and pan on top
+  const canvasSize = useCanvasSize(canvasRef, INITIAL_CANVAS_SIZE);
+  const [cameraView, setCameraView] = useState<CameraView>(DEFAULT_CAMERA_VIEW);
+  const reach = config.lengths.reduce((sum, length) => sum + length, 0) + (enableDrive ? drive.amplitude : 0);
+  const camera = useMemo(
+    () => fitCamera(reach, canvasSize.width, canvasSize.height, canvasSize.pixelRatio, cameraView),
+    [reach, canvasSize, cameraView],
+  );
+  // Pan in progress: pointer position and view at the start of the drag
+  const panRef = useRef<{ x: number; y: number; view: CameraView } | null>(null);
+
+  // Calculate pendulum positions in canvas (CSS pixel) coordinates
+  const getPositions = useCallback(
+    (currentState: PendulumState, time: number) =>
+      computePositions(currentState, physicsConfig, worldToScreen(camera, { x: 0, y: 0 }), camera.pixelsPerMeter, time),
+    [physicsConfig, camera],
+  );
   
   // Calculate energy
-  const calculateEnergy = useCallback((currentState: PendulumState) => {
-    const { angle1, angle2, velocity1, velocity2 } = currentState;
-    const { length1, length2, mass1, mass2, gravity } = config;
-
-    // Convert lengths to meters for physics
-    const L1 = length1 * metersPerPixel;
-    const L2 = length2 * metersPerPixel;
-
-    // Kinetic energy
-    const ke1 = 0.5 * mass1 * Math.pow(L1 * velocity1, 2);
-    const ke2 =
-      0.5 *
-      mass2 *
-      (Math.pow(L1 * velocity1, 2) +
-        Math.pow(L2 * velocity2, 2) +
-        2 * L1 * L2 * velocity1 * velocity2 * Math.cos(angle1 - angle2));
-
-    // Potential energy (taking pivot as reference)
-    const pe1 = -mass1 * gravity * L1 * Math.cos(angle1);
-    const pe2 = -mass2 * gravity * (L1 * Math.cos(angle1) + L2 * Math.cos(angle2));
-
-    return ke1 + ke2 + pe1 + pe2;
-  }, [config, metersPerPixel]);
+  const calculateEnergy = useCallback(
+    (currentState: PendulumState, time: number) =>
+      computeEnergy(currentState, physicsConfig, time),
+    [physicsConfig],
+  );
   
-  // Lagrangian mechanics equations of motion (standard form with meter conversion)
-  const updateState = useCallback((currentState: PendulumState, dt: number) => {
-    const { angle1, angle2, velocity1, velocity2 } = currentState;
-    const { length1, length2, mass1, mass2, gravity } = config;
-
-    // Convert lengths to meters for physics
-    const L1 = length1 * metersPerPixel;
-    const L2 = length2 * metersPerPixel;
-
-    const m1 = mass1;
-    const m2 = mass2;
-    const a1 = angle1;
-    const a2 = angle2;
-    const w1 = velocity1;
-    const w2 = velocity2;
-
-    const delta = a1 - a2;
-    const den = 2 * m1 + m2 - m2 * Math.cos(2 * a1 - 2 * a2);
-
-    // Angular accelerations (rad/s^2), standard double pendulum equations
-    const a1acc =
-      (-gravity * (2 * m1 + m2) * Math.sin(a1) -
-        m2 * gravity * Math.sin(a1 - 2 * a2) -
-        2 * Math.sin(delta) *
-          m2 *
-          (w2 * w2 * L2 + w1 * w1 * L1 * Math.cos(delta))) /
-      (L1 * den);
-
-    const a2acc =
-      (2 *
-        Math.sin(delta) *
-        (w1 * w1 * L1 * (m1 + m2) +
-          gravity * (m1 + m2) * Math.cos(a1) +
-          w2 * w2 * L2 * m2 * Math.cos(delta))) /
-      (L2 * den);
-
-    // Integrate angles and velocities
-    let newV1 = w1 + a1acc * dt;
-    let newV2 = w2 + a2acc * dt;
-
-    // Apply exponential damping to model energy loss (e.g., air resistance)
-    if (enableDamping && damping > 0) {
-      const decay = Math.exp(-damping * dt);
-      newV1 *= decay;
-      newV2 *= decay;
+  // Redraw the current display state without the ensemble and without extending the trails
+  const redraw = useCallback(() => {
+    const { state: displayState, time } = displayRef.current;
+    rendererRef.current?.pushFrame({ state: displayState, time, ensemble: null, ensembleTime: 0, trail: false });
+  }, []);
+
+  // Take in a frame from the physics worker: hand it straight to the renderer, and
+  // update the React-side readouts only every so often
+  const handleFrame = useCallback((frame: PhysicsFrame) => {
+    awaitingFrameRef.current = false;
+    if (frame.epoch !== epochRef.current) return;
+
+    const now = performance.now();
+    const advanced = frame.time !== physicsRef.current.time;
+    // Running backwards retraces the recording rather than adding to it
+    const forward = frame.time > physicsRef.current.time;
+    const current = unpackState(Array.from(frame.current));
+    const display = unpackState(Array.from(frame.display));
+    physicsRef.current = { current, time: frame.time };
+    displayRef.current = { state: display, time: frame.displayTime };
+
+    if (forward) {
+      const stride = 1 + frame.current.length;
+      for (let o = 0; o < frame.samples.length; o += stride) {
+        recorder.record(frame.samples[o], frame.samples.subarray(o + 1, o + stride));
+      }
     }
 
-    return {
-      angle1: a1 + newV1 * dt,
-      angle2: a2 + newV2 * dt,
-      velocity1: newV1,
-      velocity2: newV2,
-    };
-  }, [config, metersPerPixel, enableDamping, damping]);
-  
-  // Animation loop
+    for (let i = 0; i < frame.divergence.length; i += 2) {
+      divergenceRef.current.push({ time: frame.divergence[i], divergence: frame.divergence[i + 1] });
+    }
+
+    // Keep the last 200 energy readings
+    if (advanced) {
+      const history = energyHistoryRef.current;
+      history.push(frame.energy);
+      if (history.length > 200) history.shift();
+    }
+
+    // Only frames that moved the pendulum extend the trails
+    rendererRef.current?.pushFrame({
+      state: display,
+      time: frame.displayTime,
+      ensemble: frame.ensemble,
+      ensembleTime: frame.ensembleTime,
+      trail: advanced,
+    });
+
+    if (now - lastReadoutRef.current > READOUT_INTERVAL) {
+      lastReadoutRef.current = now;
+      setState(display);
+      setSimTime(frame.displayTime);
+      setEnergyHistory(energyHistoryRef.current.slice());
+    }
+    if (now - lastPlotUpdateRef.current > 200) {
+      lastPlotUpdateRef.current = now;
+      setPlotSamples(recorder.between(frame.time - PLOT_WINDOW, frame.time));
+      syncRecording();
+      if (frame.ensemble) setDivergenceSamples(divergenceRef.current.slice());
+    }
+  }, [recorder, syncRecording]);
+
+  const postToWorker = usePhysicsWorker(handleFrame);
+
+  // Keep the worker's settings in step with the controls
+  useEffect(() => {
+    postToWorker({
+      type: "configure",
+      settings: {
+        config: physicsConfig,
+        damping: activeDamping,
+        integrator: integratorId,
+        tolerance,
+        step: physicsStep,
+        timeScale,
+        reverse,
+        sampleInterval: 1 / PLOT_SAMPLE_RATE,
+        divergenceInterval: DIVERGENCE_SAMPLE_INTERVAL,
+      },
+    });
+    configuredLinksRef.current = physicsConfig.lengths.length;
+    const pending = pendingLoadRef.current;
+    if (pending && pending.state.angles.length === configuredLinksRef.current) {
+      pendingLoadRef.current = null;
+      postToWorker(pending);
+    }
+  }, [postToWorker, physicsConfig, activeDamping, integratorId, tolerance, physicsStep, timeScale, reverse]);
+
+  // Seed the worker with the starting state, which also opens the recording
+  useEffect(() => {
+    const { current, time } = physicsRef.current;
+    postToWorker({ type: "load", state: current, time, epoch: epochRef.current, branch: true });
+    recorder.record(time, packState(current));
+    syncRecording();
+  }, [postToWorker, recorder, syncRecording]);
+
+  // The recording keeps the chain it was made with, so exports use the right lengths and masses
+  const physicsConfigRef = useRef(physicsConfig);
+  useEffect(() => {
+    physicsConfigRef.current = physicsConfig;
+    recorder.noteConfig(physicsRef.current.time, physicsConfig);
+  }, [recorder, physicsConfig]);
+
+  // Put a state into the worker and every readout. Unless `branch` is set this leaves the
+  // recording, the ensemble and the Lyapunov estimate alone: scrubbing, replaying and
+  // dragging only look at or try out states until the run branches.
+  const applyState = useCallback((next: PendulumState, time: number, branch = false) => {
+    replayRef.current = null;
+    epochRef.current++;
+    physicsRef.current = { current: next, time };
+    displayRef.current = { state: next, time };
+    // A resized chain's state waits for its configuration, or the worker couldn't step it
+    const load = { type: "load", state: next, time, epoch: epochRef.current, branch } as const;
+    if (next.angles.length === configuredLinksRef.current) {
+      pendingLoadRef.current = null;
+      postToWorker(load);
+    } else {
+      pendingLoadRef.current = load;
+    }
+    setState(next);
+    setSimTime(time);
+    redraw();
+  }, [postToWorker, redraw]);
+
+  // Replace the physics state outright (reset, drag, randomize); keeps the clock unless `time` is given.
+  // The new state is recorded, which drops any recording after `time`: the run branches here.
+  const loadState = useCallback((next: PendulumState, time = physicsRef.current.time) => {
+    applyState(next, time, true);
+    setLyapunovStart({ state: next, time });
+    // The worker drops the ensemble on a branch: it was spread around the old state
+    setEnsembleActive(false);
+    recorder.record(time, packState(next));
+    recorder.noteConfig(time, physicsConfigRef.current);
+    syncRecording();
+    setPlotSamples(recorder.between(time - PLOT_WINDOW, time));
+  }, [applyState, recorder, syncRecording]);
+
+  // Jump to the recorded state nearest before `time`. The recording is kept, so
+  // scrubbing and replaying can go back and forth until editing branches from here.
+  const seek = useCallback((time: number) => {
+    const index = recorder.indexAt(time);
+    if (index < 0) return;
+    const sample = recorder.at(index);
+    setIsPlaying(false);
+    applyState({ angles: sample.angles, velocities: sample.velocities }, sample.time);
+    rendererRef.current?.clearTrails();
+    setPlotSamples(recorder.between(sample.time - PLOT_WINDOW, sample.time));
+  }, [recorder, applyState]);
+
+  // Move the replay playhead by `elapsed` wall-clock seconds and draw the recording there.
+  // At the end of the recording the simulation takes over; at its start playback stops,
+  // and this returns false.
+  const replayFrame = useCallback((elapsed: number): boolean => {
+    const playhead = replayRef.current ?? 0;
+    const time = playhead + Math.min(elapsed, MAX_FRAME_TIME) * timeScale * (reverse ? -1 : 1);
+    if (time >= recorder.endTime || time <= recorder.startTime) {
+      const sample = recorder.at(time >= recorder.endTime ? recorder.length - 1 : 0);
+      applyState({ angles: sample.angles, velocities: sample.velocities }, sample.time);
+      setPlotSamples(recorder.between(sample.time - PLOT_WINDOW, sample.time));
+      syncRecording();
+      if (reverse) setIsPlaying(false);
+      return !reverse;
+    }
+
+    const index = recorder.indexAt(time);
+    const from = recorder.at(index);
+    const to = recorder.at(index + 1);
+    const display = interpolateState(from, to, (time - from.time) / (to.time - from.time));
+    replayRef.current = time;
+    displayRef.current = { state: display, time };
+    rendererRef.current?.pushFrame({ state: display, time, ensemble: null, ensembleTime: 0, trail: true });
+
+    const now = performance.now();
+    if (now - lastReadoutRef.current > READOUT_INTERVAL) {
+      lastReadoutRef.current = now;
+      setState(display);
+      setSimTime(time);
+    }
+    if (now - lastPlotUpdateRef.current > 200) {
+      lastPlotUpdateRef.current = now;
+      setPlotSamples(recorder.between(time - PLOT_WINDOW, time));
+    }
+    return true;
+  }, [recorder, applyState, syncRecording, timeScale, reverse]);
+
+  // Animation loop: hand the elapsed wall-clock time to the worker, which runs the
+  // fixed steps and answers with a frame; at most one request is in flight
   const animate = useCallback((currentTime: number) => {
     if (!isPlaying) return;
     
-    const dt = Math.min((currentTime - lastTimeRef.current) / 1000, 0.016); // Cap at 60 FPS
+    const elapsed = (currentTime - lastTimeRef.current) / 1000;
     lastTimeRef.current = currentTime;
-    
-    if (dt > 0) {
-      setState(prevState => {
-        const newState = updateState(prevState, dt);
-        
-        // Add trail point
-        const { x1, y1, x2, y2 } = getPositions(newState);
-        setTrails1(prevTrails => {
-          const newTrails = [...prevTrails, { x: x1, y: y1, timestamp: currentTime }];
-          // Keep only recent trails (last 3 seconds)
-          return newTrails.filter(trail => currentTime - trail.timestamp < 3000);
-        });
-        setTrails(prevTrails => {
-          const newTrails = [...prevTrails, { x: x2, y: y2, timestamp: currentTime }];
-          // Keep only recent trails (last 3 seconds)
-          return newTrails.filter(trail => currentTime - trail.timestamp < 3000);
-        });
-        
-        // Update energy history
-        const energy = calculateEnergy(newState);
-        setEnergyHistory(prevHistory => {
-          const newHistory = [...prevHistory, energy];
-          return newHistory.slice(-200); // Keep last 200 points
-        });
-        
-        return newState;
-      });
+    if (replayRef.current !== null) {
+      if (!replayFrame(elapsed)) return;
+    } else {
+      pendingElapsedRef.current += elapsed;
+      if (!awaitingFrameRef.current) {
+        postToWorker({ type: "advance", elapsed: pendingElapsedRef.current });
+        pendingElapsedRef.current = 0;
+        awaitingFrameRef.current = true;
+      }
     }
     
     animationRef.current = requestAnimationFrame(animate);
-  }, [isPlaying, updateState, getPositions, calculateEnergy]);
+  }, [isPlaying, postToWorker, replayFrame]);
   
-  // Canvas drawing
+  // The renderer belongs to the canvas element and survives StrictMode's remount of it
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
-    
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    
-    // Clear canvas
-    ctx.fillStyle = '#0a0a0a';
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-    
-    const { x1, y1, x2, y2 } = getPositions(state);
-    
-    // Draw trails
-    if (showTrails && trails.length > 1) {
-      // Use performance.now() to match RAF timestamps
-      const now = performance.now();
-      ctx.strokeStyle = '#00ff88';
-      ctx.lineWidth = 2;
-      ctx.beginPath();
-      
-      for (let i = 1; i < trails.length; i++) {
-        const age = now - trails[i].timestamp;
-        const alpha = Math.max(0, 1 - age / 3000); // fade out over 3s
-        ctx.globalAlpha = alpha * 0.8;
-        
-        if (i === 1) {
-          ctx.moveTo(trails[i-1].x, trails[i-1].y);
-        }
-        ctx.lineTo(trails[i].x, trails[i].y);
-      }
-      ctx.stroke();
-      ctx.globalAlpha = 1;
-    }
+    rendererRef.current = acquireCanvasRenderer(canvas);
+    redraw();
+    return () => {
+      rendererRef.current = null;
+      releaseCanvasRenderer(canvas);
+    };
+  }, [redraw]);
 
-    if (showTrails && trails1.length > 1) {
-      const now = performance.now();
-      ctx.strokeStyle = '#0088ff';
-      ctx.lineWidth = 2;
-      ctx.beginPath();
-      
-      for (let i = 1; i < trails1.length; i++) {
-        const age = now - trails1[i].timestamp;
-        const alpha = Math.max(0, 1 - age / 3000); // fade out over 3s
-        ctx.globalAlpha = alpha * 0.8;
-        
-        if (i === 1) {
-          ctx.moveTo(trails1[i-1].x, trails1[i-1].y);
-        }
-        ctx.lineTo(trails1[i].x, trails1[i].y);
-      }
-      ctx.stroke();
-      ctx.globalAlpha = 1;
-    }
-    
-    // Draw pendulum rods
-    ctx.strokeStyle = '#ffffff';
-    ctx.lineWidth = 3;
-    ctx.beginPath();
-    ctx.moveTo(centerX, centerY);
-    ctx.lineTo(x1, y1);
-    ctx.lineTo(x2, y2);
-    ctx.stroke();
-    
-    // Draw pivot point
-    ctx.fillStyle = '#ff0080';
-    ctx.beginPath();
-    ctx.arc(centerX, centerY, 8, 0, 2 * Math.PI);
-    ctx.fill();
-    
-    // Draw masses
-    const radius1 = Math.max(8, config.mass1);
-    const radius2 = Math.max(8, config.mass2);
-    
-    // Mass 1
-    ctx.fillStyle = '#0088ff';
-    ctx.beginPath();
-    ctx.arc(x1, y1, radius1, 0, 2 * Math.PI);
-    ctx.fill();
-    ctx.strokeStyle = '#ffffff';
-    ctx.lineWidth = 2;
-    ctx.stroke();
-    
-    // Mass 2
-    ctx.fillStyle = '#00ff88';
-    ctx.beginPath();
-    ctx.arc(x2, y2, radius2, 0, 2 * Math.PI);
-    ctx.fill();
-    ctx.strokeStyle = '#ffffff';
-    ctx.lineWidth = 2;
-    ctx.stroke();
-    
-  }, [state, config, trails, trails1, showTrails, getPositions]);
+  // Everything drawn that follows the controls rather than the motion
+  const scene = useMemo(
+    () => ({ config: physicsConfig, camera, showTrails, timeScale, reverse }),
+    [physicsConfig, camera, showTrails, timeScale, reverse],
+  );
+  useEffect(() => {
+    rendererRef.current?.setScene(scene);
+  }, [scene]);
+
+  // Wheel zoom about the cursor needs a non-passive listener to keep the page from scrolling
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      const anchor = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+      setCameraView(zoomViewAt(camera, cameraView, anchor, e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP));
+    };
+    canvas.addEventListener("wheel", handleWheel, { passive: false });
+    return () => canvas.removeEventListener("wheel", handleWheel);
+  }, [camera, cameraView]);
+
+  // Zoom about the centre of the canvas, for the overlay buttons
+  const zoomBy = (factor: number) =>
+    setCameraView(zoomViewAt(camera, cameraView, { x: camera.width / 2, y: camera.height / 2 }, factor));
   
-  // Add: helper to get canvas-relative coordinates accounting for CSS scaling
+  // Add: helper to get canvas-relative coordinates in CSS pixels, the camera's screen units
   const getCanvasCoords = (e: React.PointerEvent<HTMLCanvasElement>) => {
     const canvas = canvasRef.current;
     if (!canvas) return { x: 0, y: 0 };
     const rect = canvas.getBoundingClientRect();
-    const x = ((e.clientX - rect.left) * canvas.width) / rect.width;
-    const y = ((e.clientY - rect.top) * canvas.height) / rect.height;
-    return { x, y };
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
   };
 
   // Add: pointer handlers for drag & release
@@ -315,67 +549,70 @@ export default function DoublePendulum() {
     if (!canvas) return;
 
     const { x, y } = getCanvasCoords(e);
-    const { x1, y1, x2, y2 } = getPositions(state);
+    const positions = getPositions(displayRef.current.state, displayRef.current.time);
 
-    const radius1 = Math.max(8, config.mass1);
-    const radius2 = Math.max(8, config.mass2);
-    const threshold1 = radius1 + 8;
-    const threshold2 = radius2 + 8;
-
-    const d1 = Math.hypot(x - x1, y - y1);
-    const d2 = Math.hypot(x - x2, y - y2);
+    // Pick the closest bob within grabbing distance, outermost first on ties
+    let closest: number | null = null;
+    let closestDistance = Infinity;
+    positions.forEach((position, bob) => {
+      const distance = Math.hypot(x - position.x, y - position.y);
+      const threshold = Math.max(8, config.masses[bob]) + 8;
+      if (distance <= threshold && distance <= closestDistance) {
+        closest = bob;
+        closestDistance = distance;
+      }
+    });
 
-    if (d1 <= threshold1 || d2 <= threshold2) {
+    if (closest !== null) {
       wasPlayingRef.current = isPlaying;
       setIsPlaying(false);
-      setTrails([]); // clear trails to avoid artifacts while dragging
-      setTrails1([]);
-      if (d2 <= d1 && d2 <= threshold2) {
-        setDragging("mass2");
-      } else if (d1 <= threshold1) {
-        setDragging("mass1");
-      }
-      canvas.setPointerCapture?.(e.pointerId);
+      rendererRef.current?.clearTrails(); // clear trails to avoid artifacts while dragging
+      dragMovedRef.current = false;
+      setDragging(closest);
+    } else {
+      // Grabbing empty space pans the view
+      panRef.current = { x: e.clientX, y: e.clientY, view: cameraView };
     }
+    canvas.setPointerCapture?.(e.pointerId);
   };
 
   const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
-    if (!dragging) return;
-    const { x, y } = getCanvasCoords(e);
-
-    if (dragging === "mass1") {
-      // Set angle1 from pivot (centerX, centerY) towards mouse
-      const newAngle1 = Math.atan2(x - centerX, y - centerY);
-      setState(prev => ({
-        ...prev,
-        angle1: newAngle1,
-        velocity1: 0,
-        velocity2: 0,
-      }));
-      setTrails([]);
+    const pan = panRef.current;
+    if (pan) {
+      setCameraView(panView(camera, pan.view, e.clientX - pan.x, e.clientY - pan.y));
       return;
     }
+    if (dragging === null) return;
+    const { x, y } = getCanvasCoords(e);
 
-    if (dragging === "mass2") {
-      // Set angle2 from mass1 position towards mouse
-      const { x1, y1 } = getPositions(state);
-      const newAngle2 = Math.atan2(x - x1, y - y1);
-      setState(prev => ({
-        ...prev,
-        angle2: newAngle2,
-        velocity1: 0,
-        velocity2: 0,
-      }));
-      setTrails([]);
-      return;
-    }
+    // Point the dragged link from its inner joint (or the pivot) towards the mouse
+    const { current, time } = physicsRef.current;
+    const anchor =
+      dragging === 0
+        ? worldToScreen(camera, getPivotOffset(physicsConfig, time))
+        : getPositions(current, time)[dragging - 1];
+    const angles = [...current.angles];
+    angles[dragging] = Math.atan2(x - anchor.x, y - anchor.y);
+    // Only shown while dragging; the run branches once, from where the bob is let go
+    applyState({ angles, velocities: current.velocities.map(() => 0) }, time);
+    dragMovedRef.current = true;
+    rendererRef.current?.clearTrails();
   };
 
   const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
-    if (!dragging) return;
-    setDragging(null);
     const canvas = canvasRef.current;
+    if (panRef.current) {
+      panRef.current = null;
+      canvas?.releasePointerCapture?.(e.pointerId);
+      return;
+    }
+    if (dragging === null) return;
+    setDragging(null);
     canvas?.releasePointerCapture?.(e.pointerId);
+    if (dragMovedRef.current) {
+      dragMovedRef.current = false;
+      loadState(physicsRef.current.current);
+    }
     if (wasPlayingRef.current) {
       setIsPlaying(true);
     }
@@ -385,11 +622,17 @@ export default function DoublePendulum() {
   useEffect(() => {
     if (isPlaying) {
       lastTimeRef.current = performance.now();
+      pendingElapsedRef.current = 0;
+      awaitingFrameRef.current = false;
+      postToWorker({ type: "resetClock" });
       animationRef.current = requestAnimationFrame(animate);
     } else {
       if (animationRef.current) {
         cancelAnimationFrame(animationRef.current);
       }
+      // The readouts trail the canvas by up to READOUT_INTERVAL; settle them on what's shown
+      setState(displayRef.current.state);
+      setSimTime(displayRef.current.time);
     }
     
     return () => {
@@ -397,33 +640,324 @@ export default function DoublePendulum() {
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [isPlaying, animate]);
+  }, [isPlaying, animate, postToWorker]);
   
-  const handlePlay = () => setIsPlaying(!isPlaying);
+  // Playing from an earlier moment replays the recording, like a video, rather than
+  // recomputing it; running past its end carries on simulating
+  const handlePlay = () => {
+    if (isPlaying) {
+      // Hand the worker the replayed moment, so stepping or editing continues from what is shown
+      if (replayRef.current !== null) seek(replayRef.current);
+      setIsPlaying(false);
+      return;
+    }
+    const time = physicsRef.current.time;
+    if (viewingPast && !(reverse && time <= recording.start)) replayRef.current = time;
+    setIsPlaying(true);
+  };
+
+  // Start a new run from the moment being viewed, dropping the recording after it
+  const handleBranch = () => {
+    loadState(physicsRef.current.current);
+    setIsPlaying(true);
+  };
+
+  // Advance by one display frame's worth of simulated time, and at least one physics step
+  const handleStep = () => {
+    const steps = Math.max(1, Math.round((FRAME_DURATION * timeScale) / physicsStep));
+    // Let the readouts follow every press rather than waiting out their throttle
+    lastReadoutRef.current = 0;
+    lastPlotUpdateRef.current = 0;
+    postToWorker({ type: "step", steps });
+  };
   
   const handleReset = () => {
     setIsPlaying(false);
-    setState({
-      angle1: Math.PI / 2,
-      angle2: Math.PI / 2,
-      velocity1: 0,
-      velocity2: 0,
+    clearHistory();
+    loadState(resizeChain(DEFAULT_STATE, DEFAULT_CONFIG, config.lengths.length).state, 0);
+  };
+
+  // Swap in a chain of possibly another length, with a hinge friction per link, and start it from `next`
+  const loadChain = (chain: PendulumConfig, next: PendulumState, time?: number) => {
+    setConfig(chain);
+    setDamping(prev => ({ ...prev, joint: resizeJoints(prev.joint, chain.lengths.length) }));
+    clearHistory();
+    loadState(next, time);
+  };
+
+  const handleLinkCountChange = (count: number) => {
+    const resized = resizeChain(physicsRef.current.current, config, count);
+    loadChain(resized.config, resized.state);
+  };
+
+  // Kapitza pendulum: a single inverted link held upright by a fast vertical drive
+  const handleKapitzaDemo = () => {
+    setIsPlaying(false);
+    setDrive({ ...DEFAULT_DRIVE, axis: "vertical", amplitude: 0.2, frequency: 25 });
+    setEnableDrive(true);
+    setIntegratorId("rk4");
+    loadChain({ ...config, lengths: [1.5], masses: [config.masses[0]] }, { angles: [Math.PI - 0.2], velocities: [0] }, 0);
+  };
+
+  // Take over whatever an imported file carries. A trajectory replaces the recording
+  // and is shown from its start, ready to replay.
+  const applyImport = (simulation: ImportedSimulation) => {
+    setIsPlaying(false);
+    const links = simulation.config?.lengths.length ?? config.lengths.length;
+    if (simulation.config) {
+      const { drive: importedDrive, ...chain } = simulation.config;
+      setConfig(chain);
+      if (importedDrive) setDrive(importedDrive);
+      setEnableDrive(importedDrive !== undefined);
+    }
+    if (simulation.damping) {
+      setDamping({ ...simulation.damping, joint: resizeJoints(simulation.damping.joint, links) });
+    } else {
+      setDamping(prev => ({ ...prev, joint: resizeJoints(prev.joint, links) }));
+    }
+    if (simulation.damping !== undefined) setEnableDamping(simulation.damping !== null);
+
+    if (simulation.trajectory) {
+      clearHistory();
+      simulation.trajectory.forEach(sample => recorder.record(sample.time, packState(sample)));
+      syncRecording();
+      seek(recorder.startTime);
+    } else if (simulation.state) {
+      clearHistory();
+      loadState(simulation.state, 0);
+    } else if (links !== config.lengths.length) {
+      clearHistory();
+      loadState(resizeChain(physicsRef.current.current, config, links).state);
+    }
+  };
+
+  // Every setting that shapes the run or the view
+  const setupSettings = useMemo<SetupSettings>(
+    () => ({
+      physics: { config: physicsConfig, damping, dampingEnabled: enableDamping },
+      solver: { integrator: integratorId, tolerance, step: physicsStep },
+      view: { showTrails, showEnergy, timeScale, reverse, camera: cameraView },
+    }),
+    [physicsConfig, damping, enableDamping, integratorId, tolerance, physicsStep, showTrails, showEnergy, timeScale, reverse, cameraView],
+  );
+  // What a saved preset holds: the settings and the state on the canvas right now
+  const currentSetup = useCallback(() => withMotion(setupSettings, displayRef.current), [setupSettings]);
+  // The same from the readouts, which only hold still once the run pauses
+  const shownSetup = useMemo(
+    () => withMotion(setupSettings, { state, time: simTime }),
+    [setupSettings, state, simTime],
+  );
+
+  const applySetup = useCallback(({ physics, solver, view }: PresetSetup) => {
+    setIsPlaying(false);
+    const { drive: savedDrive, ...chain } = physics.config;
+    setConfig(chain);
+    if (savedDrive) setDrive(savedDrive);
+    setEnableDrive(savedDrive !== undefined);
+    setDamping({ ...physics.damping, joint: resizeJoints(physics.damping.joint, chain.lengths.length) });
+    setEnableDamping(physics.dampingEnabled);
+    setIntegratorId(solver.integrator);
+    setTolerance(solver.tolerance);
+    setPhysicsStep(solver.step);
+    setShowTrails(view.showTrails);
+    setShowEnergy(view.showEnergy);
+    setTimeScale(view.timeScale);
+    setReverse(view.reverse);
+    setCameraView(view.camera);
+    clearHistory();
+    loadState(physics.state, physics.time);
+  }, [clearHistory, loadState]);
+
+  // Each preset handed in is applied once; `applySetup` changing alone mustn't reset the run
+  const appliedPresetRef = useRef<PresetSetup | undefined>(undefined);
+  useEffect(() => {
+    if (!preset || appliedPresetRef.current === preset) return;
+    appliedPresetRef.current = preset;
+    applySetup(preset);
+  }, [preset, applySetup]);
+
+  // While playing the readouts change faster than the delay, so reports wait for a pause
+  useEffect(() => {
+    if (!onSetupChange) return;
+    const timer = setTimeout(() => onSetupChange(shownSetup), SETUP_REPORT_DELAY);
+    return () => clearTimeout(timer);
+  }, [onSetupChange, shownSetup]);
+
+  const importFile = async (file: File) => {
+    let text: string;
+    try {
+      text = await file.text();
+    } catch {
+      toast.error(`Couldn't read ${file.name}`);
+      return;
+    }
+    const result = parseSimulationFile(file.name, text, config.lengths.length);
+    if (!result.ok) {
+      toast.error(`Couldn't import ${file.name}`, {
+        description: (
+          <ul className="list-disc pl-4">
+            {result.errors.map((error, i) => (
+              <li key={i}>{error}</li>
+            ))}
+          </ul>
+        ),
+      });
+      return;
+    }
+    applyImport(result.simulation);
+    const { trajectory } = result.simulation;
+    const loaded = (["config", "state", "damping"] as const).filter(key => result.simulation[key] !== undefined);
+    toast.success(`Imported ${file.name}`, {
+      description: trajectory
+        ? `${trajectory.length.toLocaleString()} recorded samples; press Play to replay them`
+        : `Loaded the ${loaded.join(", ")}`,
     });
-    setTrails([]);
-    setEnergyHistory([]);
-    setTrails1([]);
+  };
+
+  const saveVideo = (blob: Blob) => {
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    downloadBlob(blob, `pendulum-${stamp}.webm`);
+    toast.success(`Saved a ${(blob.size / 1e6).toFixed(1)} MB video`);
+  };
+
+  // Live videos take every frame the canvas gets while playing; exact ones are
+  // simulated and rendered frame by frame from the current state
+  const handleRecord = async (settings: VideoSettings) => {
+    setVideoOpen(false);
+    setVideoJob({ mode: settings.mode, progress: 0 });
+    try {
+      if (settings.mode === "live") {
+        const live = startLiveVideo(settings);
+        const screen = rendererRef.current;
+        rendererRef.current = screen ? combineRenderers(live.renderer, screen) : live.renderer;
+        live.renderer.setScene(scene);
+        redraw();
+        stopVideoRef.current = live.stop;
+        const started = performance.now();
+        const timer = setInterval(() => {
+          const progress = (performance.now() - started) / 1000 / settings.duration;
+          setVideoJob({ mode: "live", progress: Math.min(1, progress) });
+        }, 250);
+        setIsPlaying(true);
+        try {
+          saveVideo(await live.done);
+        } finally {
+          clearInterval(timer);
+          rendererRef.current = screen;
+        }
+      } else {
+        const controller = new AbortController();
+        stopVideoRef.current = () => controller.abort();
+        setIsPlaying(false);
+        const blob = await renderExactVideo({
+          settings,
+          scene,
+          state: physicsRef.current.current,
+          time: physicsRef.current.time,
+          physics: {
+            config: physicsConfig,
+            damping: activeDamping,
+            integrator: integratorId,
+            tolerance,
+            step: physicsStep,
+          },
+          timeScale,
+          reverse,
+          onProgress: (progress) => setVideoJob({ mode: "exact", progress }),
+          signal: controller.signal,
+        });
+        if (blob) saveVideo(blob);
+        else toast("Video rendering cancelled");
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Recording failed");
+    } finally {
+      stopVideoRef.current = null;
+      setVideoJob(null);
+    }
+  };
+
+  // Don't leave a recording running behind an unmounted page
+  useEffect(() => () => stopVideoRef.current?.(), []);
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "copy";
+    setDropActive(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    // Moving onto a child of the drop zone isn't leaving it
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropActive(false);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDropActive(false);
+    const file = e.dataTransfer.files[0];
+    if (file) void importFile(file);
+  };
+
+  const toggleDampingModel = (model: DampingModel, active: boolean) => {
+    setDamping(prev => ({
+      ...prev,
+      models: active ? [...prev.models, model] : prev.models.filter(m => m !== model),
+    }));
+  };
+
+  const updateLink = (key: "lengths" | "masses", index: number, value: number) => {
+    setConfig(prev => ({
+      ...prev,
+      [key]: prev[key].map((current, i) => (i === index ? value : current)),
+    }));
   };
   
   const handleRandomize = () => {
     const randomOffset = () => (Math.random() - 0.5) * 0.1; // Small random offset
-    setState(prevState => ({
-      ...prevState,
-      angle1: prevState.angle1 + randomOffset(),
-      angle2: prevState.angle2 + randomOffset(),
-    }));
+    const current = physicsRef.current.current;
+    loadState({
+      ...current,
+      angles: current.angles.map(angle => angle + randomOffset()),
+    });
   };
   
-  const currentEnergy = calculateEnergy(state);
+  // Spread copies of the current state by ±epsilon and run them alongside it
+  const handleLaunchEnsemble = () => {
+    postToWorker({ type: "startEnsemble", count: ensembleSize, epsilon: ensembleEpsilon });
+    // While paused, ask for a frame straight away so the ensemble shows up
+    if (!isPlaying) postToWorker({ type: "advance", elapsed: 0 });
+    divergenceRef.current = [];
+    setDivergenceSamples([]);
+    setEnsembleActive(true);
+  };
+
+  const handleStopEnsemble = () => {
+    postToWorker({ type: "stopEnsemble" });
+    redraw();
+    setEnsembleActive(false);
+  };
+
+  // How the recording is being produced, written into every export
+  const exportMetadata = useMemo(
+    () => ({
+      config: physicsConfig,
+      damping: activeDamping ?? null,
+      integrator: integratorId,
+      tolerance: integratorInfo?.adaptive ? tolerance : null,
+      dt: physicsStep,
+      sampleInterval: 1 / PLOT_SAMPLE_RATE,
+    }),
+    [physicsConfig, activeDamping, integratorId, integratorInfo, tolerance, physicsStep],
+  );
+
+  // Paused somewhere before the end of the recording, e.g. after scrubbing back
+  const viewingPast = !isPlaying && recording.length > 1 && simTime < recording.end - 1e-6;
+
+  const currentEnergy = calculateEnergy(state, simTime);
+  const dissipation = activeDamping
+    ? getDissipation(state, physicsConfig, activeDamping, simTime)
+    : null;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-[#0a0a0a] to-[#111111] text-white p-4">
@@ -439,19 +973,41 @@ export default function DoublePendulum() {
           <p className="text-gray-400 text-lg">
             Explore the beautiful complexity of chaotic motion
           </p>
+          <div className="flex flex-wrap justify-center">
+            <Button
+              onClick={() => navigate("/fractal")}
+              variant="link"
+              className="text-[#0088ff] cursor-pointer"
+            >
+              Explore the flip-time fractal
+              <ArrowRight className="w-4 h-4" />
+            </Button>
+            <Button
+              onClick={() => navigate("/gallery")}
+              variant="link"
+              className="text-[#0088ff] cursor-pointer"
+            >
+              Browse the preset gallery
+              <ArrowRight className="w-4 h-4" />
+            </Button>
+          </div>
         </motion.div>
         
         <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
           {/* Main Canvas */}
-          <div className="lg:col-span-3">
+          <div className="lg:col-span-3 space-y-6">
             <Card className="bg-[#111111] border-gray-800">
               <CardContent className="p-6">
-                <div className="relative">
+                <div
+                  className="relative overflow-hidden border border-gray-700 rounded-lg bg-[#0a0a0a]"
+                  onDragOver={handleDragOver}
+                  onDragLeave={handleDragLeave}
+                  onDrop={handleDrop}
+                >
+                  {/* Sized by the layout; the renderer matches its backing store to the device pixel ratio */}
                   <canvas
                     ref={canvasRef}
-                    width={800}
-                    height={600}
-                    className="w-full h-auto border border-gray-700 rounded-lg bg-[#0a0a0a]"
+                    className="block w-full aspect-[4/3] touch-none cursor-grab active:cursor-grabbing"
                     onPointerDown={handlePointerDown}
                     onPointerMove={handlePointerMove}
                     onPointerUp={handlePointerUp}
@@ -485,28 +1041,250 @@ export default function DoublePendulum() {
                     </Button>
                   </div>
                   
+                  {/* View Controls */}
+                  <div className="absolute bottom-4 right-4 flex gap-2">
+                    <Button
+                      onClick={() => zoomBy(ZOOM_STEP)}
+                      size="sm"
+                      variant="outline"
+                      className="border-gray-600 hover:bg-gray-800 cursor-pointer"
+                    >
+                      <ZoomIn className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      onClick={() => zoomBy(1 / ZOOM_STEP)}
+                      size="sm"
+                      variant="outline"
+                      className="border-gray-600 hover:bg-gray-800 cursor-pointer"
+                    >
+                      <ZoomOut className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      onClick={() => setCameraView(DEFAULT_CAMERA_VIEW)}
+                      size="sm"
+                      variant="outline"
+                      className="border-gray-600 hover:bg-gray-800 cursor-pointer"
+                    >
+                      <Maximize2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+
                   {/* Energy Display */}
                   {showEnergy && (
                     <div className="absolute top-4 right-4 bg-black/50 backdrop-blur-sm rounded-lg p-3 border border-gray-700">
                       <div className="text-sm">
                         <div className="text-[#00ff88]">Energy: {currentEnergy.toFixed(2)} J</div>
+                        <div className="text-[#ff0080]">λ_max: {lyapunov.exponent.toFixed(3)} s⁻¹</div>
                         <div className="text-gray-400 text-xs mt-1">
                           {enableDamping
                             ? "Dissipative (energy loss enabled)"
-                            : energyHistory.length > 10
-                              ? ((1 - Math.abs(currentEnergy - energyHistory[0]) / Math.abs(energyHistory[0])) * 100).toFixed(1) + "%"
-                              : "N/A"}
+                            : enableDrive
+                              ? "Driven (energy not conserved)"
+                              : energyHistory.length > 10
+                                ? ((1 - Math.abs(currentEnergy - energyHistory[0]) / Math.abs(energyHistory[0])) * 100).toFixed(1) + "%"
+                                : "N/A"}
                         </div>
+                        {dissipation && (
+                          <div className="text-xs mt-2 space-y-0.5">
+                            {DAMPING_MODELS.filter(model => damping.models.includes(model.id)).map(model => (
+                              <div key={model.id} className="flex justify-between gap-3 text-gray-300">
+                                <span>{model.label}</span>
+                                <span className="text-[#ff0080]">−{dissipation[model.id].toFixed(2)} W</span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Drop Zone */}
+                  {dropActive && (
+                    <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed border-[#00ff88] bg-black/70 pointer-events-none">
+                      <Upload className="w-8 h-8 text-[#00ff88]" />
+                      <p className="text-sm text-gray-200">Drop a JSON or CSV file to load it</p>
+                      <p className="text-xs text-gray-400">Configuration, initial state, damping or a recorded trajectory</p>
+                    </div>
+                  )}
+                </div>
+
+                {/* Timeline */}
+                <div className="mt-4">
+                  <div className="flex justify-between text-xs text-gray-400 mb-2">
+                    <span>Recorded {recording.start.toFixed(2)} – {recording.end.toFixed(2)} s</span>
+                    <span>{simTime.toFixed(2)} s</span>
+                  </div>
+                  <Slider
+                    value={[Math.min(Math.max(simTime, recording.start), recording.end)]}
+                    onValueChange={([value]) => seek(value)}
+                    min={recording.start}
+                    max={recording.end}
+                    step={1 / PLOT_SAMPLE_RATE}
+                    disabled={recording.length < 2}
+                  />
+                  {viewingPast && (
+                    <div className="flex items-center justify-between gap-3 mt-2">
+                      <p className="text-xs text-gray-500">
+                        Viewing an earlier moment. Play replays the recording from here; branching,
+                        stepping or dragging starts a new run and discards what was recorded after it.
+                      </p>
+                      <div className="flex gap-2">
+                        <Button
+                          onClick={handleBranch}
+                          size="sm"
+                          variant="outline"
+                          className="border-gray-600 hover:bg-gray-800 cursor-pointer"
+                        >
+                          <GitBranch className="w-4 h-4" />
+                          Branch
+                        </Button>
+                        <Button
+                          onClick={() => seek(recording.end)}
+                          size="sm"
+                          variant="outline"
+                          className="border-gray-600 hover:bg-gray-800 cursor-pointer"
+                        >
+                          <SkipForward className="w-4 h-4" />
+                          Latest
+                        </Button>
                       </div>
                     </div>
                   )}
                 </div>
+
+                {/* Transport */}
+                <div className="flex flex-wrap items-center gap-3 mt-4">
+                  <Button
+                    onClick={handleStep}
+                    disabled={isPlaying}
+                    size="sm"
+                    variant="outline"
+                    className="border-gray-600 hover:bg-gray-800 cursor-pointer"
+                  >
+                    <StepForward className="w-4 h-4" />
+                    Step
+                  </Button>
+                  <Button
+                    onClick={() => setReverse(!reverse)}
+                    size="sm"
+                    variant="outline"
+                    className={`cursor-pointer ${reverse ? "border-[#0088ff] text-[#0088ff] bg-[#0088ff]/10 hover:bg-[#0088ff]/20" : "border-gray-600 hover:bg-gray-800"}`}
+                  >
+                    <Rewind className="w-4 h-4" />
+                    Reverse
+                  </Button>
+                  <Button
+                    onClick={() => setExportOpen(true)}
+                    disabled={recording.length === 0}
+                    size="sm"
+                    variant="outline"
+                    className="border-gray-600 hover:bg-gray-800 cursor-pointer"
+                  >
+                    <Download className="w-4 h-4" />
+                    Export
+                  </Button>
+                  <Button
+                    onClick={() => fileInputRef.current?.click()}
+                    size="sm"
+                    variant="outline"
+                    className="border-gray-600 hover:bg-gray-800 cursor-pointer"
+                  >
+                    <Upload className="w-4 h-4" />
+                    Import
+                  </Button>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".json,.csv,application/json,text/csv"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      // Clear it so picking the same file again still fires
+                      e.target.value = "";
+                      if (file) void importFile(file);
+                    }}
+                  />
+                  <Button
+                    onClick={() => setAnimationOpen(true)}
+                    disabled={recording.length < 2}
+                    size="sm"
+                    variant="outline"
+                    className="border-gray-600 hover:bg-gray-800 cursor-pointer"
+                  >
+                    <Film className="w-4 h-4" />
+                    GIF / PNG
+                  </Button>
+                  {videoJob ? (
+                    <Button
+                      onClick={() => stopVideoRef.current?.()}
+                      size="sm"
+                      variant="outline"
+                      className="border-[#ff0080] text-[#ff0080] hover:bg-[#ff0080]/10 cursor-pointer"
+                    >
+                      {videoJob.mode === "live" ? <Square className="w-4 h-4" /> : <Loader2 className="w-4 h-4 animate-spin" />}
+                      {videoJob.mode === "live" ? "Stop" : "Cancel"} · {Math.round(videoJob.progress * 100)}%
+                    </Button>
+                  ) : (
+                    <Button
+                      onClick={() => setVideoOpen(true)}
+                      size="sm"
+                      variant="outline"
+                      className="border-gray-600 hover:bg-gray-800 cursor-pointer"
+                    >
+                      <Video className="w-4 h-4" />
+                      Record
+                    </Button>
+                  )}
+                  <div className="flex items-center gap-3 flex-1 min-w-48">
+                    <Label className="text-sm text-gray-300 whitespace-nowrap w-24">
+                      Speed: {+timeScale.toPrecision(2)}×
+                    </Label>
+                    <Slider
+                      value={[Math.log10(timeScale)]}
+                      onValueChange={([value]) => setTimeScale(+(10 ** value).toPrecision(2))}
+                      min={Math.log10(MIN_TIME_SCALE)}
+                      max={Math.log10(MAX_TIME_SCALE)}
+                      step={0.05}
+                      className="flex-1"
+                    />
+                    <Button
+                      onClick={() => setTimeScale(1)}
+                      size="sm"
+                      variant="ghost"
+                      className="text-gray-400 hover:text-white cursor-pointer"
+                    >
+                      1×
+                    </Button>
+                  </div>
+                </div>
+                {reverse && integratorInfo && !integratorInfo.reversible && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    {integratorInfo.label} only approximately retraces its path backwards and chaos
+                    magnifies the difference; the leapfrog integrator is time-reversible.
+                  </p>
+                )}
               </CardContent>
             </Card>
+
+            <PhasePlots samples={plotSamples} linkCount={config.lengths.length} />
+
+            <PoincarePanel config={config} state={state} integratorId={integratorId} />
           </div>
           
           {/* Controls Panel */}
           <div className="space-y-6">
+            <Card className="bg-[#111111] border-gray-800">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-[#00ff88]">
+                  <Save className="w-5 h-5" />
+                  Presets
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <PresetPanel getSetup={currentSetup} onLoad={applySetup} opened={presetSource} />
+              </CardContent>
+            </Card>
+
             <Card className="bg-[#111111] border-gray-800">
               <CardHeader>
                 <CardTitle className="flex items-center gap-2 text-[#00ff88]">
@@ -516,60 +1294,114 @@ export default function DoublePendulum() {
               </CardHeader>
               <CardContent className="space-y-4">
                 <div>
-                  <Label className="text-sm text-gray-300">Length 1: {config.length1}px</Label>
-                  <Slider
-                    value={[config.length1]}
-                    onValueChange={([value]) => setConfig(prev => ({ ...prev, length1: value }))}
-                    min={50}
-                    max={250}
-                    step={10}
-                    className="mt-2"
-                  />
+                  <Label className="text-sm text-gray-300">Integrator</Label>
+                  <Select
+                    value={integratorId}
+                    onValueChange={(value) => {
+                      setIntegratorId(value as IntegratorId);
+                      // Restart the energy baseline so the drift readout reflects the new scheme
+                      clearEnergyHistory();
+                    }}
+                  >
+                    <SelectTrigger className="mt-2 w-full border-gray-700">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {INTEGRATORS.map((info) => (
+                        <SelectItem key={info.id} value={info.id}>
+                          {info.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {integratorInfo && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      {integratorInfo.description}
+                      {integratorInfo.symplectic ? " · symplectic" : ""}
+                      {integratorInfo.reversible ? " · time-reversible" : ""}
+                    </p>
+                  )}
                 </div>
-                
+
+                {integratorInfo?.adaptive && (
+                  <div>
+                    <Label className="text-sm text-gray-300">
+                      Tolerance: {tolerance.toExponential(0)}
+                    </Label>
+                    <Slider
+                      value={[Math.log10(tolerance)]}
+                      onValueChange={([value]) => setTolerance(Math.pow(10, value))}
+                      min={Math.log10(LIMITS.tolerance.min)}
+                      max={Math.log10(LIMITS.tolerance.max)}
+                      step={1}
+                      className="mt-2"
+                    />
+                  </div>
+                )}
+
                 <div>
-                  <Label className="text-sm text-gray-300">Length 2: {config.length2}px</Label>
+                  <Label className="text-sm text-gray-300">
+                    Physics Step: {(physicsStep * 1000).toFixed(1)} ms
+                  </Label>
                   <Slider
-                    value={[config.length2]}
-                    onValueChange={([value]) => setConfig(prev => ({ ...prev, length2: value }))}
-                    min={50}
-                    max={250}
-                    step={10}
+                    value={[physicsStep * 1000]}
+                    onValueChange={([value]) => setPhysicsStep(value / 1000)}
+                    min={LIMITS.physicsStep.min * 1000}
+                    max={LIMITS.physicsStep.max * 1000}
+                    step={0.5}
                     className="mt-2"
                   />
                 </div>
-                
+
+                <Separator className="bg-gray-700" />
+
                 <div>
-                  <Label className="text-sm text-gray-300">Mass 1: {config.mass1}kg</Label>
+                  <Label className="text-sm text-gray-300">Links: {config.lengths.length}</Label>
                   <Slider
-                    value={[config.mass1]}
-                    onValueChange={([value]) => setConfig(prev => ({ ...prev, mass1: value }))}
-                    min={1}
-                    max={50}
+                    value={[config.lengths.length]}
+                    onValueChange={([value]) => handleLinkCountChange(value)}
+                    min={MIN_LINKS}
+                    max={MAX_LINKS}
                     step={1}
                     className="mt-2"
                   />
                 </div>
+
+                {config.lengths.map((length, i) => (
+                  <div key={`length-${i}`}>
+                    <Label className="text-sm text-gray-300">Length {i + 1}: {length.toFixed(1)} m</Label>
+                    <Slider
+                      value={[length]}
+                      onValueChange={([value]) => updateLink("lengths", i, value)}
+                      min={LIMITS.length.min}
+                      max={LIMITS.length.max}
+                      step={0.1}
+                      className="mt-2"
+                    />
+                  </div>
+                ))}
                 
-                <div>
-                  <Label className="text-sm text-gray-300">Mass 2: {config.mass2}kg</Label>
-                  <Slider
-                    value={[config.mass2]}
-                    onValueChange={([value]) => setConfig(prev => ({ ...prev, mass2: value }))}
-                    min={1}
-                    max={50}
-                    step={1}
-                    className="mt-2"
-                  />
-                </div>
+                {config.masses.map((mass, i) => (
+                  <div key={`mass-${i}`}>
+                    <Label className="text-sm text-gray-300">Mass {i + 1}: {mass}kg</Label>
+                    <Slider
+                      value={[mass]}
+                      onValueChange={([value]) => updateLink("masses", i, value)}
+                      min={LIMITS.mass.min}
+                      max={LIMITS.mass.max}
+                      step={1}
+                      className="mt-2"
+                    />
+                  </div>
+                ))}
                 
                 <div>
                   <Label className="text-sm text-gray-300">Gravity: {config.gravity.toFixed(1)} m/s²</Label>
                   <Slider
                     value={[config.gravity]}
                     onValueChange={([value]) => setConfig(prev => ({ ...prev, gravity: value }))}
-                    min={1}
-                    max={20}
+                    min={LIMITS.gravity.min}
+                    max={LIMITS.gravity.max}
                     step={0.1}
                     className="mt-2"
                   />
@@ -585,23 +1417,194 @@ export default function DoublePendulum() {
                 </div>
 
                 {enableDamping && (
-                  <div>
-                    <Label className="text-sm text-gray-300">
-                      Damping: {damping.toFixed(2)} s⁻¹
-                    </Label>
-                    <Slider
-                      value={[damping]}
-                      onValueChange={([value]) => setDamping(value)}
-                      min={0.01}
-                      max={1}
-                      step={0.01}
-                      className="mt-2"
-                    />
+                  <div className="space-y-4">
+                    {DAMPING_MODELS.map(model => (
+                      <div key={model.id} className="flex items-center justify-between">
+                        <div>
+                          <Label className="text-sm text-gray-300">{model.label}</Label>
+                          <p className="text-xs text-gray-500">{model.description}</p>
+                        </div>
+                        <Switch
+                          checked={damping.models.includes(model.id)}
+                          onCheckedChange={(checked) => toggleDampingModel(model.id, checked)}
+                        />
+                      </div>
+                    ))}
+
+                    {damping.models.includes("viscous") && (
+                      <div>
+                        <Label className="text-sm text-gray-300">
+                          Viscous b: {damping.viscous.toFixed(2)} N·s/m
+                        </Label>
+                        <Slider
+                          value={[damping.viscous]}
+                          onValueChange={([value]) => setDamping(prev => ({ ...prev, viscous: value }))}
+                          min={LIMITS.viscous.min}
+                          max={LIMITS.viscous.max}
+                          step={0.05}
+                          className="mt-2"
+                        />
+                      </div>
+                    )}
+
+                    {damping.models.includes("quadratic") && (
+                      <div>
+                        <Label className="text-sm text-gray-300">
+                          Air Drag c: {damping.quadratic.toFixed(2)} N·s²/m²
+                        </Label>
+                        <Slider
+                          value={[damping.quadratic]}
+                          onValueChange={([value]) => setDamping(prev => ({ ...prev, quadratic: value }))}
+                          min={LIMITS.quadratic.min}
+                          max={LIMITS.quadratic.max}
+                          step={0.01}
+                          className="mt-2"
+                        />
+                      </div>
+                    )}
+
+                    {damping.models.includes("joint") &&
+                      config.lengths.map((_, hinge) => (
+                        <div key={`joint-${hinge}`}>
+                          <Label className="text-sm text-gray-300">
+                            Hinge {hinge + 1} μ: {(damping.joint[hinge] ?? 0).toFixed(2)} N·m·s
+                          </Label>
+                          <Slider
+                            value={[damping.joint[hinge] ?? 0]}
+                            onValueChange={([value]) =>
+                              setDamping(prev => ({
+                                ...prev,
+                                joint: prev.joint.map((current, i) => (i === hinge ? value : current)),
+                              }))
+                            }
+                            min={LIMITS.joint.min}
+                            max={LIMITS.joint.max}
+                            step={0.05}
+                            className="mt-2"
+                          />
+                        </div>
+                      ))}
+
+                    {damping.models.includes("coulomb") && (
+                      <div>
+                        <Label className="text-sm text-gray-300">
+                          Coulomb τc: {damping.coulomb.toFixed(1)} N·m
+                        </Label>
+                        <Slider
+                          value={[damping.coulomb]}
+                          onValueChange={([value]) => setDamping(prev => ({ ...prev, coulomb: value }))}
+                          min={LIMITS.coulomb.min}
+                          max={LIMITS.coulomb.max}
+                          step={0.1}
+                          className="mt-2"
+                        />
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                <div className="flex items-center justify-between">
+                  <Label className="text-sm text-gray-300">Driven Pivot</Label>
+                  <Switch
+                    checked={enableDrive}
+                    onCheckedChange={setEnableDrive}
+                  />
+                </div>
+
+                {enableDrive && (
+                  <div className="space-y-4">
+                    <div>
+                      <Label className="text-sm text-gray-300">Drive Axis</Label>
+                      <Select
+                        value={drive.axis}
+                        onValueChange={(value) => setDrive(prev => ({ ...prev, axis: value as DriveAxis }))}
+                      >
+                        <SelectTrigger className="mt-2 w-full border-gray-700">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="vertical">Vertical</SelectItem>
+                          <SelectItem value="horizontal">Horizontal</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div>
+                      <Label className="text-sm text-gray-300">Amplitude: {Math.round(drive.amplitude * 100)} cm</Label>
+                      <Slider
+                        value={[drive.amplitude]}
+                        onValueChange={([value]) => setDrive(prev => ({ ...prev, amplitude: value }))}
+                        min={LIMITS.driveAmplitude.min}
+                        max={LIMITS.driveAmplitude.max}
+                        step={0.01}
+                        className="mt-2"
+                      />
+                    </div>
+
+                    <div>
+                      <Label className="text-sm text-gray-300">Frequency: {drive.frequency.toFixed(1)} Hz</Label>
+                      <Slider
+                        value={[drive.frequency]}
+                        onValueChange={([value]) => setDrive(prev => ({ ...prev, frequency: value }))}
+                        min={LIMITS.driveFrequency.min}
+                        max={LIMITS.driveFrequency.max}
+                        step={0.1}
+                        className="mt-2"
+                      />
+                    </div>
+
+                    <div>
+                      <Label className="text-sm text-gray-300">Torque on Link 1: {drive.torque.toFixed(1)} N·m</Label>
+                      <Slider
+                        value={[drive.torque]}
+                        onValueChange={([value]) => setDrive(prev => ({ ...prev, torque: value }))}
+                        min={LIMITS.driveTorque.min}
+                        max={LIMITS.driveTorque.max}
+                        step={0.5}
+                        className="mt-2"
+                      />
+                    </div>
+
+                    {drive.torque > 0 && (
+                      <div>
+                        <Label className="text-sm text-gray-300">
+                          Torque Frequency: {drive.torqueFrequency.toFixed(2)} Hz
+                        </Label>
+                        <Slider
+                          value={[drive.torqueFrequency]}
+                          onValueChange={([value]) => setDrive(prev => ({ ...prev, torqueFrequency: value }))}
+                          min={LIMITS.torqueFrequency.min}
+                          max={LIMITS.torqueFrequency.max}
+                          step={0.05}
+                          className="mt-2"
+                        />
+                      </div>
+                    )}
                   </div>
                 )}
+
+                <Button
+                  onClick={handleKapitzaDemo}
+                  size="sm"
+                  variant="outline"
+                  className="w-full border-gray-600 hover:bg-gray-800 cursor-pointer"
+                >
+                  Kapitza Inverted Pendulum Demo
+                </Button>
               </CardContent>
             </Card>
 
+            <EnsemblePanel
+              size={ensembleSize}
+              epsilon={ensembleEpsilon}
+              active={ensembleActive}
+              samples={divergenceSamples}
+              onSizeChange={setEnsembleSize}
+              onEpsilonChange={setEnsembleEpsilon}
+              onLaunch={handleLaunchEnsemble}
+              onStop={handleStopEnsemble}
+            />
+
             {/* Energy Graph moved above Visualization */}
             {showEnergy && (
               <Card className="bg-[#111111] border-gray-800">
@@ -672,6 +1675,13 @@ export default function DoublePendulum() {
               </Card>
             )}
 
+            <LyapunovChart
+              history={lyapunov.history}
+              exponent={lyapunov.exponent}
+              progress={lyapunov.progress}
+              running={lyapunov.running}
+            />
+
             <Card className="bg-[#111111] border-gray-800">
               <CardHeader>
                 <CardTitle className="text-[#0088ff]">Visualization</CardTitle>
@@ -696,14 +1706,12 @@ export default function DoublePendulum() {
                 <Separator className="bg-gray-700" />
                 
                 <div className="space-y-2">
-                  <div className="flex items-center gap-2">
-                    <div className="w-3 h-3 rounded-full bg-[#0088ff]"></div>
-                    <span className="text-xs text-gray-400">Mass 1 & Trail</span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <div className="w-3 h-3 rounded-full bg-[#00ff88]"></div>
-                    <span className="text-xs text-gray-400">Mass 2 & Trail</span>
-                  </div>
+                  {config.masses.map((_, bob) => (
+                    <div key={bob} className="flex items-center gap-2">
+                      <div className="w-3 h-3 rounded-full" style={{ backgroundColor: bobColor(bob) }}></div>
+                      <span className="text-xs text-gray-400">Mass {bob + 1} & Trail</span>
+                    </div>
+                  ))}
                   <div className="flex items-center gap-2">
                     <div className="w-3 h-3 rounded-full bg-[#ff0080]"></div>
                     <span className="text-xs text-gray-400">Pivot Point</span>
@@ -711,9 +1719,46 @@ export default function DoublePendulum() {
                 </div>
               </CardContent>
             </Card>
+
+            <Card className="bg-[#111111] border-gray-800">
+              <CardHeader>
+                <CardTitle className="text-[#0088ff]">Animation Export</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <AnimationSettings value={animationPreferences} onChange={setAnimationPreferences} />
+              </CardContent>
+            </Card>
           </div>
         </div>
       </div>
+
+      <ExportDialog
+        open={exportOpen}
+        onOpenChange={setExportOpen}
+        recorder={recorder}
+        metadata={exportMetadata}
+      />
+
+      <VideoDialog
+        open={videoOpen}
+        onOpenChange={setVideoOpen}
+        canvasSize={{
+          width: canvasSize.width * canvasSize.pixelRatio,
+          height: canvasSize.height * canvasSize.pixelRatio,
+        }}
+        timeScale={timeScale}
+        onRecord={handleRecord}
+      />
+
+      <AnimationDialog
+        open={animationOpen}
+        onOpenChange={setAnimationOpen}
+        recorder={recorder}
+        recording={recording}
+        sampleInterval={1 / PLOT_SAMPLE_RATE}
+        scene={scene}
+        preferences={animationPreferences}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,124 @@
+import { Play, Square } from "lucide-react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, type ChartConfig } from "@/components/ui/chart";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { MAX_ENSEMBLE, MIN_ENSEMBLE } from "@/lib/physics/ensemble";
+
+export interface DivergenceSample {
+  time: number;
+  divergence: number;
+}
+
+const chartConfig = {
+  divergence: { label: "Spread", color: "#ff0080" },
+} satisfies ChartConfig;
+
+const timeFormatter = (value: number) => value.toFixed(1);
+const spreadFormatter = (value: number) => value.toExponential(0);
+
+interface EnsemblePanelProps {
+  size: number;
+  epsilon: number;
+  active: boolean;
+  samples: DivergenceSample[];
+  onSizeChange: (size: number) => void;
+  onEpsilonChange: (epsilon: number) => void;
+  onLaunch: () => void;
+  onStop: () => void;
+}
+
+export function EnsemblePanel({
+  size,
+  epsilon,
+  active,
+  samples,
+  onSizeChange,
+  onEpsilonChange,
+  onLaunch,
+  onStop,
+}: EnsemblePanelProps) {
+  return (
+    <Card className="bg-[#111111] border-gray-800">
+      <CardHeader>
+        <CardTitle className="text-[#ff0080]">Butterfly Effect</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label className="text-sm text-gray-300">Pendulums: {size}</Label>
+          <Slider
+            value={[size]}
+            onValueChange={([value]) => onSizeChange(value)}
+            min={MIN_ENSEMBLE}
+            max={MAX_ENSEMBLE}
+            step={1}
+            disabled={active}
+            className="mt-2"
+          />
+        </div>
+
+        <div>
+          <Label className="text-sm text-gray-300">Angle Spread ε: ±{epsilon.toExponential(0)} rad</Label>
+          <Slider
+            value={[Math.log10(epsilon)]}
+            onValueChange={([value]) => onEpsilonChange(Math.pow(10, value))}
+            min={-9}
+            max={-1}
+            step={1}
+            disabled={active}
+            className="mt-2"
+          />
+        </div>
+
+        {active ? (
+          <Button
+            onClick={onStop}
+            size="sm"
+            variant="outline"
+            className="w-full border-gray-600 hover:bg-gray-800 cursor-pointer"
+          >
+            <Square className="w-4 h-4" />
+            Stop Ensemble
+          </Button>
+        ) : (
+          <Button
+            onClick={onLaunch}
+            size="sm"
+            className="w-full bg-[#ff0080] hover:bg-[#ff0080]/80 text-white cursor-pointer"
+          >
+            <Play className="w-4 h-4" />
+            Launch Ensemble
+          </Button>
+        )}
+
+        {samples.length >= 2 && (
+          <div>
+            <div className="text-xs text-gray-400 mb-1">Angular spread (rad, log scale)</div>
+            <ChartContainer config={chartConfig} className="h-32 w-full aspect-auto">
+              <LineChart data={samples} margin={{ top: 8, right: 8, bottom: 0, left: -8 }}>
+                <CartesianGrid strokeOpacity={0.15} />
+                <XAxis dataKey="time" type="number" domain={["dataMin", "dataMax"]} tickFormatter={timeFormatter} />
+                <YAxis
+                  type="number"
+                  scale="log"
+                  domain={["auto", "auto"]}
+                  allowDataOverflow
+                  tickFormatter={spreadFormatter}
+                />
+                <Line
+                  dataKey="divergence"
+                  stroke="var(--color-divergence)"
+                  strokeWidth={1.5}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </LineChart>
+            </ChartContainer>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
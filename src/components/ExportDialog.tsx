@@ -0,0 +1,110 @@
+import { Download, Loader2 } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  EXPORT_FORMATS,
+  buildTrajectoryTable,
+  downloadBlob,
+  encodeTrajectory,
+  trajectoryColumns,
+  type ExportFormat,
+  type TrajectoryMetadata,
+} from "@/lib/export/trajectory-export";
+import type { TrajectoryRecorder } from "@/lib/physics/trajectory";
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  recorder: TrajectoryRecorder;
+  metadata: TrajectoryMetadata;
+}
+
+export function ExportDialog({ open, onOpenChange, recorder, metadata }: ExportDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [exporting, setExporting] = useState(false);
+  const { columns } = trajectoryColumns(metadata.config.lengths.length);
+
+  const handleExport = () => {
+    setExporting(true);
+    // Let the spinner paint before the (synchronous) encoding of a long recording
+    setTimeout(() => {
+      try {
+        const samples = recorder.between(recorder.startTime, recorder.endTime);
+        const table = buildTrajectoryTable(
+          samples,
+          (time) => recorder.configAt(time) ?? metadata.config,
+          metadata.config.lengths.length,
+        );
+        const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+        downloadBlob(encodeTrajectory(table, metadata, format), `pendulum-trajectory-${stamp}.${format}`);
+        toast.success(`Exported ${table.rows.toLocaleString()} samples`);
+        onOpenChange(false);
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "Export failed");
+      } finally {
+        setExporting(false);
+      }
+    }, 0);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-[#111111] border-gray-800 text-white">
+        <DialogHeader>
+          <DialogTitle className="text-[#0088ff]">Export Trajectory</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            {recorder.length.toLocaleString()} samples from {recorder.startTime.toFixed(2)} s to{" "}
+            {recorder.endTime.toFixed(2)} s, every {metadata.sampleInterval.toFixed(4)} s of simulated time.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+          {EXPORT_FORMATS.map((option) => (
+            <Label
+              key={option.id}
+              htmlFor={`export-${option.id}`}
+              className="flex items-start gap-3 rounded-lg border border-gray-700 p-3 cursor-pointer hover:bg-gray-800/50"
+            >
+              <RadioGroupItem id={`export-${option.id}`} value={option.id} className="mt-0.5" />
+              <div>
+                <div className="text-sm text-gray-200">{option.label}</div>
+                <div className="text-xs text-gray-500 font-normal">{option.description}</div>
+              </div>
+            </Label>
+          ))}
+        </RadioGroup>
+
+        <div className="text-xs text-gray-400">
+          <div className="mb-1">Columns (SI units):</div>
+          <code className="text-gray-300 break-words">{columns.join(", ")}</code>
+          <p className="mt-2 text-gray-500">
+            Positions are relative to the pivot's rest position with y pointing down. Metadata holds the
+            configuration, damping, integrator and physics step.
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={handleExport}
+            disabled={exporting || recorder.length === 0}
+            className="bg-[#0088ff] hover:bg-[#0088ff]/80 text-white cursor-pointer"
+          >
+            {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
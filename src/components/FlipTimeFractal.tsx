@@ -0,0 +1,317 @@
+import { motion } from "framer-motion";
+import { ArrowLeft, Loader2, RotateCcw, ZoomIn, ZoomOut } from "lucide-react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useNavigate } from "react-router";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { useTimeSlicedTask } from "@/hooks/use-time-sliced-task";
+import { DEFAULT_CONFIG } from "@/lib/physics/engine";
+import {
+  DEFAULT_VIEW,
+  createFlipTimeRender,
+  flipTimeColor,
+  viewAngles,
+  type FractalView,
+} from "@/lib/physics/fractal";
+import type { SimulationSnapshot } from "@/lib/physics/types";
+
+const RESOLUTIONS = [128, 256, 512];
+// Batch steps per call into the render; each one advances up to a few hundred pixels
+const STEPS_PER_CALL = 4;
+// Pointer travel (CSS px) below which a press counts as a click rather than a pan
+const CLICK_TOLERANCE = 4;
+const ZOOM_FACTOR = 1.5;
+
+const formatAngle = (angle: number) => `${angle.toFixed(3)} rad`;
+
+export default function FlipTimeFractal() {
+  const navigate = useNavigate();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [view, setView] = useState<FractalView>(DEFAULT_VIEW);
+  const [resolution, setResolution] = useState(256);
+  const [maxTime, setMaxTime] = useState(10);
+  const [hover, setHover] = useState<{ theta1: number; theta2: number } | null>(null);
+
+  // Pan in progress: the image is shifted with CSS until release, then re-rendered
+  const panRef = useRef<{ x: number; y: number; moved: boolean } | null>(null);
+  const [panOffset, setPanOffset] = useState({ x: 0, y: 0 });
+
+  const render = useMemo(
+    () =>
+      createFlipTimeRender({
+        config: DEFAULT_CONFIG,
+        view,
+        width: resolution,
+        height: resolution,
+        maxTime,
+      }),
+    [view, resolution, maxTime],
+  );
+  const { running, result: pixels } = useTimeSlicedTask(render, STEPS_PER_CALL);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx || !pixels) return;
+    ctx.putImageData(new ImageData(pixels, render.width, render.height), 0, 0);
+  }, [render, pixels]);
+
+  // Canvas pixel under a pointer event, allowing for CSS scaling
+  const toCanvas = useCallback((clientX: number, clientY: number) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return { x: 0, y: 0, ratio: 1 };
+    const rect = canvas.getBoundingClientRect();
+    const ratio = canvas.width / rect.width;
+    return { x: (clientX - rect.left) * ratio, y: (clientY - rect.top) * ratio, ratio };
+  }, []);
+
+  const zoomAbout = useCallback(
+    (x: number, y: number, factor: number) => {
+      setView((prev) => {
+        const anchor = viewAngles(prev, resolution, resolution, x, y);
+        // Keep the angles under the cursor fixed while the span shrinks or grows
+        return {
+          theta1: anchor.theta1 + (prev.theta1 - anchor.theta1) / factor,
+          theta2: anchor.theta2 + (prev.theta2 - anchor.theta2) / factor,
+          span: prev.span / factor,
+        };
+      });
+    },
+    [resolution],
+  );
+
+  // Wheel zoom needs a non-passive listener to keep the page from scrolling
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const { x, y } = toCanvas(e.clientX, e.clientY);
+      zoomAbout(x, y, e.deltaY < 0 ? ZOOM_FACTOR : 1 / ZOOM_FACTOR);
+    };
+    canvas.addEventListener("wheel", handleWheel, { passive: false });
+    return () => canvas.removeEventListener("wheel", handleWheel);
+  }, [toCanvas, zoomAbout]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    panRef.current = { x: e.clientX, y: e.clientY, moved: false };
+    e.currentTarget.setPointerCapture?.(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const { x, y } = toCanvas(e.clientX, e.clientY);
+    setHover(viewAngles(view, resolution, resolution, x, y));
+
+    const pan = panRef.current;
+    if (!pan) return;
+    const dx = e.clientX - pan.x;
+    const dy = e.clientY - pan.y;
+    if (Math.hypot(dx, dy) > CLICK_TOLERANCE) pan.moved = true;
+    if (pan.moved) setPanOffset({ x: dx, y: dy });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const pan = panRef.current;
+    if (!pan) return;
+    panRef.current = null;
+    e.currentTarget.releasePointerCapture?.(e.pointerId);
+
+    const { x, y, ratio } = toCanvas(e.clientX, e.clientY);
+    if (pan.moved) {
+      const perPixel = (view.span / resolution) * ratio;
+      setView((prev) => ({
+        ...prev,
+        theta1: prev.theta1 - (e.clientX - pan.x) * perPixel,
+        theta2: prev.theta2 + (e.clientY - pan.y) * perPixel,
+      }));
+      setPanOffset({ x: 0, y: 0 });
+      return;
+    }
+
+    // A click loads that initial condition into the simulator
+    const { theta1, theta2 } = viewAngles(view, resolution, resolution, x, y);
+    const snapshot: SimulationSnapshot = {
+      config: DEFAULT_CONFIG,
+      state: { angles: [theta1, theta2], velocities: [0, 0] },
+    };
+    navigate("/simulation", { state: snapshot });
+  };
+
+  const legend = useMemo(
+    () =>
+      [0, 0.25, 0.5, 0.75, 1].map((u) => {
+        const time = Math.expm1(u * Math.log1p(maxTime));
+        return { time, color: `rgb(${flipTimeColor(time, maxTime).join(",")})` };
+      }),
+    [maxTime],
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#0a0a0a] to-[#111111] text-white p-4">
+      <div className="max-w-7xl mx-auto">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="text-center mb-8"
+        >
+          <h1 className="text-4xl font-bold tracking-tight mb-2 bg-gradient-to-r from-[#ff0080] to-[#0088ff] bg-clip-text text-transparent">
+            Flip-Time Fractal
+          </h1>
+          <p className="text-gray-400 text-lg">
+            How long a double pendulum released from rest at (θ1, θ2) takes to flip over
+          </p>
+        </motion.div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <div className="lg:col-span-3">
+            <Card className="bg-[#111111] border-gray-800">
+              <CardContent className="p-6">
+                <div className="relative overflow-hidden rounded-lg border border-gray-700 bg-[#0a0a0a]">
+                  <canvas
+                    ref={canvasRef}
+                    width={resolution}
+                    height={resolution}
+                    className="w-full h-auto aspect-square cursor-crosshair touch-none"
+                    style={{
+                      imageRendering: "pixelated",
+                      transform: `translate(${panOffset.x}px, ${panOffset.y}px)`,
+                    }}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerLeave={() => setHover(null)}
+                  />
+                  {running && (
+                    <div className="absolute top-4 right-4 bg-black/50 backdrop-blur-sm rounded-lg p-2 border border-gray-700">
+                      <Loader2 className="w-4 h-4 animate-spin text-gray-300" />
+                    </div>
+                  )}
+                </div>
+                <div className="flex justify-between text-xs text-gray-400 mt-3">
+                  <span>θ1 → (horizontal), θ2 ↑ (vertical)</span>
+                  <span>{hover ? `θ1 ${formatAngle(hover.theta1)}, θ2 ${formatAngle(hover.theta2)}` : "Click a pixel to simulate it"}</span>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="space-y-6">
+            <Card className="bg-[#111111] border-gray-800">
+              <CardHeader>
+                <CardTitle className="text-[#0088ff]">Render</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <Label className="text-sm text-gray-300">Resolution</Label>
+                  <Select value={String(resolution)} onValueChange={(value) => setResolution(Number(value))}>
+                    <SelectTrigger size="sm" className="mt-2 w-full border-gray-700">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RESOLUTIONS.map((size) => (
+                        <SelectItem key={size} value={String(size)}>
+                          {size} × {size}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label className="text-sm text-gray-300">Max Time: {maxTime} s</Label>
+                  <Slider
+                    value={[maxTime]}
+                    onValueChange={([value]) => setMaxTime(value)}
+                    min={5}
+                    max={60}
+                    step={5}
+                    className="mt-2"
+                  />
+                </div>
+
+                <div>
+                  <div className="flex justify-between text-xs text-gray-400 mb-1">
+                    <span>Progress</span>
+                    <span>{Math.round(render.progress * 100)}%</span>
+                  </div>
+                  <Progress value={render.progress * 100} />
+                </div>
+
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="flex-1 border-gray-600 hover:bg-gray-800 cursor-pointer"
+                    onClick={() => zoomAbout(resolution / 2, resolution / 2, ZOOM_FACTOR)}
+                  >
+                    <ZoomIn className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="flex-1 border-gray-600 hover:bg-gray-800 cursor-pointer"
+                    onClick={() => zoomAbout(resolution / 2, resolution / 2, 1 / ZOOM_FACTOR)}
+                  >
+                    <ZoomOut className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="flex-1 border-gray-600 hover:bg-gray-800 cursor-pointer"
+                    onClick={() => setView(DEFAULT_VIEW)}
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                  </Button>
+                </div>
+
+                <div className="text-xs text-gray-400 space-y-1">
+                  <div>Centre: θ1 {formatAngle(view.theta1)}, θ2 {formatAngle(view.theta2)}</div>
+                  <div>Width: {formatAngle(view.span)}</div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-[#111111] border-gray-800">
+              <CardHeader>
+                <CardTitle className="text-[#ff0080]">Time to Flip</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {legend.map(({ time, color }) => (
+                  <div key={time} className="flex items-center gap-2">
+                    <div className="w-3 h-3 rounded-sm" style={{ backgroundColor: color }}></div>
+                    <span className="text-xs text-gray-400">{time.toFixed(1)} s</span>
+                  </div>
+                ))}
+                <div className="flex items-center gap-2">
+                  <div className="w-3 h-3 rounded-sm border border-gray-700 bg-[#0a0a0a]"></div>
+                  <span className="text-xs text-gray-400">No flip within {maxTime} s</span>
+                </div>
+                <p className="text-xs text-gray-500 pt-2">
+                  Scroll to zoom, drag to pan. Uses the default two-link parameters.
+                </p>
+              </CardContent>
+            </Card>
+
+            <Button
+              onClick={() => navigate("/simulation")}
+              variant="outline"
+              className="w-full border-gray-600 hover:bg-gray-800 cursor-pointer"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back to Simulation
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
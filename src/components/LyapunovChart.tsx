@@ -0,0 +1,63 @@
+import { Loader2 } from "lucide-react";
+import { useMemo } from "react";
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, type ChartConfig } from "@/components/ui/chart";
+import { Progress } from "@/components/ui/progress";
+import type { LyapunovSample } from "@/lib/physics/lyapunov";
+
+// Renormalizations happen every 0.1 s; the chart only needs a few hundred of them
+const MAX_POINTS = 400;
+
+const chartConfig = {
+  exponent: { label: "λ_max", color: "#ff0080" },
+} satisfies ChartConfig;
+
+const tickFormatter = (value: number) => value.toFixed(1);
+
+interface LyapunovChartProps {
+  history: LyapunovSample[];
+  exponent: number;
+  progress: number;
+  running: boolean;
+}
+
+export function LyapunovChart({ history, exponent, progress, running }: LyapunovChartProps) {
+  const data = useMemo(() => {
+    const stride = Math.max(1, Math.ceil(history.length / MAX_POINTS));
+    return stride === 1 ? history : history.filter((_, i) => i % stride === 0);
+  }, [history]);
+
+  return (
+    <Card className="bg-[#111111] border-gray-800">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-[#ff0080]">
+          Lyapunov Exponent
+          {running && <Loader2 className="w-4 h-4 animate-spin text-gray-400" />}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="text-sm text-gray-300">λ_max ≈ {exponent.toFixed(3)} s⁻¹</div>
+        <Progress value={progress * 100} />
+        <ChartContainer config={chartConfig} className="h-32 w-full aspect-auto">
+          <LineChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: -16 }}>
+            <CartesianGrid strokeOpacity={0.15} />
+            <XAxis dataKey="time" type="number" domain={[0, "dataMax"]} tickFormatter={tickFormatter} />
+            <YAxis type="number" domain={["auto", "auto"]} tickFormatter={tickFormatter} />
+            <ReferenceLine y={0} stroke="#9ca3af" strokeOpacity={0.4} />
+            <Line
+              dataKey="exponent"
+              stroke="var(--color-exponent)"
+              strokeWidth={1.5}
+              dot={false}
+              isAnimationActive={false}
+            />
+          </LineChart>
+        </ChartContainer>
+        <p className="text-xs text-gray-500">
+          Estimated from a neighbouring trajectory started at the last reset, drag or parameter change.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
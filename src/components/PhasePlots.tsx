@@ -0,0 +1,211 @@
+import { useMemo, useState } from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, type ChartConfig } from "@/components/ui/chart";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { bobColor } from "@/lib/palette";
+import { wrapAngle } from "@/lib/physics/engine";
+import type { StateSample } from "@/lib/physics/types";
+
+type PlotId = "phase1" | "phase2" | "configuration" | "angles" | "velocities";
+
+const PLOTS: { id: PlotId; label: string; title: string; minLinks: number }[] = [
+  { id: "phase1", label: "θ1–ω1", title: "Phase Portrait θ1 vs ω1", minLinks: 1 },
+  { id: "phase2", label: "θ2–ω2", title: "Phase Portrait θ2 vs ω2", minLinks: 2 },
+  { id: "configuration", label: "θ1–θ2", title: "Configuration Space θ1 vs θ2", minLinks: 2 },
+  { id: "angles", label: "θ(t)", title: "Angles over Time", minLinks: 1 },
+  { id: "velocities", label: "ω(t)", title: "Angular Velocities over Time", minLinks: 1 },
+];
+
+// Samples are taken at a fixed simulated-time rate, so history is a duration
+export const PLOT_SAMPLE_RATE = 60; // per simulated second
+const HISTORY_OPTIONS = [5, 10, 30, 60, 120]; // seconds
+export const PLOT_HISTORY_MAX = HISTORY_OPTIONS[HISTORY_OPTIONS.length - 1] * PLOT_SAMPLE_RATE;
+
+// Upper bound on points handed to a single chart; longer histories are strided
+const MAX_POINTS = 1500;
+
+type Row = Record<string, number | null>;
+
+// Wrapping makes a coordinate jump by ~2π; a null there breaks the line instead of streaking across
+const jumped = (a: number | null, b: number) => a !== null && Math.abs(a - b) > Math.PI;
+
+function phaseRows(samples: StateSample[], link: number): Row[] {
+  const rows: Row[] = [];
+  let last: number | null = null;
+  for (const sample of samples) {
+    const x = wrapAngle(sample.angles[link]);
+    if (jumped(last, x)) rows.push({ x, y: null });
+    rows.push({ x, y: sample.velocities[link] });
+    last = x;
+  }
+  return rows;
+}
+
+function configurationRows(samples: StateSample[]): Row[] {
+  const rows: Row[] = [];
+  let lastX: number | null = null;
+  let lastY: number | null = null;
+  for (const sample of samples) {
+    const x = wrapAngle(sample.angles[0]);
+    const y = wrapAngle(sample.angles[1]);
+    if (jumped(lastX, x) || jumped(lastY, y)) rows.push({ x, y: null });
+    rows.push({ x, y });
+    lastX = x;
+    lastY = y;
+  }
+  return rows;
+}
+
+function timeRows(samples: StateSample[], key: "angles" | "velocities"): Row[] {
+  const last: (number | null)[] = [];
+  return samples.map((sample) => {
+    const row: Row = { t: sample.time };
+    sample[key].forEach((value, link) => {
+      const v = key === "angles" ? wrapAngle(value) : value;
+      row[`link${link}`] = key === "angles" && jumped(last[link] ?? null, v) ? null : v;
+      last[link] = v;
+    });
+    return row;
+  });
+}
+
+const tickFormatter = (value: number) => value.toFixed(1);
+
+interface PhasePlotsProps {
+  samples: StateSample[];
+  linkCount: number;
+}
+
+export function PhasePlots({ samples, linkCount }: PhasePlotsProps) {
+  const [visible, setVisible] = useState<PlotId[]>(["phase1", "phase2", "configuration"]);
+  const [historySeconds, setHistorySeconds] = useState(10);
+
+  const available = PLOTS.filter((plot) => linkCount >= plot.minLinks);
+  const shown = available.filter((plot) => visible.includes(plot.id));
+
+  const windowed = useMemo(() => {
+    const recent = samples.slice(-historySeconds * PLOT_SAMPLE_RATE);
+    const stride = Math.max(1, Math.ceil(recent.length / MAX_POINTS));
+    return stride === 1 ? recent : recent.filter((_, i) => i % stride === 0);
+  }, [samples, historySeconds]);
+
+  const linkConfig = useMemo<ChartConfig>(
+    () =>
+      Object.fromEntries(
+        Array.from({ length: linkCount }, (_, link) => [
+          `link${link}`,
+          { label: `Link ${link + 1}`, color: bobColor(link) },
+        ]),
+      ),
+    [linkCount],
+  );
+
+  const renderChart = (plot: PlotId) => {
+    if (plot === "angles" || plot === "velocities") {
+      return (
+        <ChartContainer config={linkConfig} className="h-48 w-full aspect-auto">
+          <LineChart data={timeRows(windowed, plot)} margin={{ top: 8, right: 8, bottom: 0, left: -16 }}>
+            <CartesianGrid strokeOpacity={0.15} />
+            <XAxis dataKey="t" type="number" domain={["dataMin", "dataMax"]} tickFormatter={tickFormatter} />
+            <YAxis type="number" domain={plot === "angles" ? [-Math.PI, Math.PI] : ["auto", "auto"]} tickFormatter={tickFormatter} />
+            {Array.from({ length: linkCount }, (_, link) => (
+              <Line
+                key={link}
+                dataKey={`link${link}`}
+                stroke={`var(--color-link${link})`}
+                strokeWidth={1.5}
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+          </LineChart>
+        </ChartContainer>
+      );
+    }
+
+    const link = plot === "phase2" ? 1 : 0;
+    const data = plot === "configuration" ? configurationRows(windowed) : phaseRows(windowed, link);
+    const color = plot === "configuration" ? "#ff0080" : bobColor(link);
+    return (
+      <ChartContainer config={{ y: { label: plot, color } }} className="h-48 w-full aspect-auto">
+        <LineChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: -16 }}>
+          <CartesianGrid strokeOpacity={0.15} />
+          <XAxis dataKey="x" type="number" domain={[-Math.PI, Math.PI]} tickFormatter={tickFormatter} />
+          <YAxis
+            type="number"
+            domain={plot === "configuration" ? [-Math.PI, Math.PI] : ["auto", "auto"]}
+            tickFormatter={tickFormatter}
+          />
+          <Line dataKey="y" stroke="var(--color-y)" strokeWidth={1} dot={false} isAnimationActive={false} />
+        </LineChart>
+      </ChartContainer>
+    );
+  };
+
+  return (
+    <Card className="bg-[#111111] border-gray-800">
+      <CardHeader>
+        <CardTitle className="text-[#0088ff]">Phase Space</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3 justify-between">
+          <ToggleGroup
+            type="multiple"
+            variant="outline"
+            size="sm"
+            value={visible}
+            onValueChange={(value) => setVisible(value as PlotId[])}
+            className="flex-wrap"
+          >
+            {available.map((plot) => (
+              <ToggleGroupItem key={plot.id} value={plot.id} className="cursor-pointer px-3">
+                {plot.label}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+
+          <div className="flex items-center gap-2">
+            <Label className="text-sm text-gray-300">History</Label>
+            <Select
+              value={String(historySeconds)}
+              onValueChange={(value) => setHistorySeconds(Number(value))}
+            >
+              <SelectTrigger size="sm" className="border-gray-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {HISTORY_OPTIONS.map((seconds) => (
+                  <SelectItem key={seconds} value={String(seconds)}>
+                    {seconds} s
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {shown.length === 0 ? (
+          <p className="text-sm text-gray-500">Select a plot to display.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {shown.map((plot) => (
+              <div key={plot.id}>
+                <div className="text-xs text-gray-400 mb-1">{plot.title}</div>
+                {renderChart(plot.id)}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
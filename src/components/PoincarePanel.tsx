@@ -0,0 +1,291 @@
+import { Loader2, Play, Square } from "lucide-react";
+import { useMemo, useState } from "react";
+import { CartesianGrid, Scatter, ScatterChart, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, type ChartConfig } from "@/components/ui/chart";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { useTimeSlicedTask } from "@/hooks/use-time-sliced-task";
+import { calculateEnergy } from "@/lib/physics/engine";
+import type { IntegratorId } from "@/lib/physics/integrators";
+import {
+  POINCARE_STEP,
+  createPoincareRun,
+  sameEnergyStates,
+  type CrossingDirection,
+  type PoincarePoint,
+  type PoincareRun,
+  type PoincareSection,
+} from "@/lib/physics/poincare";
+import type { PendulumConfig, PendulumState } from "@/lib/physics/types";
+
+// Steps integrated per call into the run; the hook repeats calls until its time slice is used up
+const STEPS_PER_CALL = 100;
+
+// Hue per initial condition, spread around the wheel
+const runColor = (run: number, runs: number) => `hsl(${Math.round((360 * run) / Math.max(runs, 1))} 90% 60%)`;
+
+// Bottom of the potential well (everything hanging straight down), in joules
+function minimumEnergy(config: PendulumConfig): number {
+  let tail = 0;
+  let energy = 0;
+  for (let i = config.lengths.length - 1; i >= 0; i--) {
+    tail += config.masses[i];
+    energy -= tail * config.gravity * config.lengths[i];
+  }
+  return energy;
+}
+
+const tickFormatter = (value: number) => value.toFixed(1);
+
+interface PoincarePanelProps {
+  config: PendulumConfig;
+  state: PendulumState;
+  integratorId: IntegratorId;
+}
+
+export function PoincarePanel({ config, state, integratorId }: PoincarePanelProps) {
+  const n = config.lengths.length;
+  const [sectionLink, setSectionLink] = useState(0);
+  const [plotLink, setPlotLink] = useState(1);
+  const [direction, setDirection] = useState<CrossingDirection>("positive");
+  const [conditions, setConditions] = useState(8);
+  const [duration, setDuration] = useState(200);
+  const [energy, setEnergy] = useState<number | null>(null);
+  const [run, setRun] = useState<PoincareRun | null>(null);
+  const [runCount, setRunCount] = useState(0);
+  // Stopping ends the work but keeps the run, so the points found so far stay plotted
+  const [stopped, setStopped] = useState(false);
+
+  const { running, result: points } = useTimeSlicedTask(stopped ? null : run, STEPS_PER_CALL);
+
+  // Links beyond a shortened chain fall back to the first valid ones
+  const link = Math.min(sectionLink, n - 1);
+  const plotted = Math.min(plotLink, n - 1);
+  const section: PoincareSection = {
+    link,
+    plotLink: plotted === link ? (link === 0 ? 1 : 0) : plotted,
+    direction,
+  };
+
+  const floor = minimumEnergy(config);
+  const currentEnergy = calculateEnergy(state, { lengths: config.lengths, masses: config.masses, gravity: config.gravity });
+  const targetEnergy = Math.min(Math.max(energy ?? currentEnergy, floor), -floor);
+
+  const handleStart = () => {
+    const initialStates = sameEnergyStates(state, config, section, targetEnergy, conditions);
+    setRunCount(initialStates.length);
+    setStopped(false);
+    setRun(
+      createPoincareRun({
+        config,
+        section,
+        initialStates,
+        duration,
+        step: POINCARE_STEP,
+        integrator: integratorId,
+      }),
+    );
+  };
+
+  // One series per initial condition so each keeps its own color
+  const series = useMemo(() => {
+    const byRun: PoincarePoint[][] = Array.from({ length: runCount }, () => []);
+    for (const point of points ?? []) byRun[point.run]?.push(point);
+    return byRun;
+  }, [points, runCount]);
+
+  const chartConfig = useMemo<ChartConfig>(
+    () =>
+      Object.fromEntries(
+        series.map((_, i) => [`run${i}`, { label: `IC ${i + 1}`, color: runColor(i, series.length) }]),
+      ),
+    [series],
+  );
+
+  const pointCount = points?.length ?? 0;
+
+  if (n < 2) {
+    return (
+      <Card className="bg-[#111111] border-gray-800">
+        <CardHeader>
+          <CardTitle className="text-[#0088ff]">Poincaré Section</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-gray-500">Poincaré sections need at least two links.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const linkItems = Array.from({ length: n }, (_, link) => (
+    <SelectItem key={link} value={String(link)}>
+      Link {link + 1}
+    </SelectItem>
+  ));
+
+  return (
+    <Card className="bg-[#111111] border-gray-800">
+      <CardHeader>
+        <CardTitle className="text-[#0088ff]">Poincaré Section</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <div>
+            <Label className="text-sm text-gray-300">Section θ = 0 on</Label>
+            <Select value={String(section.link)} onValueChange={(value) => setSectionLink(Number(value))} disabled={running}>
+              <SelectTrigger size="sm" className="mt-2 w-full border-gray-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>{linkItems}</SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-sm text-gray-300">Crossing</Label>
+            <Select value={direction} onValueChange={(value) => setDirection(value as CrossingDirection)} disabled={running}>
+              <SelectTrigger size="sm" className="mt-2 w-full border-gray-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="positive">ω{section.link + 1} &gt; 0</SelectItem>
+                <SelectItem value="negative">ω{section.link + 1} &lt; 0</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-sm text-gray-300">Plot</Label>
+            <Select value={String(section.plotLink)} onValueChange={(value) => setPlotLink(Number(value))} disabled={running}>
+              <SelectTrigger size="sm" className="mt-2 w-full border-gray-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: n }, (_, link) => link)
+                  .filter((link) => link !== section.link)
+                  .map((link) => (
+                    <SelectItem key={link} value={String(link)}>
+                      θ{link + 1}, ω{link + 1}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div>
+            <Label className="text-sm text-gray-300">Energy: {targetEnergy.toFixed(2)} J</Label>
+            <Slider
+              value={[targetEnergy]}
+              onValueChange={([value]) => setEnergy(value)}
+              min={floor}
+              max={-floor}
+              step={(-floor * 2) / 200}
+              disabled={running}
+              className="mt-2"
+            />
+            <button
+              type="button"
+              onClick={() => setEnergy(null)}
+              disabled={running}
+              className="mt-1 text-xs text-gray-500 hover:text-gray-300 cursor-pointer"
+            >
+              Use current ({currentEnergy.toFixed(2)} J)
+            </button>
+          </div>
+          <div>
+            <Label className="text-sm text-gray-300">Initial Conditions: {conditions}</Label>
+            <Slider
+              value={[conditions]}
+              onValueChange={([value]) => setConditions(value)}
+              min={1}
+              max={24}
+              step={1}
+              disabled={running}
+              className="mt-2"
+            />
+          </div>
+          <div>
+            <Label className="text-sm text-gray-300">Duration per Condition: {duration} s</Label>
+            <Slider
+              value={[duration]}
+              onValueChange={([value]) => setDuration(value)}
+              min={20}
+              max={1000}
+              step={20}
+              disabled={running}
+              className="mt-2"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3">
+          {running ? (
+            <Button variant="outline" size="sm" onClick={() => setStopped(true)} className="cursor-pointer border-gray-700">
+              <Square className="w-4 h-4" />
+              Stop
+            </Button>
+          ) : (
+            <Button size="sm" onClick={handleStart} className="cursor-pointer bg-[#0088ff] hover:bg-[#0066cc]">
+              <Play className="w-4 h-4" />
+              Generate
+            </Button>
+          )}
+          {running && <Loader2 className="w-4 h-4 animate-spin text-gray-400" />}
+          <Progress value={(run?.progress ?? 0) * 100} className="flex-1" />
+          <span className="text-xs text-gray-400 tabular-nums">{pointCount} pts</span>
+        </div>
+
+        {run && runCount === 0 ? (
+          <p className="text-sm text-gray-500">
+            No initial conditions reach this energy on the section; raise the energy.
+          </p>
+        ) : (
+          <ChartContainer config={chartConfig} className="h-72 w-full aspect-auto">
+            <ScatterChart margin={{ top: 8, right: 8, bottom: 0, left: -16 }}>
+              <CartesianGrid strokeOpacity={0.15} />
+              <XAxis
+                dataKey="theta"
+                type="number"
+                domain={[-Math.PI, Math.PI]}
+                tickFormatter={tickFormatter}
+                name={`θ${section.plotLink + 1}`}
+              />
+              <YAxis
+                dataKey="omega"
+                type="number"
+                domain={["auto", "auto"]}
+                tickFormatter={tickFormatter}
+                name={`ω${section.plotLink + 1}`}
+              />
+              {series.map((points, i) => (
+                <Scatter
+                  key={i}
+                  data={points}
+                  fill={`var(--color-run${i})`}
+                  shape={(props: { cx?: number; cy?: number; fill?: string }) => (
+                    <circle cx={props.cx} cy={props.cy} r={1.2} fill={props.fill} />
+                  )}
+                  isAnimationActive={false}
+                />
+              ))}
+            </ScatterChart>
+          </ChartContainer>
+        )}
+
+        <p className="text-xs text-gray-500">
+          Sections are computed on the undamped, undriven chain at a fixed step of {POINCARE_STEP * 1000} ms,
+          independently of the live simulation.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,203 @@
+import { useMutation, useQuery } from "convex/react";
+import { ConvexError } from "convex/values";
+import { FolderOpen, History, Loader2 } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { api } from "@/convex/_generated/api";
+import type { Doc } from "@/convex/_generated/dataModel";
+import { diffSetups, readPreset, type PresetSetup } from "@/lib/presets";
+
+interface PresetHistoryDialogProps {
+  // the preset whose versions are shown; the dialog is open while it's set
+  preset: Doc<"simulationPresets"> | null;
+  onClose: () => void;
+  onLoad: (setup: PresetSetup) => void;
+}
+
+// The versions a preset has been saved with, what changed between any two, and a way back to each
+export function PresetHistoryDialog({ preset, onClose, onLoad }: PresetHistoryDialogProps) {
+  const history = useQuery(api.presets.history, preset ? { id: preset._id } : "skip");
+  const restoreVersion = useMutation(api.presets.restoreVersion);
+  // the version being looked at and the one it's compared with; null picks the newest and the one before
+  const [selected, setSelected] = useState<number | null>(null);
+  const [base, setBase] = useState<number | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    setSelected(null);
+    setBase(null);
+  }, [preset]);
+
+  const versions = useMemo(
+    () => (history ?? []).map((row) => ({ ...row, read: readPreset(row) })).reverse(),
+    [history],
+  );
+  const latest = versions[0]?.number;
+  const current = versions.find((row) => row.number === (selected ?? latest));
+  const previous = versions.find((row) => row.number === (base ?? (current && current.number - 1)));
+  const changes = current?.read.ok && previous?.read.ok ? diffSetups(previous.read.setup, current.read.setup) : null;
+
+  const select = (number: number) => {
+    setSelected(number);
+    setBase(null);
+  };
+
+  const handleLoad = () => {
+    if (!preset || !current?.read.ok) return;
+    onLoad(current.read.setup);
+    toast.success(`Loaded version ${current.number} of “${preset.name}”`);
+    onClose();
+  };
+
+  const handleRestore = async () => {
+    if (!preset || !current?.read.ok) return;
+    setRestoring(true);
+    try {
+      await restoreVersion({ id: preset._id, number: current.number });
+      onLoad(current.read.setup);
+      toast.success(`Restored version ${current.number} of “${preset.name}”`);
+      setSelected(null);
+      setBase(null);
+    } catch (error) {
+      toast.error(error instanceof ConvexError ? String(error.data) : "Couldn't restore the version");
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <Dialog open={preset !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="bg-[#111111] border-gray-800 text-white sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="text-[#00ff88]">History of “{preset?.name}”</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Every save is kept. Restoring an old version saves a copy of it as the newest.
+          </DialogDescription>
+        </DialogHeader>
+
+        {history === undefined ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-gray-500" />
+          </div>
+        ) : history === null ? (
+          <p className="text-sm text-gray-500">This preset no longer exists.</p>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-[11rem_1fr]">
+            <ul className="space-y-1 max-h-40 sm:max-h-80 overflow-y-auto">
+              {versions.map((row) => (
+                <li key={row.number}>
+                  <button
+                    type="button"
+                    onClick={() => select(row.number)}
+                    className={`w-full rounded-md px-2 py-1 text-left cursor-pointer hover:bg-gray-800/50 ${
+                      row.number === current?.number ? "bg-gray-800 text-white" : "text-gray-300"
+                    }`}
+                  >
+                    <div className="text-sm">
+                      Version {row.number}
+                      {row.number === latest && <span className="text-xs text-[#00ff88]"> · current</span>}
+                    </div>
+                    <div className="text-xs text-gray-500">{new Date(row.savedAt).toLocaleString()}</div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <div className="space-y-3 min-w-0">
+              {versions.length > 1 && current && (
+                <div className="flex items-center gap-2">
+                  <Label className="text-sm text-gray-300 shrink-0">Compare with</Label>
+                  <Select
+                    value={previous ? String(previous.number) : undefined}
+                    onValueChange={(value) => setBase(Number(value))}
+                  >
+                    <SelectTrigger className="w-full border-gray-700">
+                      <SelectValue placeholder="Pick a version" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {versions
+                        .filter((row) => row.number !== current.number)
+                        .map((row) => (
+                          <SelectItem key={row.number} value={String(row.number)}>
+                            Version {row.number}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {current && !current.read.ok ? (
+                <p className="text-sm text-[#ff0080]">This version no longer loads: {current.read.errors[0]}</p>
+              ) : previous && !previous.read.ok ? (
+                <p className="text-sm text-[#ff0080]">Version {previous.number} no longer loads: {previous.read.errors[0]}</p>
+              ) : changes === null ? (
+                <p className="text-sm text-gray-500">The first saved version, nothing to compare with.</p>
+              ) : changes.length === 0 ? (
+                <p className="text-sm text-gray-500">Same parameters as version {previous?.number}.</p>
+              ) : (
+                <div className="max-h-72 overflow-y-auto rounded-md border border-gray-800">
+                  <table className="w-full text-sm">
+                    <thead className="text-xs text-gray-500">
+                      <tr>
+                        <th className="px-2 py-1 text-left font-normal">Parameter</th>
+                        <th className="px-2 py-1 text-right font-normal">Version {previous?.number}</th>
+                        <th className="px-2 py-1 text-right font-normal">Version {current?.number}</th>
+                      </tr>
+                    </thead>
+                    <tbody className="font-mono">
+                      {changes.map((change) => (
+                        <tr key={change.label} className="border-t border-gray-800">
+                          <td className="px-2 py-1 font-sans text-gray-300">{change.label}</td>
+                          <td className="px-2 py-1 text-right text-[#ff0080]">{change.before ?? "—"}</td>
+                          <td className="px-2 py-1 text-right text-[#00ff88]">{change.after ?? "—"}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            onClick={handleLoad}
+            disabled={!current?.read.ok}
+            variant="outline"
+            className="border-gray-600 hover:bg-gray-800 cursor-pointer"
+          >
+            <FolderOpen className="w-4 h-4" />
+            Load
+          </Button>
+          <Button
+            onClick={() => void handleRestore()}
+            disabled={restoring || !current?.read.ok || current.number === latest}
+            className="bg-[#00ff88] text-black hover:bg-[#00ff88]/80 cursor-pointer"
+          >
+            {restoring ? <Loader2 className="w-4 h-4 animate-spin" /> : <History className="w-4 h-4" />}
+            Restore
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,361 @@
+import { useMutation, useQuery } from "convex/react";
+import { ConvexError } from "convex/values";
+import { Check, FolderOpen, GitFork, Globe, History, Link, Loader2, LogIn, Pencil, Save, Trash2, X } from "lucide-react";
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router";
+import { toast } from "sonner";
+import { PresetHistoryDialog } from "@/components/PresetHistoryDialog";
+import { PresetShareDialog } from "@/components/PresetShareDialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { api } from "@/convex/_generated/api";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+import { useAuth } from "@/hooks/use-auth";
+import { readPreset, type PresetSetup, type PresetSource } from "@/lib/presets";
+import { setupLink } from "@/lib/share-link";
+
+interface PresetPanelProps {
+  // everything the simulator currently shows, read when saving
+  getSetup: () => PresetSetup;
+  onLoad: (setup: PresetSetup) => void;
+  // a preset the page opened itself, e.g. from the gallery, which can then be forked
+  opened?: PresetSource;
+}
+
+// Server messages come through as ConvexError data; anything else is unexpected
+const errorMessage = (error: unknown) =>
+  error instanceof ConvexError ? String(error.data) : "Something went wrong, please try again";
+
+// The signed-in user's presets, saved from and loaded into the simulator
+export function PresetPanel({ getSetup, onLoad, opened }: PresetPanelProps) {
+  const navigate = useNavigate();
+  const { isLoading, isAuthenticated } = useAuth();
+  const presets = useQuery(api.presets.listMine);
+  const createPreset = useMutation(api.presets.create);
+  const updatePreset = useMutation(api.presets.update);
+  const renamePreset = useMutation(api.presets.rename);
+  const removePreset = useMutation(api.presets.remove);
+  const forkPreset = useMutation(api.presets.fork);
+
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+  // the preset whose name is being edited, and the edit
+  const [editing, setEditing] = useState<{ id: Id<"simulationPresets">; name: string } | null>(null);
+  // the preset whose gallery listing is being edited
+  const [sharing, setSharing] = useState<Doc<"simulationPresets"> | null>(null);
+  // the preset whose versions are being browsed
+  const [browsing, setBrowsing] = useState<Doc<"simulationPresets"> | null>(null);
+  // the preset the simulator last loaded, which a fork links back to
+  const [loaded, setLoaded] = useState<PresetSource | null>(null);
+  const [forking, setForking] = useState(false);
+  // presets deleted while their Undo toast is still up
+  const [removing, setRemoving] = useState<ReadonlySet<Id<"simulationPresets">>>(new Set());
+
+  useEffect(() => {
+    if (opened) setLoaded(opened);
+  }, [opened]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await createPreset({ name, setup: getSetup() });
+      toast.success(`Saved “${name.trim()}”`);
+      setName("");
+    } catch (error) {
+      toast.error(errorMessage(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleOverwrite = async (preset: Doc<"simulationPresets">) => {
+    try {
+      await updatePreset({ id: preset._id, setup: getSetup() });
+      toast.success(`Saved the current setup as a new version of “${preset.name}”`);
+    } catch (error) {
+      toast.error(errorMessage(error));
+    }
+  };
+
+  const handleRename = async () => {
+    if (!editing) return;
+    try {
+      await renamePreset(editing);
+      setEditing(null);
+    } catch (error) {
+      toast.error(errorMessage(error));
+    }
+  };
+
+  // The preset only hides while the toast offers Undo and is deleted once it goes,
+  // so undoing keeps its id, history and the links already shared to it
+  const handleRemove = (preset: Doc<"simulationPresets">) => {
+    const show = () =>
+      setRemoving((prev) => {
+        const next = new Set(prev);
+        next.delete(preset._id);
+        return next;
+      });
+    let settled = false;
+    const remove = () => {
+      if (settled) return;
+      settled = true;
+      removePreset({ id: preset._id })
+        .then(() => setLoaded((prev) => (prev?.id === preset._id ? null : prev)))
+        .catch((error) => toast.error(errorMessage(error)))
+        .finally(show);
+    };
+    setRemoving((prev) => new Set(prev).add(preset._id));
+    toast(`Deleted “${preset.name}”`, {
+      action: {
+        label: "Undo",
+        onClick: () => {
+          settled = true;
+          show();
+        },
+      },
+      onAutoClose: remove,
+      onDismiss: remove,
+    });
+  };
+
+  // The fork starts from what the simulator shows, so tweaks made since loading come along
+  const handleFork = async () => {
+    if (!loaded) return;
+    setForking(true);
+    try {
+      const fork = await forkPreset({ id: loaded.id, setup: getSetup() });
+      toast.success(`Forked “${loaded.name}” as “${fork.name}”`);
+      setLoaded(fork);
+    } catch (error) {
+      toast.error(errorMessage(error));
+    } finally {
+      setForking(false);
+    }
+  };
+
+  // Links need no account: the whole setup travels in the URL
+  const handleCopyLink = () => {
+    navigator.clipboard.writeText(setupLink(getSetup())).then(
+      () => toast.success("Link to this setup copied"),
+      () => toast.error("Couldn't copy the link"),
+    );
+  };
+
+  // Old records are migrated to the current setup on the way in
+  const handleLoad = (preset: Doc<"simulationPresets">) => {
+    const read = readPreset(preset);
+    if (!read.ok) {
+      toast.error(`Couldn't load “${preset.name}”`, {
+        description: (
+          <ul className="list-disc pl-4">
+            {read.errors.map((error, i) => (
+              <li key={i}>{error}</li>
+            ))}
+          </ul>
+        ),
+      });
+      return;
+    }
+    onLoad(read.setup);
+    setLoaded({ id: preset._id, name: preset.name });
+    toast.success(`Loaded “${preset.name}”`);
+  };
+
+  const shown = presets?.filter((preset) => !removing.has(preset._id));
+
+  return (
+    <div className="space-y-4">
+      {isLoading ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="w-5 h-5 animate-spin text-gray-500" />
+        </div>
+      ) : !isAuthenticated ? (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-400">Sign in to save setups and load them again later.</p>
+          <Button
+            onClick={() => navigate("/auth")}
+            size="sm"
+            variant="outline"
+            className="border-gray-600 hover:bg-gray-800 cursor-pointer"
+          >
+            <LogIn className="w-4 h-4" />
+            Sign In
+          </Button>
+        </div>
+      ) : (
+        <>
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              void handleSave();
+            }}
+          >
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Preset name"
+              className="border-gray-700"
+            />
+            <Button
+              type="submit"
+              size="sm"
+              disabled={saving || name.trim().length === 0}
+              className="h-9 bg-[#00ff88] text-black hover:bg-[#00ff88]/80 cursor-pointer"
+            >
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              Save
+            </Button>
+          </form>
+
+          {loaded && (
+            <div className="flex items-center gap-2 rounded-md border border-gray-800 px-2 py-1">
+              <div className="flex-1 min-w-0 text-xs text-gray-400 truncate">
+                Loaded from <span className="text-gray-200">{loaded.name}</span>
+              </div>
+              <Button
+                onClick={() => void handleFork()}
+                disabled={forking}
+                size="sm"
+                variant="ghost"
+                title="Save the current setup as a new preset that links back to this one"
+                className="h-8 px-2 text-[#0088ff] cursor-pointer"
+              >
+                {forking ? <Loader2 className="w-4 h-4 animate-spin" /> : <GitFork className="w-4 h-4" />}
+                Fork
+              </Button>
+            </div>
+          )}
+
+          {shown === undefined ? (
+            <div className="flex justify-center py-2">
+              <Loader2 className="w-5 h-5 animate-spin text-gray-500" />
+            </div>
+          ) : shown.length === 0 ? (
+            <p className="text-sm text-gray-500">No saved presets yet.</p>
+          ) : (
+            <ul className="space-y-1 max-h-72 overflow-y-auto">
+              {shown.map((preset) => (
+                <li key={preset._id} className="flex items-center gap-1 rounded-md px-2 py-1 hover:bg-gray-800/50">
+                  {editing?.id === preset._id ? (
+                    <form
+                      className="flex flex-1 items-center gap-1"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        void handleRename();
+                      }}
+                    >
+                      <Input
+                        autoFocus
+                        value={editing.name}
+                        onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                        onKeyDown={(e) => e.key === "Escape" && setEditing(null)}
+                        className="h-8 border-gray-700"
+                      />
+                      <Button type="submit" size="icon" variant="ghost" title="Rename" className="size-8 cursor-pointer">
+                        <Check className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        size="icon"
+                        variant="ghost"
+                        title="Cancel"
+                        onClick={() => setEditing(null)}
+                        className="size-8 cursor-pointer"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </form>
+                  ) : (
+                    <>
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm text-gray-200 truncate">{preset.name}</div>
+                        <div className="text-xs text-gray-500 truncate">
+                          {new Date(preset._creationTime).toLocaleDateString()}
+                          {preset.parentId && ` · forked from ${preset.parentName ?? "an unavailable preset"}`}
+                        </div>
+                      </div>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        title="Load"
+                        onClick={() => handleLoad(preset)}
+                        className="size-8 text-[#00ff88] cursor-pointer"
+                      >
+                        <FolderOpen className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        title="Save the current setup as a new version"
+                        onClick={() => void handleOverwrite(preset)}
+                        className="size-8 cursor-pointer"
+                      >
+                        <Save className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        title="History"
+                        onClick={() => setBrowsing(preset)}
+                        className="size-8 cursor-pointer"
+                      >
+                        <History className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        title="Rename"
+                        onClick={() => setEditing({ id: preset._id, name: preset.name })}
+                        className="size-8 cursor-pointer"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        title={preset.isPublic ? "Shared in the gallery" : "Share to the gallery"}
+                        onClick={() => setSharing(preset)}
+                        className={`size-8 cursor-pointer ${preset.isPublic ? "text-[#0088ff]" : ""}`}
+                      >
+                        <Globe className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        title="Delete"
+                        onClick={() => handleRemove(preset)}
+                        className="size-8 text-[#ff0080] cursor-pointer"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+      <Button
+        onClick={handleCopyLink}
+        size="sm"
+        variant="outline"
+        className="w-full border-gray-600 hover:bg-gray-800 cursor-pointer"
+      >
+        <Link className="w-4 h-4" />
+        Copy Setup Link
+      </Button>
+      <PresetShareDialog preset={sharing} onClose={() => setSharing(null)} />
+      <PresetHistoryDialog
+        preset={browsing}
+        onClose={() => setBrowsing(null)}
+        onLoad={(setup) => {
+          onLoad(setup);
+          if (browsing) setLoaded({ id: browsing._id, name: browsing.name });
+        }}
+      />
+    </div>
+  );
+}
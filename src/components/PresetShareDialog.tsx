@@ -0,0 +1,135 @@
+import { useMutation } from "convex/react";
+import { ConvexError } from "convex/values";
+import { Copy, Globe, Loader2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { api } from "@/convex/_generated/api";
+import type { Doc } from "@/convex/_generated/dataModel";
+import { presetLink } from "@/lib/share-link";
+
+interface PresetShareDialogProps {
+  // the preset being shared; the dialog is open while it's set
+  preset: Doc<"simulationPresets"> | null;
+  onClose: () => void;
+}
+
+// Publish a preset to the gallery, with the description and tags shown there
+export function PresetShareDialog({ preset, onClose }: PresetShareDialogProps) {
+  const share = useMutation(api.presets.share);
+  const [isPublic, setIsPublic] = useState(false);
+  const [description, setDescription] = useState("");
+  const [tags, setTags] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!preset) return;
+    setIsPublic(preset.isPublic ?? false);
+    setDescription(preset.description ?? "");
+    setTags((preset.tags ?? []).join(", "));
+  }, [preset]);
+
+  const handleSave = async () => {
+    if (!preset) return;
+    setSaving(true);
+    try {
+      await share({ id: preset._id, isPublic, description, tags: tags.split(",") });
+      toast.success(isPublic ? `“${preset.name}” is in the gallery` : `“${preset.name}” is private`);
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof ConvexError ? String(error.data) : "Couldn't update the preset");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={preset !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="bg-[#111111] border-gray-800 text-white">
+        <DialogHeader>
+          <DialogTitle className="text-[#00ff88]">Share “{preset?.name}”</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Public presets appear in the gallery, where anyone can open, like and fork them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <Label className="text-sm text-gray-300">Public</Label>
+            <p className="text-xs text-gray-500">List this preset in the gallery</p>
+          </div>
+          <Switch checked={isPublic} onCheckedChange={setIsPublic} />
+        </div>
+
+        <div>
+          <Label className="text-sm text-gray-300">Description</Label>
+          <Textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="What makes this setup interesting?"
+            className="mt-2 border-gray-700"
+            rows={3}
+          />
+        </div>
+
+        <div>
+          <Label className="text-sm text-gray-300">Tags</Label>
+          <Input
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            placeholder="chaos, driven, triple"
+            className="mt-2 border-gray-700"
+          />
+          <p className="text-xs text-gray-500 mt-1">Separate tags with commas</p>
+        </div>
+
+        {preset?.isPublic && (
+          <div>
+            <Label className="text-sm text-gray-300">Short link</Label>
+            <div className="flex gap-2 mt-2">
+              <Input readOnly value={presetLink(preset._id)} onFocus={(e) => e.target.select()} className="border-gray-700" />
+              <Button
+                onClick={() =>
+                  navigator.clipboard.writeText(presetLink(preset._id)).then(
+                    () => toast.success("Link copied"),
+                    () => toast.error("Couldn't copy the link"),
+                  )
+                }
+                size="icon"
+                variant="outline"
+                title="Copy link"
+                className="shrink-0 border-gray-600 hover:bg-gray-800 cursor-pointer"
+              >
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Opens the latest saved version of this preset</p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            onClick={() => void handleSave()}
+            disabled={saving}
+            className="bg-[#00ff88] text-black hover:bg-[#00ff88]/80 cursor-pointer"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Globe className="w-4 h-4" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,23 @@
+import { useEffect, useRef } from "react";
+import type { PresetSetup } from "@/lib/presets";
+import { drawThumbnail } from "@/lib/render/thumbnail";
+
+interface PresetThumbnailProps {
+  // null for a preset that doesn't load, drawn as an empty frame
+  setup: PresetSetup | null;
+  // CSS pixels
+  width: number;
+  height: number;
+  className?: string;
+}
+
+export function PresetThumbnail({ setup, width, height, className }: PresetThumbnailProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (ctx && setup) drawThumbnail(ctx, setup, width, height, window.devicePixelRatio || 1);
+  }, [setup, width, height]);
+
+  return <canvas ref={canvasRef} className={className} style={{ aspectRatio: `${width} / ${height}` }} />;
+}
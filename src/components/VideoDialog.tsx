@@ -0,0 +1,170 @@
+import { Video } from "lucide-react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import {
+  MAX_VIDEO_DURATION,
+  VIDEO_FRAME_RATES,
+  VIDEO_RESOLUTIONS,
+  supportsExactVideo,
+  supportsLiveVideo,
+  type VideoMode,
+  type VideoSettings,
+} from "@/lib/export/video";
+
+interface VideoDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // the on-screen canvas in device pixels, offered as a resolution
+  canvasSize: { width: number; height: number };
+  // simulated seconds per second of video
+  timeScale: number;
+  onRecord: (settings: VideoSettings) => void;
+}
+
+// Encoders want even dimensions
+const even = (value: number) => Math.max(2, 2 * Math.round(value / 2));
+
+export function VideoDialog({ open, onOpenChange, canvasSize, timeScale, onRecord }: VideoDialogProps) {
+  const [resolution, setResolution] = useState("canvas");
+  const [frameRate, setFrameRate] = useState(30);
+  const [duration, setDuration] = useState(10);
+  const [mode, setMode] = useState<VideoMode>("live");
+  const [overlays, setOverlays] = useState(false);
+
+  const canvas = { label: "Canvas", width: even(canvasSize.width), height: even(canvasSize.height) };
+  const size = resolution === "canvas" ? canvas : VIDEO_RESOLUTIONS[Number(resolution)];
+  const supported = mode === "live" ? supportsLiveVideo() : supportsExactVideo();
+
+  const modes: { id: VideoMode; label: string; description: string }[] = [
+    {
+      id: "live",
+      label: "Live",
+      description:
+        "Records the canvas as it plays, including dragging and scrubbing. Frames the page drops are missing from the video.",
+    },
+    {
+      id: "exact",
+      label: "Exact time",
+      description: `Simulates the next ${+(duration * timeScale).toPrecision(3)} s from the current state and renders every frame at its exact simulated time, however long that takes. The ensemble isn't included.`,
+    },
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-[#111111] border-gray-800 text-white">
+        <DialogHeader>
+          <DialogTitle className="text-[#0088ff]">Record Video</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Saves the pendulum canvas as a WebM video at the current view and playback speed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label className="text-sm text-gray-300">Resolution</Label>
+            <Select value={resolution} onValueChange={setResolution}>
+              <SelectTrigger className="mt-2 w-full border-gray-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="canvas">
+                  Canvas ({canvas.width} × {canvas.height})
+                </SelectItem>
+                {VIDEO_RESOLUTIONS.map((option, i) => (
+                  <SelectItem key={option.label} value={String(i)}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-sm text-gray-300">Frame Rate</Label>
+            <Select value={String(frameRate)} onValueChange={(value) => setFrameRate(Number(value))}>
+              <SelectTrigger className="mt-2 w-full border-gray-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {VIDEO_FRAME_RATES.map((rate) => (
+                  <SelectItem key={rate} value={String(rate)}>
+                    {rate} fps
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div>
+          <Label className="text-sm text-gray-300">Duration: {duration} s</Label>
+          <Slider
+            value={[duration]}
+            onValueChange={([value]) => setDuration(value)}
+            min={1}
+            max={MAX_VIDEO_DURATION}
+            step={1}
+            className="mt-2"
+          />
+        </div>
+
+        <RadioGroup value={mode} onValueChange={(value) => setMode(value as VideoMode)}>
+          {modes.map((option) => (
+            <Label
+              key={option.id}
+              htmlFor={`video-${option.id}`}
+              className="flex items-start gap-3 rounded-lg border border-gray-700 p-3 cursor-pointer hover:bg-gray-800/50"
+            >
+              <RadioGroupItem id={`video-${option.id}`} value={option.id} className="mt-0.5" />
+              <div>
+                <div className="text-sm text-gray-200">{option.label}</div>
+                <div className="text-xs text-gray-500 font-normal">{option.description}</div>
+              </div>
+            </Label>
+          ))}
+        </RadioGroup>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <Label className="text-sm text-gray-300">Overlays</Label>
+            <p className="text-xs text-gray-500">Energy readout and phase portrait drawn into the video</p>
+          </div>
+          <Switch checked={overlays} onCheckedChange={setOverlays} />
+        </div>
+
+        {!supported && (
+          <p className="text-xs text-[#ff0080]">This browser can't record canvas video in this mode.</p>
+        )}
+
+        <DialogFooter>
+          <Button
+            onClick={() => onRecord({ width: size.width, height: size.height, frameRate, duration, mode, overlays })}
+            disabled={!supported}
+            className="bg-[#0088ff] hover:bg-[#0088ff]/80 text-white cursor-pointer"
+          >
+            <Video className="w-4 h-4" />
+            {mode === "live" ? "Start Recording" : "Render"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -11,6 +11,8 @@
 import type * as auth from "../auth.js";
 import type * as auth_emailOtp from "../auth/emailOtp.js";
 import type * as http from "../http.js";
+import type * as presetVersion from "../presetVersion.js";
+import type * as presets from "../presets.js";
 import type * as users from "../users.js";
 
 import type {
@@ -23,6 +25,8 @@ declare const fullApi: ApiFromModules<{
   auth: typeof auth;
   "auth/emailOtp": typeof auth_emailOtp;
   http: typeof http;
+  presetVersion: typeof presetVersion;
+  presets: typeof presets;
   users: typeof users;
 }>;
 
@@ -0,0 +1,4 @@
+// Version of the `setup` that presets are saved with. Older records are migrated
+// when read (src/lib/presets.ts), so bump this whenever the setup changes shape.
+// A module of its own so the client can import it without the schema's tables.
+export const PRESET_VERSION = 2;
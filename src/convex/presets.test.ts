@@ -0,0 +1,120 @@
+/// <reference types="vite/client" />
+// @vitest-environment edge-runtime
+import { convexTest } from "convex-test";
+import { describe, expect, it } from "vitest";
+import { api } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import schema from "./schema";
+
+const modules = import.meta.glob("./**/!(*.*.*)*.*s");
+
+const setup = {
+  physics: {
+    config: { lengths: [1, 1], masses: [1, 1], gravity: 9.81 },
+    state: { angles: [1, 0.5], velocities: [0, 0] },
+    time: 0,
+    damping: { models: [], viscous: 0, quadratic: 0, joint: [0, 0], coulomb: 0 },
+    dampingEnabled: false,
+  },
+  solver: { integrator: "rk4", tolerance: 1e-6, step: 0.001 },
+  view: {
+    showTrails: true,
+    showEnergy: false,
+    timeScale: 1,
+    reverse: false,
+    camera: { center: { x: 0, y: 0 }, zoom: 1 },
+  },
+};
+
+// A backend with two users, each holding a private and a public preset
+async function backend() {
+  const t = convexTest(schema, modules);
+  const signIn = async (name: string) => {
+    const userId = await t.run((ctx) => ctx.db.insert("users", { name }));
+    // Convex Auth's subject is the user id and session id joined with "|"
+    return { userId, as: t.withIdentity({ subject: `${userId}|session-${name}` }) };
+  };
+  const owner = await signIn("owner");
+  const other = await signIn("other");
+  const privateId = await owner.as.mutation(api.presets.create, { name: "Private", setup });
+  const publicId = await owner.as.mutation(api.presets.create, { name: "Public", setup, isPublic: true });
+  return { t, owner, other, privateId, publicId };
+}
+
+const presetCount = (t: ReturnType<typeof convexTest>) =>
+  t.run(async (ctx) => (await ctx.db.query("simulationPresets").collect()).length);
+
+describe("preset access", () => {
+  it("rejects writes from signed-out callers", async () => {
+    const { t, privateId, publicId } = await backend();
+    await expect(t.mutation(api.presets.create, { name: "Mine", setup })).rejects.toThrow("Sign in first");
+    await expect(t.mutation(api.presets.update, { id: privateId, setup })).rejects.toThrow("Sign in first");
+    await expect(t.mutation(api.presets.rename, { id: privateId, name: "Renamed" })).rejects.toThrow("Sign in first");
+    await expect(t.mutation(api.presets.remove, { id: privateId })).rejects.toThrow("Sign in first");
+    await expect(t.mutation(api.presets.fork, { id: publicId })).rejects.toThrow("Sign in first");
+    await expect(t.mutation(api.presets.toggleLike, { id: publicId })).rejects.toThrow("Sign in first");
+    expect(await presetCount(t)).toBe(2);
+  });
+
+  it("keeps other users from changing someone's presets", async () => {
+    const { t, other, privateId, publicId } = await backend();
+    for (const id of [privateId, publicId]) {
+      await expect(other.as.mutation(api.presets.update, { id, setup })).rejects.toThrow("Preset not found");
+      await expect(other.as.mutation(api.presets.rename, { id, name: "Mine now" })).rejects.toThrow("Preset not found");
+      await expect(other.as.mutation(api.presets.restoreVersion, { id, number: 1 })).rejects.toThrow("Preset not found");
+      await expect(
+        other.as.mutation(api.presets.share, { id, isPublic: true, description: "", tags: [] }),
+      ).rejects.toThrow("Preset not found");
+      await expect(other.as.mutation(api.presets.remove, { id })).rejects.toThrow("Preset not found");
+    }
+    const names = await t.run(async (ctx) => (await ctx.db.query("simulationPresets").collect()).map((p) => p.name));
+    expect(names).toEqual(["Private", "Public"]);
+  });
+
+  it("lets owners change and delete their own presets", async () => {
+    const { t, owner, privateId } = await backend();
+    await owner.as.mutation(api.presets.rename, { id: privateId, name: "Renamed" });
+    expect((await owner.as.query(api.presets.get, { id: privateId }))?.name).toBe("Renamed");
+    await owner.as.mutation(api.presets.remove, { id: privateId });
+    expect(await owner.as.query(api.presets.get, { id: privateId })).toBeNull();
+    expect(await presetCount(t)).toBe(1);
+  });
+
+  it("hides private presets from everyone but their owner", async () => {
+    const { t, owner, other, privateId } = await backend();
+    expect((await owner.as.query(api.presets.get, { id: privateId }))?.name).toBe("Private");
+    expect(await owner.as.query(api.presets.history, { id: privateId })).toHaveLength(1);
+    for (const caller of [t, other.as]) {
+      expect(await caller.query(api.presets.get, { id: privateId })).toBeNull();
+      expect(await caller.query(api.presets.history, { id: privateId })).toBeNull();
+    }
+    await expect(other.as.mutation(api.presets.fork, { id: privateId })).rejects.toThrow("Preset not found");
+    await expect(other.as.mutation(api.presets.toggleLike, { id: privateId })).rejects.toThrow("Preset not found");
+  });
+
+  it("shows public presets to anyone and lets signed-in users fork them", async () => {
+    const { t, owner, other, publicId } = await backend();
+    for (const caller of [t, other.as]) {
+      expect((await caller.query(api.presets.get, { id: publicId }))?.name).toBe("Public");
+      expect(await caller.query(api.presets.history, { id: publicId })).toHaveLength(1);
+    }
+    const fork = await other.as.mutation(api.presets.fork, { id: publicId });
+    const copy = await other.as.query(api.presets.get, { id: fork.id });
+    expect(copy).toMatchObject({ name: "Public (fork)", userId: other.userId, isPublic: false, parentId: publicId });
+    // The fork is the forker's own, so private to them
+    expect(await owner.as.query(api.presets.get, { id: fork.id })).toBeNull();
+  });
+
+  it("treats ids that aren't preset ids as missing", async () => {
+    const { t, owner } = await backend();
+    expect(await t.query(api.presets.get, { id: "not-an-id" })).toBeNull();
+    expect(await t.query(api.presets.get, { id: owner.userId as Id<"users"> })).toBeNull();
+  });
+
+  it("lists only the caller's own presets", async () => {
+    const { t, owner, other } = await backend();
+    expect((await owner.as.query(api.presets.listMine, {})).map((p) => p.name)).toEqual(["Public", "Private"]);
+    expect(await other.as.query(api.presets.listMine, {})).toEqual([]);
+    expect(await t.query(api.presets.listMine, {})).toEqual([]);
+  });
+});
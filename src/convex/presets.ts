@@ -0,0 +1,402 @@
+import { paginationOptsValidator } from "convex/server";
+import { ConvexError, v, type Infer } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { internalMutation, mutation, query, type MutationCtx, type QueryCtx } from "./_generated/server";
+import { PRESET_VERSION } from "./presetVersion";
+import { presetSetupValidator } from "./schema";
+import { getCurrentUser } from "./users";
+
+const MAX_NAME_LENGTH = 80;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_TAGS = 8;
+const MAX_TAG_LENGTH = 24;
+// Presets the search text backfill patches per run
+const BACKFILL_BATCH = 100;
+
+// The signed-in user, or an error for anonymous callers
+async function requireUser(ctx: QueryCtx) {
+  const user = await getCurrentUser(ctx);
+  if (user === null) throw new ConvexError("Sign in first");
+  return user;
+}
+
+// The preset with `id` if the signed-in user owns it
+async function requireOwnPreset(ctx: QueryCtx, id: Id<"simulationPresets">) {
+  const user = await requireUser(ctx);
+  const preset = await ctx.db.get(id);
+  if (preset === null || preset.userId !== user._id) throw new ConvexError("Preset not found");
+  return preset;
+}
+
+function checkName(name: string) {
+  const trimmed = name.trim();
+  if (trimmed.length === 0) throw new ConvexError("Give the preset a name");
+  if (trimmed.length > MAX_NAME_LENGTH) {
+    throw new ConvexError(`Preset names are at most ${MAX_NAME_LENGTH} characters`);
+  }
+  return trimmed;
+}
+
+function checkDescription(description: string) {
+  const trimmed = description.trim();
+  if (trimmed.length > MAX_DESCRIPTION_LENGTH) {
+    throw new ConvexError(`Descriptions are at most ${MAX_DESCRIPTION_LENGTH} characters`);
+  }
+  return trimmed;
+}
+
+// Lower-case, trimmed and without duplicates, so "Chaos" and "chaos " are one tag
+function checkTags(tags: string[]) {
+  const unique = [...new Set(tags.map((tag) => tag.trim().toLowerCase()).filter((tag) => tag.length > 0))];
+  if (unique.length > MAX_TAGS) throw new ConvexError(`A preset takes at most ${MAX_TAGS} tags`);
+  if (unique.some((tag) => tag.length > MAX_TAG_LENGTH)) {
+    throw new ConvexError(`Tags are at most ${MAX_TAG_LENGTH} characters`);
+  }
+  return unique;
+}
+
+// The part of a preset that each version keeps a copy of
+type PresetContent = Pick<Doc<"simulationPresets">, "version" | "config" | "setup">;
+
+const contentOf = ({ version, config, setup }: PresetContent): PresetContent => ({ version, config, setup });
+
+// Whether the signed-in user may open, fork and browse the history of a preset
+async function canRead(ctx: QueryCtx, preset: Doc<"simulationPresets">) {
+  if (preset.isPublic) return true;
+  const user = await getCurrentUser(ctx);
+  return user !== null && preset.userId === user._id;
+}
+
+/**
+ * The number the preset's next version gets. Presets saved before versions were
+ * kept have none yet, so their current content is recorded as version 1 first.
+ */
+async function nextVersion(ctx: MutationCtx, preset: Doc<"simulationPresets">) {
+  const last = await ctx.db
+    .query("presetVersions")
+    .withIndex("by_preset", (q) => q.eq("presetId", preset._id))
+    .order("desc")
+    .first();
+  if (last) return last.number + 1;
+  await ctx.db.insert("presetVersions", { presetId: preset._id, number: 1, ...contentOf(preset) });
+  return 2;
+}
+
+// What the gallery search matches against
+const searchText = (preset: Pick<Doc<"simulationPresets">, "name" | "description" | "tags">) =>
+  [preset.name, preset.description ?? "", ...(preset.tags ?? [])].join(" ");
+
+// Shape is checked by the validator; this catches values that would break the simulator.
+// The page checks the full parameter ranges when it loads a preset.
+function checkSetup(setup: Infer<typeof presetSetupValidator>) {
+  const { config, state, damping } = setup.physics;
+  const numbers = [
+    ...config.lengths,
+    ...config.masses,
+    config.gravity,
+    ...state.angles,
+    ...state.velocities,
+    setup.physics.time,
+    ...damping.joint,
+    setup.solver.tolerance,
+    setup.solver.step,
+    setup.view.timeScale,
+    setup.view.camera.zoom,
+  ];
+  if (!numbers.every(Number.isFinite)) throw new ConvexError("Preset values must be finite numbers");
+  const links = config.lengths.length;
+  if (links === 0 || [config.masses, state.angles, state.velocities].some((list) => list.length !== links)) {
+    throw new ConvexError("Lengths, masses, angles and velocities must have one entry per link");
+  }
+  if (Math.min(...config.lengths, ...config.masses, config.gravity, setup.solver.step) <= 0) {
+    throw new ConvexError("Lengths, masses, gravity and the time step must be positive");
+  }
+  return setup;
+}
+
+// The signed-in user's presets, newest first, with the names of the presets
+// forks came from while those are still readable; empty when signed out
+export const listMine = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx);
+    if (user === null) return [];
+    const presets = await ctx.db
+      .query("simulationPresets")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .order("desc")
+      .collect();
+    return await Promise.all(
+      presets.map(async (preset) => {
+        const parent = preset.parentId && (await ctx.db.get(preset.parentId));
+        const parentName = parent && (await canRead(ctx, parent)) ? parent.name : undefined;
+        return { ...preset, parentName };
+      }),
+    );
+  },
+});
+
+// A preset the signed-in user owns, or a public one; null otherwise, including
+// for ids that aren't preset ids at all, as links can carry anything
+export const get = query({
+  args: { id: v.string() },
+  handler: async (ctx, args) => {
+    const id = ctx.db.normalizeId("simulationPresets", args.id);
+    const preset = id && (await ctx.db.get(id));
+    if (!preset) return null;
+    return (await canRead(ctx, preset)) ? preset : null;
+  },
+});
+
+// Every saved version of a readable preset, oldest first; null otherwise
+export const history = query({
+  args: { id: v.id("simulationPresets") },
+  handler: async (ctx, args) => {
+    const preset = await ctx.db.get(args.id);
+    if (preset === null || !(await canRead(ctx, preset))) return null;
+    const versions = await ctx.db
+      .query("presetVersions")
+      .withIndex("by_preset", (q) => q.eq("presetId", args.id))
+      .collect();
+    // Presets saved before versions were kept have only their current content
+    if (versions.length === 0) return [{ number: 1, savedAt: preset._creationTime, ...contentOf(preset) }];
+    return versions.map((row) => ({ number: row.number, savedAt: row._creationTime, ...contentOf(row) }));
+  },
+});
+
+export const create = mutation({
+  args: {
+    name: v.string(),
+    setup: presetSetupValidator,
+    isPublic: v.optional(v.boolean()),
+    description: v.optional(v.string()),
+    tags: v.optional(v.array(v.string())),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const details = {
+      name: checkName(args.name),
+      description: args.description && checkDescription(args.description),
+      tags: args.tags && checkTags(args.tags),
+    };
+    const content = { version: PRESET_VERSION, setup: checkSetup(args.setup) };
+    const id = await ctx.db.insert("simulationPresets", {
+      ...details,
+      ...content,
+      userId: user._id,
+      isPublic: args.isPublic,
+      likeCount: 0,
+      forkCount: 0,
+      searchText: searchText(details),
+    });
+    await ctx.db.insert("presetVersions", { presetId: id, number: 1, ...content });
+    return id;
+  },
+});
+
+// Save a new setup as the preset's next version, which also brings old records up to date
+export const update = mutation({
+  args: { id: v.id("simulationPresets"), setup: presetSetupValidator },
+  handler: async (ctx, args) => {
+    const preset = await requireOwnPreset(ctx, args.id);
+    const content = { version: PRESET_VERSION, setup: checkSetup(args.setup), config: undefined };
+    const number = await nextVersion(ctx, preset);
+    // Presets from before the gallery have no search text until something writes it
+    await ctx.db.patch(args.id, { ...content, searchText: searchText(preset) });
+    await ctx.db.insert("presetVersions", { presetId: args.id, number, ...content });
+  },
+});
+
+// Make an earlier version current again by saving a copy of it as the next one
+export const restoreVersion = mutation({
+  args: { id: v.id("simulationPresets"), number: v.number() },
+  handler: async (ctx, args) => {
+    const preset = await requireOwnPreset(ctx, args.id);
+    const row = await ctx.db
+      .query("presetVersions")
+      .withIndex("by_preset", (q) => q.eq("presetId", args.id).eq("number", args.number))
+      .unique();
+    if (row === null) throw new ConvexError("Version not found");
+    const number = await nextVersion(ctx, preset);
+    await ctx.db.patch(args.id, contentOf(row));
+    await ctx.db.insert("presetVersions", { presetId: args.id, number, ...contentOf(row) });
+  },
+});
+
+/**
+ * Copy a readable preset into the signed-in user's presets as a private preset
+ * that links back to it. The copy starts its own history at version 1, which
+ * is `setup` when given, e.g. the parent as tweaked in the simulator, and the
+ * parent's current setup otherwise. Resolves with the new preset's id and name.
+ */
+export const fork = mutation({
+  args: { id: v.id("simulationPresets"), setup: v.optional(presetSetupValidator) },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const parent = await ctx.db.get(args.id);
+    if (parent === null || !(await canRead(ctx, parent))) throw new ConvexError("Preset not found");
+    const suffix = " (fork)";
+    const details = {
+      name: parent.name.slice(0, MAX_NAME_LENGTH - suffix.length) + suffix,
+      description: parent.description,
+      tags: parent.tags,
+    };
+    const content = args.setup ? { version: PRESET_VERSION, setup: checkSetup(args.setup) } : contentOf(parent);
+    const id = await ctx.db.insert("simulationPresets", {
+      ...details,
+      ...content,
+      userId: user._id,
+      isPublic: false,
+      likeCount: 0,
+      forkCount: 0,
+      searchText: searchText(details),
+      parentId: parent._id,
+    });
+    await ctx.db.insert("presetVersions", { presetId: id, number: 1, ...content });
+    await ctx.db.patch(parent._id, { forkCount: (parent.forkCount ?? 0) + 1 });
+    return { id, name: details.name };
+  },
+});
+
+export const rename = mutation({
+  args: { id: v.id("simulationPresets"), name: v.string() },
+  handler: async (ctx, args) => {
+    const preset = await requireOwnPreset(ctx, args.id);
+    const name = checkName(args.name);
+    await ctx.db.patch(args.id, { name, searchText: searchText({ ...preset, name }) });
+  },
+});
+
+// Publish to the gallery or take back, with the description and tags shown there
+export const share = mutation({
+  args: {
+    id: v.id("simulationPresets"),
+    isPublic: v.boolean(),
+    description: v.string(),
+    tags: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const preset = await requireOwnPreset(ctx, args.id);
+    const details = { description: checkDescription(args.description), tags: checkTags(args.tags) };
+    await ctx.db.patch(args.id, {
+      ...details,
+      isPublic: args.isPublic,
+      searchText: searchText({ ...preset, ...details }),
+    });
+  },
+});
+
+// `delete` is a reserved word, hence the name. Forks keep their `parentId`.
+export const remove = mutation({
+  args: { id: v.id("simulationPresets") },
+  handler: async (ctx, args) => {
+    await requireOwnPreset(ctx, args.id);
+    const likes = await ctx.db
+      .query("presetLikes")
+      .withIndex("by_preset_user", (q) => q.eq("presetId", args.id))
+      .collect();
+    const versions = await ctx.db
+      .query("presetVersions")
+      .withIndex("by_preset", (q) => q.eq("presetId", args.id))
+      .collect();
+    await Promise.all([...likes, ...versions].map((row) => ctx.db.delete(row._id)));
+    await ctx.db.delete(args.id);
+  },
+});
+
+/**
+ * Public presets, a page at a time, with their authors' names and whether the
+ * signed-in user liked them. A search ranks by relevance and ignores `sort`.
+ */
+export const listPublic = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+    search: v.optional(v.string()),
+    sort: v.union(v.literal("newest"), v.literal("likes"), v.literal("forks")),
+  },
+  handler: async (ctx, args) => {
+    const search = args.search?.trim();
+    const presets = ctx.db.query("simulationPresets");
+    let page;
+    if (search) {
+      page = await presets
+        .withSearchIndex("search_text", (q) => q.search("searchText", search).eq("isPublic", true))
+        .paginate(args.paginationOpts);
+    } else if (args.sort === "likes") {
+      page = await presets
+        .withIndex("by_public_likes", (q) => q.eq("isPublic", true))
+        .order("desc")
+        .paginate(args.paginationOpts);
+    } else if (args.sort === "forks") {
+      page = await presets
+        .withIndex("by_public_forks", (q) => q.eq("isPublic", true))
+        .order("desc")
+        .paginate(args.paginationOpts);
+    } else {
+      page = await presets
+        .withIndex("by_public", (q) => q.eq("isPublic", true))
+        .order("desc")
+        .paginate(args.paginationOpts);
+    }
+
+    const user = await getCurrentUser(ctx);
+    return {
+      ...page,
+      page: await Promise.all(
+        page.page.map(async (preset) => {
+          const author = await ctx.db.get(preset.userId);
+          const like =
+            user &&
+            (await ctx.db
+              .query("presetLikes")
+              .withIndex("by_preset_user", (q) => q.eq("presetId", preset._id).eq("userId", user._id))
+              .unique());
+          return { ...preset, authorName: author?.name ?? "Anonymous", liked: Boolean(like) };
+        }),
+      ),
+    };
+  },
+});
+
+// Like a public preset, or take the like back; resolves with whether it's now liked
+export const toggleLike = mutation({
+  args: { id: v.id("simulationPresets") },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const preset = await ctx.db.get(args.id);
+    if (preset === null || !preset.isPublic) throw new ConvexError("Preset not found");
+    const like = await ctx.db
+      .query("presetLikes")
+      .withIndex("by_preset_user", (q) => q.eq("presetId", args.id).eq("userId", user._id))
+      .unique();
+    const likeCount = preset.likeCount ?? 0;
+    if (like) {
+      await ctx.db.delete(like._id);
+      await ctx.db.patch(args.id, { likeCount: Math.max(0, likeCount - 1) });
+      return false;
+    }
+    await ctx.db.insert("presetLikes", { presetId: args.id, userId: user._id });
+    await ctx.db.patch(args.id, { likeCount: likeCount + 1 });
+    return true;
+  },
+});
+
+/**
+ * Give presets saved before the gallery existed the search text it matches
+ * against, a batch per run, rescheduling itself until every preset is done.
+ * Run once after deploying: `npx convex run presets:backfillSearchText`.
+ */
+export const backfillSearchText = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args): Promise<void> => {
+    const page = await ctx.db
+      .query("simulationPresets")
+      .paginate({ numItems: BACKFILL_BATCH, cursor: args.cursor ?? null });
+    const missing = page.page.filter((preset) => preset.searchText === undefined);
+    await Promise.all(missing.map((preset) => ctx.db.patch(preset._id, { searchText: searchText(preset) })));
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.presets.backfillSearchText, { cursor: page.continueCursor });
+    }
+  },
+});
@@ -16,6 +16,66 @@ export const roleValidator = v.union(
 );
 export type Role = Infer<typeof roleValidator>;
 
+// Version 1 presets: a two-link pendulum only. Lengths in m, masses in kg,
+// gravity in m/s², angles in rad from the downward vertical, velocities in rad/s
+export const legacyPresetConfigValidator = v.object({
+  length1: v.number(),
+  length2: v.number(),
+  mass1: v.number(),
+  mass2: v.number(),
+  gravity: v.number(),
+  angle1: v.number(),
+  angle2: v.number(),
+  velocity1: v.number(),
+  velocity2: v.number(),
+});
+
+// Everything that decides what the simulator shows, in the simulator's own units
+export const presetSetupValidator = v.object({
+  physics: v.object({
+    config: v.object({
+      lengths: v.array(v.number()),
+      masses: v.array(v.number()),
+      gravity: v.number(),
+      // present while the pivot drive is on
+      drive: v.optional(
+        v.object({
+          axis: v.union(v.literal("horizontal"), v.literal("vertical")),
+          amplitude: v.number(),
+          frequency: v.number(),
+          torque: v.number(),
+          torqueFrequency: v.number(),
+        }),
+      ),
+    }),
+    state: v.object({ angles: v.array(v.number()), velocities: v.array(v.number()) }),
+    // simulated time of `state`, which sets the drive's phase
+    time: v.number(),
+    damping: v.object({
+      models: v.array(
+        v.union(v.literal("viscous"), v.literal("quadratic"), v.literal("joint"), v.literal("coulomb")),
+      ),
+      viscous: v.number(),
+      quadratic: v.number(),
+      joint: v.array(v.number()),
+      coulomb: v.number(),
+    }),
+    dampingEnabled: v.boolean(),
+  }),
+  solver: v.object({
+    integrator: v.string(),
+    tolerance: v.number(),
+    step: v.number(),
+  }),
+  view: v.object({
+    showTrails: v.boolean(),
+    showEnergy: v.boolean(),
+    timeScale: v.number(),
+    reverse: v.boolean(),
+    camera: v.object({ center: v.object({ x: v.number(), y: v.number() }), zoom: v.number() }),
+  }),
+});
+
 const schema = defineSchema(
   {
     // default auth tables using convex auth.
@@ -36,19 +96,42 @@ const schema = defineSchema(
     simulationPresets: defineTable({
       name: v.string(),
       userId: v.id("users"),
-      config: v.object({
-        length1: v.number(),
-        length2: v.number(),
-        mass1: v.number(),
-        mass2: v.number(),
-        gravity: v.number(),
-        angle1: v.number(),
-        angle2: v.number(),
-        velocity1: v.number(),
-        velocity2: v.number(),
-      }),
+      // no version means version 1, which kept only `config`
+      version: v.optional(v.number()),
+      config: v.optional(legacyPresetConfigValidator),
+      setup: v.optional(presetSetupValidator),
       isPublic: v.optional(v.boolean()),
-    }).index("by_user", ["userId"]),
+      // shown in the public gallery
+      description: v.optional(v.string()),
+      tags: v.optional(v.array(v.string())),
+      likeCount: v.optional(v.number()),
+      forkCount: v.optional(v.number()),
+      // name, description and tags in one field for the search index
+      searchText: v.optional(v.string()),
+      // the preset this one was forked from; it may since have been deleted
+      parentId: v.optional(v.id("simulationPresets")),
+    })
+      .index("by_user", ["userId"])
+      .index("by_public", ["isPublic"])
+      .index("by_public_likes", ["isPublic", "likeCount"])
+      .index("by_public_forks", ["isPublic", "forkCount"])
+      .searchIndex("search_text", { searchField: "searchText", filterFields: ["isPublic"] }),
+
+    // One row per user who liked a preset; the preset keeps the running count
+    presetLikes: defineTable({
+      presetId: v.id("simulationPresets"),
+      userId: v.id("users"),
+    }).index("by_preset_user", ["presetId", "userId"]),
+
+    // Every setup a preset has been saved with, numbered from 1; never edited.
+    // Same stored shape as the preset itself, so old rows migrate the same way.
+    presetVersions: defineTable({
+      presetId: v.id("simulationPresets"),
+      number: v.number(),
+      version: v.optional(v.number()),
+      config: v.optional(legacyPresetConfigValidator),
+      setup: v.optional(presetSetupValidator),
+    }).index("by_preset", ["presetId", "number"]),
   },
   {
     schemaValidation: false,
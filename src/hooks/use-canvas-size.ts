@@ -0,0 +1,56 @@
+import { useEffect, useState, type RefObject } from "react";
+
+export interface CanvasSize {
+  // CSS pixels
+  width: number;
+  height: number;
+  pixelRatio: number;
+}
+
+/**
+ * Track the laid-out size of an element and the device pixel ratio, so a canvas
+ * can size its backing store to match the screen rather than a fixed bitmap.
+ */
+export function useCanvasSize(ref: RefObject<HTMLElement | null>, fallback: CanvasSize): CanvasSize {
+  const [size, setSize] = useState(fallback);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    const update = () => {
+      const { width, height } = element.getBoundingClientRect();
+      if (width === 0 || height === 0) return;
+      const pixelRatio = window.devicePixelRatio || 1;
+      setSize((prev) =>
+        prev.width === width && prev.height === height && prev.pixelRatio === pixelRatio
+          ? prev
+          : { width, height, pixelRatio },
+      );
+    };
+
+    const observer = new ResizeObserver(update);
+    observer.observe(element);
+
+    // Moving the window to a screen with another pixel ratio, or zooming, doesn't
+    // resize anything. The query only matches the ratio it was made for, so each
+    // change sets up a new one for the ratio that's now current.
+    let ratioQuery: MediaQueryList;
+    const watchRatio = () => {
+      ratioQuery = window.matchMedia(`(resolution: ${window.devicePixelRatio}dppx)`);
+      ratioQuery.addEventListener("change", handleRatioChange, { once: true });
+    };
+    const handleRatioChange = () => {
+      update();
+      watchRatio();
+    };
+    watchRatio();
+    update();
+    return () => {
+      observer.disconnect();
+      ratioQuery.removeEventListener("change", handleRatioChange);
+    };
+  }, [ref]);
+
+  return size;
+}
@@ -0,0 +1,53 @@
+import { useEffect, useRef, useState } from "react";
+import type { LyapunovOptions, LyapunovSample } from "@/lib/physics/lyapunov";
+import type { LyapunovProgress, LyapunovRequest } from "@/lib/physics/worker-protocol";
+
+export interface LyapunovEstimate {
+  running: boolean;
+  // one sample per renormalization so far
+  history: LyapunovSample[];
+  exponent: number; // 1/s
+  progress: number;
+}
+
+const EMPTY: LyapunovEstimate = { running: false, history: [], exponent: 0, progress: 0 };
+
+/**
+ * Estimate the largest Lyapunov exponent in a background worker, restarting
+ * whenever `options` changes. Pass a memoized object.
+ */
+export function useLyapunovEstimate(options: LyapunovOptions): LyapunovEstimate {
+  const workerRef = useRef<Worker | null>(null);
+  // Tags each start so progress from an abandoned estimate is ignored
+  const idRef = useRef(0);
+  const [estimate, setEstimate] = useState(EMPTY);
+
+  useEffect(() => {
+    const worker = new Worker(new URL("../lib/physics/lyapunov.worker.ts", import.meta.url), {
+      type: "module",
+    });
+    worker.onmessage = (event: MessageEvent<LyapunovProgress>) => {
+      const { id, samples, exponent, progress, done } = event.data;
+      if (id !== idRef.current) return;
+      setEstimate((prev) => ({
+        running: !done,
+        history: samples.length > 0 ? [...prev.history, ...samples] : prev.history,
+        exponent,
+        progress,
+      }));
+    };
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const request: LyapunovRequest = { type: "start", id: ++idRef.current, options };
+    workerRef.current?.postMessage(request);
+    setEstimate({ ...EMPTY, running: true });
+  }, [options]);
+
+  return estimate;
+}
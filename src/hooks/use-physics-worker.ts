@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useRef } from "react";
+import type { PhysicsFrame, PhysicsRequest } from "@/lib/physics/worker-protocol";
+
+/**
+ * Start the physics worker for the lifetime of the component. Returns a stable
+ * function for sending it requests; every frame it produces goes to `onFrame`.
+ */
+export function usePhysicsWorker(onFrame: (frame: PhysicsFrame) => void) {
+  const workerRef = useRef<Worker | null>(null);
+  const onFrameRef = useRef(onFrame);
+
+  useEffect(() => {
+    onFrameRef.current = onFrame;
+  }, [onFrame]);
+
+  useEffect(() => {
+    const worker = new Worker(new URL("../lib/physics/physics.worker.ts", import.meta.url), {
+      type: "module",
+    });
+    worker.onmessage = (event: MessageEvent<PhysicsFrame>) => onFrameRef.current(event.data);
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  return useCallback((request: PhysicsRequest) => {
+    workerRef.current?.postMessage(request);
+  }, []);
+}
@@ -0,0 +1,67 @@
+import { useEffect, useState } from "react";
+
+export interface TimeSlicedTask<T> {
+  // do up to `units` more units of work; returns true once the task is finished
+  advance(units: number): boolean;
+  // a copy of the results so far, safe to keep after later work changes them
+  snapshot(): T;
+}
+
+// Main-thread time spent per slice before yielding back to rendering and input
+const SLICE_BUDGET_MS = 8;
+// Re-render at most this often while the task runs
+const PROGRESS_INTERVAL_MS = 100;
+
+/**
+ * Run a long computation in small slices between frames. Returns whether the
+ * task is still running and a snapshot of its results, refreshed as it makes
+ * progress. Swapping `task` cancels the previous one; clearing it stops the
+ * work but keeps the last snapshot, so partial results stay on screen.
+ */
+export function useTimeSlicedTask<T>(task: TimeSlicedTask<T> | null, unitsPerCall = 200) {
+  const [running, setRunning] = useState(false);
+  // Tagged with its task so a new task never shows the previous one's results
+  const [snapshot, setSnapshot] = useState<{ task: TimeSlicedTask<T>; result: T } | null>(null);
+
+  useEffect(() => {
+    if (!task) {
+      setRunning(false);
+      return;
+    }
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let lastProgress = 0;
+    setRunning(true);
+    setSnapshot({ task, result: task.snapshot() });
+
+    const slice = () => {
+      if (cancelled) return;
+      const deadline = performance.now() + SLICE_BUDGET_MS;
+      let done = false;
+      while (!done && performance.now() < deadline) {
+        done = task.advance(unitsPerCall);
+      }
+
+      const now = performance.now();
+      if (done || now - lastProgress > PROGRESS_INTERVAL_MS) {
+        lastProgress = now;
+        setSnapshot({ task, result: task.snapshot() });
+      }
+      if (done) {
+        setRunning(false);
+      } else {
+        timer = setTimeout(slice, 0);
+      }
+    };
+    timer = setTimeout(slice, 0);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [task, unitsPerCall]);
+
+  const result = snapshot && (task === null || snapshot.task === task) ? snapshot.result : null;
+  return { running, result };
+}
@@ -0,0 +1,156 @@
+import type { TrajectoryRecorder } from "@/lib/physics/trajectory";
+import type { RenderScene } from "@/lib/render/pendulum-renderer";
+import { createGifEncoder } from "./gif";
+import {
+  addToHistogram,
+  createColorIndexer,
+  createHistogram,
+  medianCutPalette,
+  webSafePalette,
+  type DitherMode,
+} from "./quantize";
+import { createVideoCanvas } from "./video";
+import { createZip, type ZipEntry } from "./zip";
+
+// Animated GIF, or a zip of numbered PNG frames
+export type AnimationFormat = "gif" | "png";
+// "adaptive" picks colours from the frames themselves; "web-safe" is a fixed cube
+export type PaletteMode = "adaptive" | "web-safe";
+
+export interface AnimationSettings {
+  format: AnimationFormat;
+  width: number;
+  height: number;
+  // simulated time range to replay, seconds
+  start: number;
+  end: number;
+  // every n-th recorded sample becomes a frame
+  frameSkip: number;
+  palette: PaletteMode;
+  // palette size for "adaptive", up to 256
+  colors: number;
+  dither: DitherMode;
+  // times the GIF plays, 0 for forever
+  loop: number;
+  // energy readout and phase portraits drawn into the frames
+  overlays: boolean;
+}
+
+// The options kept in the simulator's settings between exports
+export type AnimationPreferences = Pick<AnimationSettings, "frameSkip" | "palette" | "colors" | "dither" | "loop">;
+
+export const DEFAULT_ANIMATION_PREFERENCES: AnimationPreferences = {
+  frameSkip: 2,
+  palette: "adaptive",
+  colors: 64,
+  dither: "none",
+  loop: 0,
+};
+
+export const ANIMATION_RESOLUTIONS = [
+  { label: "320 × 240", width: 320, height: 240 },
+  { label: "480 × 360", width: 480, height: 360 },
+  { label: "640 × 480", width: 640, height: 480 },
+  { label: "800 × 600", width: 800, height: 600 },
+];
+export const PALETTE_SIZES = [16, 32, 64, 128, 256];
+// Browsers stretch GIF delays shorter than this, in hundredths of a second
+export const MIN_GIF_DELAY = 2;
+
+// Every other pixel is plenty to find the colours for the palette
+const HISTOGRAM_STRIDE = 2;
+
+const nextTask = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+export interface AnimationOptions {
+  settings: AnimationSettings;
+  scene: RenderScene;
+  recorder: TrajectoryRecorder;
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+// Indices of the recorded samples that become frames
+export function animationFrames(recorder: TrajectoryRecorder, settings: AnimationSettings): number[] {
+  const first = Math.max(0, recorder.indexAt(settings.start));
+  const last = recorder.indexAt(settings.end);
+  const frames: number[] = [];
+  for (let i = first; i <= last; i += Math.max(1, settings.frameSkip)) frames.push(i);
+  return frames;
+}
+
+/**
+ * Replay part of a recording through the pendulum renderer one frame per
+ * sample kept, at the scene's playback speed, into a GIF or a zip of PNGs.
+ * Resolves with null when aborted.
+ */
+export async function renderAnimation(options: AnimationOptions): Promise<Blob | null> {
+  const { settings, scene, recorder, signal } = options;
+  const frames = animationFrames(recorder, settings);
+  if (frames.length === 0) throw new Error("There are no recorded samples in that range");
+  const startTime = recorder.at(frames[0]).time;
+  // Wall-clock seconds at which each frame appears, at the scene's playback speed
+  const frameTimes = frames.map((index) => (recorder.at(index).time - startTime) / scene.timeScale);
+  const interval = frameTimes[1] ?? 0;
+
+  // A fresh renderer per pass, so the trails build up the same way each time
+  const replay = async (onFrame: (frame: number, canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D) => void | Promise<void>) => {
+    let now = 0;
+    const { canvas, ctx, renderer } = createVideoCanvas(settings, () => now);
+    renderer.setScene(scene);
+    for (let k = 0; k < frames.length; k++) {
+      if (signal?.aborted) return false;
+      const sample = recorder.at(frames[k]);
+      now = frameTimes[k] * 1000;
+      renderer.pushFrame({ state: sample, time: sample.time, ensemble: null, ensembleTime: 0, trail: true });
+      await onFrame(k, canvas, ctx);
+      // Yield so the page repaints its progress
+      if (k % 4 === 3) await nextTask();
+    }
+    return true;
+  };
+  const pixels = (ctx: CanvasRenderingContext2D) => ctx.getImageData(0, 0, settings.width, settings.height).data;
+
+  if (settings.format === "png") {
+    const entries: ZipEntry[] = [];
+    const digits = String(frames.length).length;
+    const times = ["file,t"];
+    const completed = await replay(async (k, canvas) => {
+      const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+      if (!blob) throw new Error("This browser can't encode PNG frames");
+      const name = `frame-${String(k + 1).padStart(digits, "0")}.png`;
+      entries.push({ name, data: new Uint8Array(await blob.arrayBuffer()) });
+      times.push(`${name},${recorder.at(frames[k]).time}`);
+      options.onProgress?.((k + 1) / frames.length);
+    });
+    if (!completed) return null;
+    entries.push({ name: "frames.csv", data: new TextEncoder().encode(times.join("\n") + "\n") });
+    return createZip(entries);
+  }
+
+  // Adaptive palettes take a first pass over every frame to count its colours
+  let palette = webSafePalette();
+  const histogramShare = settings.palette === "adaptive" ? 0.3 : 0;
+  if (settings.palette === "adaptive") {
+    const histogram = createHistogram();
+    const completed = await replay((k, _canvas, ctx) => {
+      addToHistogram(histogram, pixels(ctx), HISTOGRAM_STRIDE);
+      options.onProgress?.(((k + 1) / frames.length) * histogramShare);
+    });
+    if (!completed) return null;
+    palette = medianCutPalette(histogram, Math.min(256, settings.colors));
+  }
+
+  const indexer = createColorIndexer(palette);
+  const gif = createGifEncoder({ width: settings.width, height: settings.height, palette, loop: settings.loop });
+  // Whole hundredths that add up to the true timing, none shorter than browsers allow
+  let shown = 0;
+  const completed = await replay((k, _canvas, ctx) => {
+    const next = k + 1 < frames.length ? frameTimes[k + 1] : frameTimes[k] + interval;
+    const delay = Math.max(MIN_GIF_DELAY, Math.round(next * 100) - shown);
+    shown += delay;
+    gif.addFrame(indexer.index(pixels(ctx), settings.width, settings.height, settings.dither), delay);
+    options.onProgress?.(histogramShare + ((k + 1) / frames.length) * (1 - histogramShare));
+  });
+  return completed ? gif.finish() : null;
+}
@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+import { createGifEncoder } from "@/lib/export/gif";
+
+interface Frame {
+  delay: number;
+  minCodeSize: number;
+  clears: number;
+  indices: number[];
+}
+
+// Plain GIF LZW decoding, written from the spec rather than from the encoder
+function unlzw(data: Uint8Array, minCodeSize: number) {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let table: number[][] = [];
+  let codeSize = 0;
+  let previous: number[] | null = null;
+  const reset = () => {
+    table = Array.from({ length: endCode + 1 }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+    previous = null;
+  };
+  reset();
+
+  const indices: number[] = [];
+  let clears = 0;
+  let bit = 0;
+  while (bit + codeSize <= data.length * 8) {
+    let code = 0;
+    for (let i = 0; i < codeSize; i++, bit++) code |= ((data[bit >> 3] >> (bit & 7)) & 1) << i;
+    if (code === clearCode) {
+      clears++;
+      reset();
+      continue;
+    }
+    if (code === endCode) return { indices, clears };
+    let entry: number[];
+    if (code < table.length) entry = table[code];
+    else if (code === table.length && previous) entry = [...previous, previous[0]];
+    else throw new Error(`code ${code} is not in the table yet`);
+    if (previous && table.length < 4096) {
+      table.push([...previous, entry[0]]);
+      if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+    }
+    indices.push(...entry);
+    previous = entry;
+  }
+  throw new Error("no end code");
+}
+
+// Walk the GIF's blocks, decoding each frame
+function decode(bytes: Uint8Array) {
+  const uint16 = (at: number) => bytes[at] | (bytes[at + 1] << 8);
+  const subBlocks = (at: number) => {
+    const chunks: number[] = [];
+    while (bytes[at]) {
+      chunks.push(...bytes.subarray(at + 1, at + 1 + bytes[at]));
+      at += bytes[at] + 1;
+    }
+    return { data: Uint8Array.from(chunks), end: at + 1 };
+  };
+
+  expect(new TextDecoder().decode(bytes.subarray(0, 6))).toBe("GIF89a");
+  const width = uint16(6);
+  const height = uint16(8);
+  const tableSize = 2 << (bytes[10] & 7);
+  const palette = bytes.subarray(13, 13 + 3 * tableSize);
+  let at = 13 + 3 * tableSize;
+
+  let loop: number | null = null;
+  let delay = 0;
+  const frames: Frame[] = [];
+  for (;;) {
+    const block = bytes[at];
+    if (block === 0x3b) break;
+    if (block === 0x21) {
+      const label = bytes[at + 1];
+      const { data, end } = subBlocks(at + 2);
+      if (label === 0xf9) delay = data[1] | (data[2] << 8);
+      if (label === 0xff && new TextDecoder().decode(data.subarray(0, 11)) === "NETSCAPE2.0") loop = data[12] | (data[13] << 8);
+      at = end;
+    } else if (block === 0x2c) {
+      expect([uint16(at + 5), uint16(at + 7)]).toEqual([width, height]);
+      const minCodeSize = bytes[at + 10];
+      const { data, end } = subBlocks(at + 11);
+      frames.push({ delay, minCodeSize, ...unlzw(data, minCodeSize) });
+      at = end;
+    } else {
+      throw new Error(`unexpected block 0x${block.toString(16)} at ${at}`);
+    }
+  }
+  expect(at).toBe(bytes.length - 1);
+  return { width, height, tableSize, palette, loop, frames };
+}
+
+// Deterministic pseudo-random indices below `colours`
+function noise(length: number, colours: number, seed = 1) {
+  let state = seed;
+  return Uint8Array.from({ length }, () => {
+    state = (state * 1103515245 + 12345) >>> 0;
+    return (state >>> 16) % colours;
+  });
+}
+
+async function encode(
+  frames: { indices: Uint8Array; delay: number }[],
+  options: { width: number; height: number; colours: number; loop: number },
+) {
+  const palette = Uint8Array.from({ length: options.colours * 3 }, (_, i) => i % 256);
+  const encoder = createGifEncoder({ ...options, palette });
+  for (const { indices, delay } of frames) encoder.addFrame(indices, delay);
+  return decode(new Uint8Array(await encoder.finish().arrayBuffer()));
+}
+
+describe("createGifEncoder", () => {
+  it("writes the screen, palette and per-frame delays", async () => {
+    const frames = [noise(12, 3, 1), noise(12, 3, 2)];
+    const gif = await encode(
+      frames.map((indices, i) => ({ indices, delay: 4 + i })),
+      { width: 4, height: 3, colours: 3, loop: 0 },
+    );
+    expect([gif.width, gif.height]).toEqual([4, 3]);
+    // Three colours round up to a four-entry table, padded with black
+    expect(gif.tableSize).toBe(4);
+    expect([...gif.palette]).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 0, 0, 0]);
+    expect(gif.frames.map(({ delay, indices }) => ({ delay, indices }))).toEqual(
+      frames.map((indices, i) => ({ delay: 4 + i, indices: [...indices] })),
+    );
+  });
+
+  it.each([
+    [0, 0],
+    [3, 2],
+  ])("writes the loop count %i as %i repeats", async (loop, repeats) => {
+    const gif = await encode([{ indices: new Uint8Array(4), delay: 10 }], { width: 2, height: 2, colours: 2, loop });
+    expect(gif.loop).toBe(repeats);
+  });
+
+  it("leaves out the looping extension for a single play", async () => {
+    const gif = await encode([{ indices: new Uint8Array(4), delay: 10 }], { width: 2, height: 2, colours: 2, loop: 1 });
+    expect(gif.loop).toBeNull();
+  });
+
+  it.each([
+    ["uniform", 2, new Uint8Array(4096)],
+    ["repeating", 16, Uint8Array.from({ length: 5000 }, (_, i) => i % 7)],
+    ["noisy", 256, noise(3000, 256)],
+  ])("round-trips %s pixels through LZW", async (_, colours, indices) => {
+    const gif = await encode([{ indices, delay: 2 }], { width: indices.length, height: 1, colours, loop: 0 });
+    const [frame] = gif.frames;
+    expect(frame.minCodeSize).toBe(Math.max(2, Math.log2(colours)));
+    expect(frame.clears).toBe(1);
+    expect(frame.indices).toEqual([...indices]);
+  });
+
+  it("restarts the code table once it is full", async () => {
+    // Noise adds a code per pixel or two, filling 4096 codes several times over
+    const indices = noise(40_000, 256, 7);
+    const gif = await encode([{ indices, delay: 2 }], { width: 200, height: 200, colours: 256, loop: 0 });
+    const [frame] = gif.frames;
+    expect(frame.clears).toBeGreaterThan(3);
+    expect(frame.indices).toEqual([...indices]);
+  });
+});
@@ -0,0 +1,133 @@
+// GIF89a writing: one global palette, full frames of palette indices, LZW
+// compressed into 255-byte sub-blocks.
+
+export interface GifEncoder {
+  // `indices` holds one palette index per pixel; `delay` in hundredths of a second
+  addFrame(indices: Uint8Array, delay: number): void;
+  finish(): Blob;
+}
+
+// Codes are at most 12 bits wide
+const MAX_CODES = 4096;
+
+// Bytes into data sub-blocks: a length byte, up to 255 bytes, ..., then a zero-length block
+function subBlocks(data: Uint8Array): Uint8Array {
+  const blocks = Math.ceil(data.length / 255);
+  const out = new Uint8Array(data.length + blocks + 1);
+  let o = 0;
+  for (let i = 0; i < data.length; i += 255) {
+    const block = data.subarray(i, i + 255);
+    out[o++] = block.length;
+    out.set(block, o);
+    o += block.length;
+  }
+  out[o] = 0;
+  return out;
+}
+
+/**
+ * Variable-width LZW as GIF uses it: codes start at `minCodeSize` + 1 bits,
+ * packed least significant bit first, and the table restarts with a clear
+ * code when it reaches 4096 entries.
+ */
+function lzw(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  // (prefix code, next index) -> code
+  const table = new Map<number, number>();
+  let nextCode = endCode + 1;
+  let codeSize = minCodeSize + 1;
+
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  const emit = (code: number) => {
+    buffer |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      bytes.push(buffer & 0xff);
+      buffer >>>= 8;
+      bits -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0] ?? 0;
+  for (let i = 1; i < indices.length; i++) {
+    const index = indices[i];
+    const key = prefix * 256 + index;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode < MAX_CODES) {
+      table.set(key, nextCode);
+      // The decoder widens one code later than the encoder adds it
+      if (nextCode === 1 << codeSize) codeSize++;
+      nextCode++;
+    } else {
+      emit(clearCode);
+      table.clear();
+      nextCode = endCode + 1;
+      codeSize = minCodeSize + 1;
+    }
+    prefix = index;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bits > 0) bytes.push(buffer & 0xff);
+  return Uint8Array.from(bytes);
+}
+
+const uint16 = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+
+/**
+ * Animated GIF of `width` × `height` frames over one packed-RGB `palette` of up
+ * to 256 colours. `loop` is how many times it plays: 0 for forever.
+ */
+export function createGifEncoder(options: {
+  width: number;
+  height: number;
+  palette: Uint8Array;
+  loop: number;
+}): GifEncoder {
+  const { width, height, palette, loop } = options;
+  // The colour table holds a power of two entries, at least 4 for LZW's sake
+  const tableBits = Math.max(2, Math.ceil(Math.log2(Math.max(palette.length / 3, 2))));
+  const table = new Uint8Array(3 << tableBits);
+  table.set(palette.subarray(0, table.length));
+
+  const parts: Uint8Array[] = [
+    new TextEncoder().encode("GIF89a"),
+    Uint8Array.from([...uint16(width), ...uint16(height), 0xf0 | (tableBits - 1), 0, 0]),
+    table,
+  ];
+  // Netscape's extension counts repeats after the first play; without it a GIF plays once
+  if (loop !== 1) {
+    parts.push(
+      Uint8Array.from([
+        0x21, 0xff, 0x0b,
+        ...new TextEncoder().encode("NETSCAPE2.0"),
+        0x03, 0x01, ...uint16(loop === 0 ? 0 : loop - 1), 0x00,
+      ]),
+    );
+  }
+
+  return {
+    addFrame(indices, delay) {
+      parts.push(
+        // Graphic control: leave the frame in place, then wait `delay`
+        Uint8Array.from([0x21, 0xf9, 0x04, 0x04, ...uint16(Math.round(delay)), 0x00, 0x00]),
+        // Image descriptor covering the whole canvas, no local colour table
+        Uint8Array.from([0x2c, 0, 0, 0, 0, ...uint16(width), ...uint16(height), 0x00]),
+        Uint8Array.of(tableBits),
+        subBlocks(lzw(indices, tableBits)),
+      );
+    },
+    finish() {
+      return new Blob([...parts, Uint8Array.of(0x3b)] as BlobPart[], { type: "image/gif" });
+    },
+  };
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { encodeNpyFloat64, encodeNpyStrings } from "@/lib/export/npy";
+
+// The header dict and where the data starts, as np.load reads them
+function parse(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const headerLength = view.getUint16(8, true);
+  return {
+    magic: Array.from(bytes.subarray(0, 8)),
+    header: new TextDecoder().decode(bytes.subarray(10, 10 + headerLength)),
+    dataOffset: 10 + headerLength,
+    view,
+  };
+}
+
+describe("encodeNpyFloat64", () => {
+  it("writes a version 1.0 header aligned to 64 bytes", () => {
+    const { magic, header, dataOffset } = parse(encodeNpyFloat64(new Float64Array(6), [2, 3]));
+    expect(magic).toEqual([0x93, 0x4e, 0x55, 0x4d, 0x50, 0x59, 1, 0]);
+    expect(header).toMatch(/^\{'descr': '<f8', 'fortran_order': False, 'shape': \(2, 3\), \} *\n$/);
+    expect(dataOffset % 64).toBe(0);
+  });
+
+  it("writes one-dimensional shapes as a Python 1-tuple", () => {
+    expect(parse(encodeNpyFloat64(new Float64Array(4), [4])).header).toContain("'shape': (4,)");
+  });
+
+  it("stores the values little-endian in order", () => {
+    const values = [0, -1.5, Math.PI, 1e-300];
+    const bytes = encodeNpyFloat64(Float64Array.from(values), [values.length]);
+    const { dataOffset, view } = parse(bytes);
+    expect(bytes.length).toBe(dataOffset + values.length * 8);
+    expect(values.map((_, i) => view.getFloat64(dataOffset + i * 8, true))).toEqual(values);
+  });
+});
+
+describe("encodeNpyStrings", () => {
+  it("pads every string to the longest as UTF-32 code points", () => {
+    const bytes = encodeNpyStrings(["θ1", "ω"]);
+    const { header, dataOffset, view } = parse(bytes);
+    expect(header).toContain("'descr': '<U2'");
+    expect(header).toContain("'shape': (2,)");
+    const points = Array.from({ length: 4 }, (_, i) => view.getUint32(dataOffset + i * 4, true));
+    expect(points).toEqual(["θ".codePointAt(0), "1".codePointAt(0), "ω".codePointAt(0), 0]);
+  });
+
+  it("writes a 0-d array for a single string with an empty shape", () => {
+    expect(parse(encodeNpyStrings(["rk4"], [])).header).toContain("'shape': ()");
+  });
+});
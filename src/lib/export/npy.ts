@@ -0,0 +1,44 @@
+// NumPy's .npy format, version 1.0: magic, header length, then a Python dict
+// literal padded so the data starts on a 64-byte boundary
+const MAGIC = [0x93, 0x4e, 0x55, 0x4d, 0x50, 0x59, 0x01, 0x00];
+
+const shapeLiteral = (shape: number[]) =>
+  shape.length === 1 ? `(${shape[0]},)` : `(${shape.join(", ")})`;
+
+function withHeader(descr: string, shape: number[], body: Uint8Array): Uint8Array {
+  let header = `{'descr': '${descr}', 'fortran_order': False, 'shape': ${shapeLiteral(shape)}, }`;
+  const unpadded = MAGIC.length + 2 + header.length + 1;
+  header += " ".repeat((64 - (unpadded % 64)) % 64) + "\n";
+
+  const out = new Uint8Array(MAGIC.length + 2 + header.length + body.length);
+  out.set(MAGIC, 0);
+  new DataView(out.buffer).setUint16(MAGIC.length, header.length, true);
+  for (let i = 0; i < header.length; i++) out[MAGIC.length + 2 + i] = header.charCodeAt(i);
+  out.set(body, MAGIC.length + 2 + header.length);
+  return out;
+}
+
+/**
+ * Little-endian float64 array of `shape` in C order, as `np.save` writes it.
+ */
+export function encodeNpyFloat64(data: Float64Array, shape: number[]): Uint8Array {
+  const body = new Uint8Array(data.length * 8);
+  const view = new DataView(body.buffer);
+  data.forEach((value, i) => view.setFloat64(i * 8, value, true));
+  return withHeader("<f8", shape, body);
+}
+
+/**
+ * Fixed-width unicode array ('<U') of strings; a single string with no shape
+ * gives a 0-d array, which `str(array)` turns back into the string.
+ */
+export function encodeNpyStrings(values: string[], shape: number[] = [values.length]): Uint8Array {
+  const codePoints = values.map((value) => Array.from(value, (char) => char.codePointAt(0)!));
+  const width = Math.max(1, ...codePoints.map((points) => points.length));
+  const body = new Uint8Array(values.length * width * 4);
+  const view = new DataView(body.buffer);
+  codePoints.forEach((points, i) => {
+    points.forEach((point, j) => view.setUint32((i * width + j) * 4, point, true));
+  });
+  return withHeader(`<U${width}`, shape, body);
+}
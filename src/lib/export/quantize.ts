@@ -0,0 +1,197 @@
+// Colour reduction for indexed-colour formats such as GIF: palettes from a
+// colour histogram or a fixed cube, and mapping RGBA pixels onto them.
+
+export type DitherMode = "none" | "floyd-steinberg" | "ordered";
+
+// Colours are counted at 5 bits per channel, 32768 bins
+const HISTOGRAM_BITS = 5;
+const HISTOGRAM_SIZE = 1 << (3 * HISTOGRAM_BITS);
+
+const binOf = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+// 4×4 Bayer matrix, thresholds in [−0.5, 0.5)
+const BAYER = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5].map((value) => value / 16 - 0.5);
+// Amplitude of the ordered dither, in 8-bit levels
+const ORDERED_SPREAD = 48;
+
+export type ColorHistogram = Uint32Array;
+
+export function createHistogram(): ColorHistogram {
+  return new Uint32Array(HISTOGRAM_SIZE);
+}
+
+// Count the colours of an RGBA image, looking at every `stride`-th pixel
+export function addToHistogram(histogram: ColorHistogram, rgba: Uint8ClampedArray, stride = 1) {
+  for (let p = 0; p < rgba.length; p += 4 * stride) histogram[binOf(rgba[p], rgba[p + 1], rgba[p + 2])]++;
+}
+
+/**
+ * Median cut: split the histogram's colour space into `size` boxes holding
+ * similar numbers of pixels, each becoming its pixel-weighted mean. Packed RGB.
+ */
+export function medianCutPalette(histogram: ColorHistogram, size: number): Uint8Array {
+  type Box = { bins: number[]; count: number };
+  const channel = (bin: number, c: number) => (bin >> (10 - 5 * c)) & 31;
+  const used: number[] = [];
+  let total = 0;
+  histogram.forEach((count, bin) => {
+    if (count === 0) return;
+    used.push(bin);
+    total += count;
+  });
+  const boxes: Box[] = [{ bins: used, count: total }];
+
+  const spread = (box: Box) => {
+    let widest = 0;
+    let axis = 0;
+    for (let c = 0; c < 3; c++) {
+      let lo = 31;
+      let hi = 0;
+      for (const bin of box.bins) {
+        lo = Math.min(lo, channel(bin, c));
+        hi = Math.max(hi, channel(bin, c));
+      }
+      if (hi - lo > widest) {
+        widest = hi - lo;
+        axis = c;
+      }
+    }
+    return { widest, axis };
+  };
+
+  while (boxes.length < size) {
+    // Split the box where a split helps most: wide and well populated
+    let best = -1;
+    let bestScore = 0;
+    boxes.forEach((box, i) => {
+      if (box.bins.length < 2) return;
+      const score = spread(box).widest * box.count;
+      if (score > bestScore) {
+        bestScore = score;
+        best = i;
+      }
+    });
+    if (best < 0) break;
+
+    const box = boxes[best];
+    const { axis } = spread(box);
+    box.bins.sort((a, b) => channel(a, axis) - channel(b, axis));
+    let running = 0;
+    let cut = 1;
+    for (; cut < box.bins.length - 1; cut++) {
+      running += histogram[box.bins[cut - 1]];
+      if (running >= box.count / 2) break;
+    }
+    const low = box.bins.slice(0, cut);
+    const high = box.bins.slice(cut);
+    const sum = (bins: number[]) => bins.reduce((acc, bin) => acc + histogram[bin], 0);
+    boxes.splice(best, 1, { bins: low, count: sum(low) }, { bins: high, count: sum(high) });
+  }
+
+  const palette = new Uint8Array(Math.max(boxes.length, 1) * 3);
+  boxes.forEach((box, i) => {
+    const mean = [0, 0, 0];
+    for (const bin of box.bins) {
+      for (let c = 0; c < 3; c++) mean[c] += (channel(bin, c) * 8 + 4) * histogram[bin];
+    }
+    for (let c = 0; c < 3; c++) palette[i * 3 + c] = Math.round(mean[c] / Math.max(box.count, 1));
+  });
+  return palette;
+}
+
+// The 216-colour web-safe cube plus 40 greys, the same for every video
+export function webSafePalette(): Uint8Array {
+  const palette = new Uint8Array(256 * 3);
+  let i = 0;
+  for (let r = 0; r < 6; r++) {
+    for (let g = 0; g < 6; g++) {
+      for (let b = 0; b < 6; b++) palette.set([r * 51, g * 51, b * 51], 3 * i++);
+    }
+  }
+  for (let k = 0; i < 256; k++, i++) {
+    const level = Math.round(((k + 1) * 255) / 41);
+    palette.set([level, level, level], 3 * i);
+  }
+  return palette;
+}
+
+/**
+ * Maps pixels onto a fixed palette, nearest colour by squared distance. Lookups
+ * are cached per histogram bin, so a frame costs one table read per pixel.
+ */
+export function createColorIndexer(palette: Uint8Array) {
+  const colors = palette.length / 3;
+  const cache = new Int16Array(HISTOGRAM_SIZE).fill(-1);
+
+  const nearest = (r: number, g: number, b: number) => {
+    const bin = binOf(r, g, b);
+    if (cache[bin] >= 0) return cache[bin];
+    // Match the centre of the bin so the cache doesn't depend on which pixel came first
+    const cr = (r & ~7) + 4;
+    const cg = (g & ~7) + 4;
+    const cb = (b & ~7) + 4;
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < colors; i++) {
+      const dr = palette[3 * i] - cr;
+      const dg = palette[3 * i + 1] - cg;
+      const db = palette[3 * i + 2] - cb;
+      const distance = dr * dr + dg * dg + db * db;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+      }
+    }
+    cache[bin] = best;
+    return best;
+  };
+
+  const clamp = (value: number) => (value < 0 ? 0 : value > 255 ? 255 : value | 0);
+
+  return {
+    // Palette index per pixel of a `width` × `height` RGBA image
+    index(rgba: Uint8ClampedArray, width: number, height: number, dither: DitherMode): Uint8Array {
+      const out = new Uint8Array(width * height);
+
+      if (dither === "floyd-steinberg") {
+        // Error carried into this row and the next, per channel
+        let current = new Float32Array((width + 2) * 3);
+        let next = new Float32Array((width + 2) * 3);
+        for (let y = 0; y < height; y++) {
+          for (let x = 0; x < width; x++) {
+            const p = (y * width + x) * 4;
+            const e = (x + 1) * 3;
+            const r = clamp(rgba[p] + current[e]);
+            const g = clamp(rgba[p + 1] + current[e + 1]);
+            const b = clamp(rgba[p + 2] + current[e + 2]);
+            const i = nearest(r, g, b);
+            out[y * width + x] = i;
+            const error = [r - palette[3 * i], g - palette[3 * i + 1], b - palette[3 * i + 2]];
+            for (let c = 0; c < 3; c++) {
+              current[e + 3 + c] += (error[c] * 7) / 16;
+              next[e - 3 + c] += (error[c] * 3) / 16;
+              next[e + c] += (error[c] * 5) / 16;
+              next[e + 3 + c] += error[c] / 16;
+            }
+          }
+          [current, next] = [next, current];
+          next.fill(0);
+        }
+        return out;
+      }
+
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const p = (y * width + x) * 4;
+          const offset = dither === "ordered" ? BAYER[(y & 3) * 4 + (x & 3)] * ORDERED_SPREAD : 0;
+          out[y * width + x] = nearest(
+            clamp(rgba[p] + offset),
+            clamp(rgba[p + 1] + offset),
+            clamp(rgba[p + 2] + offset),
+          );
+        }
+      }
+      return out;
+    },
+  };
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { parseSimulationFile } from "@/lib/export/simulation-import";
+import { buildTrajectoryTable, encodeTrajectory } from "@/lib/export/trajectory-export";
+import type { PendulumConfig } from "@/lib/physics/types";
+
+const CONFIG: PendulumConfig = { lengths: [1, 1.5], masses: [2, 3], gravity: 9.81 };
+
+const parseJson = (value: unknown, links = 2) => parseSimulationFile("setup.json", JSON.stringify(value), links);
+
+describe("parseSimulationFile: JSON snapshots", () => {
+  it("reads a config, state and damping", () => {
+    const damping = { models: ["viscous"], viscous: 0.5, quadratic: 0.1, joint: [0.5, 0.5], coulomb: 1 };
+    const state = { angles: [1, 2], velocities: [0, 0] };
+    expect(parseJson({ config: CONFIG, state, damping })).toEqual({
+      ok: true,
+      simulation: { config: CONFIG, state, damping },
+    });
+  });
+
+  it("names every field that is out of range or malformed", () => {
+    const result = parseJson({ config: { ...CONFIG, lengths: [1, 9], gravity: "high" } });
+    expect(result).toEqual({
+      ok: false,
+      errors: ["config.lengths[1] must be between 0.2 and 2.5 m (got 9)", "config.gravity must be a number"],
+    });
+  });
+
+  it("reports lists that disagree in length", () => {
+    const result = parseJson({ config: { ...CONFIG, masses: [2] } });
+    expect(result).toEqual({ ok: false, errors: ["config.masses has 1 entries but there are 2 lengths"] });
+  });
+
+  it("rejects JSON that isn't a simulation", () => {
+    expect(parseJson({ hello: 1 })).toEqual({ ok: false, errors: [expect.stringContaining("Expected config")] });
+    expect(parseSimulationFile("setup.json", "{oops", 2)).toEqual({
+      ok: false,
+      errors: [expect.stringMatching(/^Not valid JSON/)],
+    });
+  });
+});
+
+describe("parseSimulationFile: link counts", () => {
+  it("holds a state to the current chain when the file has no config", () => {
+    expect(parseJson({ state: { angles: [1, 2, 3], velocities: [0, 0, 0] } }, 2)).toEqual({
+      ok: false,
+      errors: ["The state has 3 links but the current pendulum has 2"],
+    });
+    expect(parseJson({ state: { angles: [1, 2, 3], velocities: [0, 0, 0] } }, 3).ok).toBe(true);
+  });
+
+  it("holds a state to the imported config when there is one", () => {
+    const result = parseJson({ config: CONFIG, state: { angles: [1], velocities: [0] } }, 1);
+    expect(result).toEqual({ ok: false, errors: ["The state has 1 link but the imported config has 2"] });
+  });
+
+  it("holds a trajectory to the chain too", () => {
+    const result = parseJson({ columns: ["t", "θ1", "ω1"], rows: [[0, 1, 0], [1, 2, 0]] }, 2);
+    expect(result).toEqual({ ok: false, errors: ["The trajectory has 1 link but the current pendulum has 2"] });
+  });
+});
+
+describe("parseSimulationFile: CSV", () => {
+  it("reads a one-row snapshot by column name", () => {
+    const csv = "length1,length2,mass1,mass2,gravity,theta1,theta2,omega1,omega2\n1,1.5,2,3,9.81,0.5,-0.5,0,1\n";
+    expect(parseSimulationFile("snapshot.csv", csv, 2)).toEqual({
+      ok: true,
+      simulation: { config: CONFIG, state: { angles: [0.5, -0.5], velocities: [0, 1] } },
+    });
+  });
+
+  it("names the column of a bad value", () => {
+    const csv = "gravity,length1\n9.81,7\n";
+    expect(parseSimulationFile("snapshot.csv", csv, 1)).toEqual({
+      ok: false,
+      errors: ["length1 must be between 0.2 and 2.5 m (got 7)", "mass columns is missing"],
+    });
+  });
+
+  it("rejects unknown columns", () => {
+    expect(parseSimulationFile("snapshot.csv", "gravity,colour\n9.81,red\n", 2)).toEqual({
+      ok: false,
+      errors: ["Unknown columns: colour"],
+    });
+  });
+});
+
+describe("parseSimulationFile: exported trajectories", () => {
+  const samples = [0, 1, 2].map((time) => ({ time, angles: [time, 0.5 - time], velocities: [1, 2] }));
+  const metadata = { config: CONFIG, damping: null, integrator: "rk4" as const, tolerance: null, dt: 0.001, sampleInterval: 1 };
+  const table = buildTrajectoryTable(samples, () => CONFIG, 2);
+
+  it.each(["csv", "json"] as const)("reads back its own %s export", async (format) => {
+    const text = await encodeTrajectory(table, metadata, format).text();
+    expect(parseSimulationFile(`run.${format}`, text, 2)).toEqual({
+      ok: true,
+      simulation: { config: CONFIG, damping: null, trajectory: samples },
+    });
+  });
+
+  it("still reads the theta/omega columns of earlier exports", () => {
+    const csv = "t,theta1,omega1\n0,1,0\n0.5,1.1,0.2\n";
+    const result = parseSimulationFile("old.csv", csv, 1);
+    expect(result.ok && result.simulation.trajectory).toEqual([
+      { time: 0, angles: [1], velocities: [0] },
+      { time: 0.5, angles: [1.1], velocities: [0.2] },
+    ]);
+  });
+
+  it("lists missing columns and bad rows", () => {
+    expect(parseSimulationFile("run.csv", "t,θ1\n0,1\n1,2\n", 1)).toEqual({
+      ok: false,
+      errors: ["The ω1 column is missing"],
+    });
+    expect(parseSimulationFile("run.csv", "t,θ1,ω1\n0,1,0\n0,x,0\n", 1)).toEqual({
+      ok: false,
+      errors: ["Row 2: θ1 is not a number", "Row 2: t must increase (got 0 after 0)"],
+    });
+  });
+});
@@ -0,0 +1,256 @@
+import { z } from "zod";
+import { configSchema, dampingSchema, describeIssues, formatPath, stateSchema } from "@/lib/physics/schema";
+import type { DampingConfig, PendulumConfig, PendulumState, StateSample } from "@/lib/physics/types";
+
+// What a dropped file sets; anything absent stays as it is
+export interface ImportedSimulation {
+  config?: PendulumConfig;
+  state?: PendulumState;
+  // null when the file records an undamped run
+  damping?: DampingConfig | null;
+  // a prerecorded run in time order, for playback
+  trajectory?: StateSample[];
+}
+
+export type ImportResult = { ok: true; simulation: ImportedSimulation } | { ok: false; errors: string[] };
+
+// Row problems listed before the rest are summed up
+const MAX_ROW_ERRORS = 5;
+
+type Path = (string | number)[];
+
+const failure = (...errors: string[]): ImportResult => ({ ok: false, errors });
+
+/**
+ * Columns of a one-row CSV snapshot. Indexed columns count links from 1
+ * (length1, theta2, …); `dampingModels` lists models separated by spaces or semicolons.
+ */
+const SNAPSHOT_COLUMNS: { column: string; path: Path; indexed?: boolean }[] = [
+  { column: "length", path: ["config", "lengths"], indexed: true },
+  { column: "mass", path: ["config", "masses"], indexed: true },
+  { column: "gravity", path: ["config", "gravity"] },
+  { column: "driveAxis", path: ["config", "drive", "axis"] },
+  { column: "driveAmplitude", path: ["config", "drive", "amplitude"] },
+  { column: "driveFrequency", path: ["config", "drive", "frequency"] },
+  { column: "driveTorque", path: ["config", "drive", "torque"] },
+  { column: "driveTorqueFrequency", path: ["config", "drive", "torqueFrequency"] },
+  { column: "theta", path: ["state", "angles"], indexed: true },
+  { column: "omega", path: ["state", "velocities"], indexed: true },
+  { column: "dampingModels", path: ["damping", "models"] },
+  { column: "viscous", path: ["damping", "viscous"] },
+  { column: "quadratic", path: ["damping", "quadratic"] },
+  { column: "joint", path: ["damping", "joint"], indexed: true },
+  { column: "coulomb", path: ["damping", "coulomb"] },
+];
+
+const snapshotSchema = z.object({
+  config: configSchema.optional(),
+  state: stateSchema.optional(),
+  damping: dampingSchema.optional(),
+});
+
+const trajectoryMetadataSchema = z.object({
+  config: configSchema.optional(),
+  damping: dampingSchema.nullable().optional(),
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Shown for a path inside a CSV snapshot: the column it came from
+function snapshotColumnName(path: Path): string | undefined {
+  for (const { column, path: prefix, indexed } of SNAPSHOT_COLUMNS) {
+    if (!prefix.every((key, i) => path[i] === key)) continue;
+    const index = path[prefix.length];
+    if (indexed && typeof index === "number") return `${column}${index + 1}`;
+    return indexed ? `${column} columns` : column;
+  }
+  return undefined;
+}
+
+const linkCount = (links: number) => (links === 1 ? "1 link" : `${links} links`);
+
+// States must fit the chain they will run on: the imported config's, or else the current one
+function checkLinks(simulation: ImportedSimulation, links: number): string[] {
+  const expected = simulation.config?.lengths.length ?? links;
+  const source = simulation.config ? "the imported config" : "the current pendulum";
+  const errors: string[] = [];
+  if (simulation.state && simulation.state.angles.length !== expected) {
+    errors.push(`The state has ${linkCount(simulation.state.angles.length)} but ${source} has ${expected}`);
+  }
+  const recorded = simulation.trajectory?.[0]?.angles.length;
+  if (recorded !== undefined && recorded !== expected) {
+    errors.push(`The trajectory has ${linkCount(recorded)} but ${source} has ${expected}`);
+  }
+  return errors;
+}
+
+function parseSnapshot(value: unknown, name?: (path: Path) => string | undefined): ImportResult {
+  if (!isRecord(value) || !("config" in value || "state" in value || "damping" in value)) {
+    return failure("Expected config, state or damping, or a trajectory's columns and rows");
+  }
+  const parsed = snapshotSchema.safeParse(value);
+  if (!parsed.success) return failure(...describeIssues(parsed.error, name));
+  return { ok: true, simulation: parsed.data };
+}
+
+/**
+ * A run as exported: a `t` column, then θ1…θN and ω1…ωN among any others, one
+ * row per sample; theta1 and omega1 as spelled by earlier exports work too.
+ * `metadata` may carry the config and damping.
+ */
+function parseTrajectory(columns: string[], rows: unknown[][], metadata: unknown): ImportResult {
+  const find = (column: string) => columns.indexOf(column);
+  const findEither = (symbol: string, word: string, i: number) => {
+    const index = find(`${symbol}${i}`);
+    return index >= 0 ? index : find(`${word}${i}`);
+  };
+  const angleColumn = (i: number) => findEither("θ", "theta", i);
+  const velocityColumn = (i: number) => findEither("ω", "omega", i);
+  let links = 0;
+  while (angleColumn(links + 1) >= 0) links++;
+
+  const errors: string[] = [];
+  if (find("t") < 0) errors.push("The t column is missing");
+  if (links === 0) errors.push("The θ1 column is missing");
+  for (let i = 1; i <= links; i++) {
+    if (velocityColumn(i) < 0) errors.push(`The ω${i} column is missing`);
+  }
+  if (rows.length === 0) errors.push("There are no rows");
+  if (errors.length > 0) return failure(...errors);
+
+  const timeColumn = find("t");
+  const angleColumns = Array.from({ length: links }, (_, i) => angleColumn(i + 1));
+  const velocityColumns = Array.from({ length: links }, (_, i) => velocityColumn(i + 1));
+  const trajectory: StateSample[] = [];
+  let badRows = 0;
+
+  rows.forEach((row, r) => {
+    const cell = (column: number) => {
+      const value = row[column];
+      if (typeof value === "number" && Number.isFinite(value)) return value;
+      badRows++;
+      if (badRows <= MAX_ROW_ERRORS) errors.push(`Row ${r + 1}: ${columns[column]} is not a number`);
+      return NaN;
+    };
+    const sample = {
+      time: cell(timeColumn),
+      angles: angleColumns.map(cell),
+      velocities: velocityColumns.map(cell),
+    };
+    const previous = trajectory[trajectory.length - 1];
+    if (previous && sample.time <= previous.time) {
+      badRows++;
+      if (badRows <= MAX_ROW_ERRORS) {
+        errors.push(`Row ${r + 1}: t must increase (got ${sample.time} after ${previous.time})`);
+      }
+    }
+    trajectory.push(sample);
+  });
+  if (badRows > MAX_ROW_ERRORS) errors.push(`…and ${badRows - MAX_ROW_ERRORS} more problems in the rows`);
+
+  const described = trajectoryMetadataSchema.safeParse(isRecord(metadata) ? metadata : {});
+  if (!described.success) {
+    errors.push(...describeIssues(described.error, (path) => formatPath(["metadata", ...path])));
+  }
+  if (errors.length > 0 || !described.success) return failure(...errors);
+  return { ok: true, simulation: { ...described.data, trajectory } };
+}
+
+function parseJson(text: string): ImportResult {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    return failure(`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (isRecord(value) && ("rows" in value || "columns" in value)) {
+    const { columns, rows, metadata } = value;
+    if (!Array.isArray(columns) || !columns.every((column) => typeof column === "string")) {
+      return failure("columns must be a list of column names");
+    }
+    if (!Array.isArray(rows) || !rows.every(Array.isArray)) {
+      return failure("rows must be a list of rows, each a list of numbers");
+    }
+    return parseTrajectory(columns, rows, metadata);
+  }
+  return parseSnapshot(value);
+}
+
+// Numbers where they parse; strings are left for the schema to reject with a clear message
+function parseCell(column: string, cell: string | undefined): unknown {
+  if (column === "dampingModels") return (cell ?? "").split(/[\s;|]+/).filter(Boolean);
+  if (cell === undefined || cell === "") return undefined;
+  if (column === "driveAxis") return cell;
+  const value = Number(cell);
+  return Number.isNaN(value) ? cell : value;
+}
+
+function parseCsv(text: string): ImportResult {
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+  // Exports put their metadata as JSON on a leading comment line
+  let metadata: unknown;
+  while (lines[0]?.startsWith("#")) {
+    const comment = lines.shift()!.slice(1).trim();
+    if (metadata === undefined && comment.startsWith("{")) {
+      try {
+        metadata = JSON.parse(comment);
+      } catch {
+        // Just a comment
+      }
+    }
+  }
+  const split = (line: string) => line.split(",").map((cell) => cell.trim().replace(/^"(.*)"$/, "$1"));
+  const [header, ...body] = lines.map(split);
+  if (!header) return failure("The file is empty");
+  const rows = body.map((cells) => cells.map((cell) => (cell === "" ? undefined : Number(cell))));
+
+  if (header.includes("t") && rows.length > 1) return parseTrajectory(header, rows, metadata);
+  if (rows.length !== 1) {
+    return failure(
+      rows.length === 0
+        ? "There is a header but no values"
+        : "Several rows make a trajectory, which needs a t column",
+    );
+  }
+
+  // A single row of named values
+  const value: Record<string, unknown> = {};
+  const unknown: string[] = [];
+  header.forEach((column, i) => {
+    const cell = body[0][i];
+    const entry = SNAPSHOT_COLUMNS.find((candidate) =>
+      candidate.indexed
+        ? new RegExp(`^${candidate.column}\\d+$`).test(column)
+        : candidate.column === column,
+    );
+    if (!entry) {
+      if (column !== "t") unknown.push(column);
+      return;
+    }
+    const path = entry.indexed ? [...entry.path, Number(column.slice(entry.column.length)) - 1] : entry.path;
+    let target = value;
+    path.slice(0, -1).forEach((key, depth) => {
+      const next = path[depth + 1];
+      target[key] ??= typeof next === "number" ? [] : {};
+      target = target[key] as Record<string, unknown>;
+    });
+    target[path[path.length - 1]] = parseCell(entry.column, cell);
+  });
+  if (unknown.length > 0) return failure(`Unknown columns: ${unknown.join(", ")}`);
+  return parseSnapshot(value, snapshotColumnName);
+}
+
+/**
+ * Read an imported file: a JSON snapshot `{config?, state?, damping?}`, a
+ * one-row CSV of named values, or a trajectory as the exporter writes it in
+ * JSON or CSV. `links` is the current chain's, for files that carry no config.
+ */
+export function parseSimulationFile(filename: string, text: string, links: number): ImportResult {
+  const extension = filename.toLowerCase().split(".").pop();
+  const json = extension === "json" || (extension !== "csv" && /^\s*[{[]/.test(text));
+  const result = json ? parseJson(text) : parseCsv(text);
+  if (!result.ok) return result;
+  const errors = checkLinks(result.simulation, links);
+  return errors.length > 0 ? failure(...errors) : result;
+}
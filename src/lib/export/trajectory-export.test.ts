@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { getEnergies, getPositions } from "@/lib/physics/engine";
+import type { PendulumConfig, StateSample } from "@/lib/physics/types";
+import { buildTrajectoryTable, encodeTrajectory, trajectoryColumns, type TrajectoryMetadata } from "@/lib/export/trajectory-export";
+
+const SHORT: PendulumConfig = { lengths: [1, 1], masses: [1, 1], gravity: 9.81 };
+const LONG: PendulumConfig = { lengths: [2, 0.5], masses: [3, 1], gravity: 9.81 };
+
+const SAMPLES: StateSample[] = [
+  { time: 0, angles: [0.5, -0.5], velocities: [1, 0] },
+  { time: 1, angles: [0.2, 0.4], velocities: [0, 2] },
+];
+
+const METADATA: TrajectoryMetadata = {
+  config: LONG,
+  damping: null,
+  integrator: "rk4",
+  tolerance: null,
+  dt: 0.001,
+  sampleInterval: 1 / 60,
+};
+
+describe("trajectoryColumns", () => {
+  it("names the columns as t, θ, ω, positions and energies", () => {
+    expect(trajectoryColumns(2).columns).toEqual(["t", "θ1", "θ2", "ω1", "ω2", "x1", "y1", "x2", "y2", "KE", "PE", "E"]);
+  });
+});
+
+describe("buildTrajectoryTable", () => {
+  it("computes each row with the chain in force at its time", () => {
+    // lengths and masses changed between the two samples
+    const table = buildTrajectoryTable(SAMPLES, (time) => (time < 0.5 ? SHORT : LONG), 2);
+    expect(table.rows).toBe(2);
+
+    SAMPLES.forEach((sample, row) => {
+      const config = row === 0 ? SHORT : LONG;
+      const values = Array.from(table.data.subarray(row * 12, (row + 1) * 12));
+      const positions = getPositions(sample, config).flatMap(({ x, y }) => [x, y]);
+      const { kinetic, potential } = getEnergies(sample, config);
+      expect(values).toEqual([
+        sample.time,
+        ...sample.angles,
+        ...sample.velocities,
+        ...positions,
+        kinetic,
+        potential,
+        kinetic + potential,
+      ]);
+    });
+  });
+
+  it("skips samples from a chain of another length", () => {
+    const table = buildTrajectoryTable([...SAMPLES, { time: 2, angles: [1], velocities: [0] }], () => SHORT, 2);
+    expect(table.rows).toBe(2);
+  });
+});
+
+describe("encodeTrajectory", () => {
+  it("writes CSV with the metadata on a comment line", async () => {
+    const table = buildTrajectoryTable(SAMPLES, () => LONG, 2);
+    const [comment, header, first] = (await encodeTrajectory(table, METADATA, "csv").text()).split("\n");
+    expect(JSON.parse(comment.slice(2))).toMatchObject({ integrator: "rk4", dt: 0.001, samples: 2 });
+    expect(header).toBe(table.columns.join(","));
+    expect(first.split(",").map(Number)).toEqual(Array.from(table.data.subarray(0, 12)));
+  });
+
+  it("writes JSON rows at full precision", async () => {
+    const table = buildTrajectoryTable(SAMPLES, () => LONG, 2);
+    const json = JSON.parse(await encodeTrajectory(table, METADATA, "json").text());
+    expect(json.columns).toEqual(table.columns);
+    expect(json.rows[1]).toEqual(Array.from(table.data.subarray(12, 24)));
+    expect(json.metadata.config).toEqual(LONG);
+  });
+});
@@ -0,0 +1,159 @@
+import { getEnergies, getPositions } from "@/lib/physics/engine";
+import type { IntegratorId } from "@/lib/physics/integrators";
+import type { DampingConfig, PendulumConfig, StateSample } from "@/lib/physics/types";
+import { encodeNpyFloat64, encodeNpyStrings } from "./npy";
+import { createZip } from "./zip";
+
+export type ExportFormat = "csv" | "json" | "npy" | "npz";
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; description: string }[] = [
+  { id: "csv", label: "CSV", description: "One row per sample; metadata as JSON on the first (# comment) line" },
+  { id: "json", label: "JSON", description: "Metadata, column names and rows in one document" },
+  { id: "npy", label: "NumPy .npy", description: "The bare float64 array for np.load, columns in the order below" },
+  { id: "npz", label: "NumPy .npz", description: "trajectory, columns and metadata arrays for np.load" },
+];
+
+// How the run was produced; exported alongside the numbers
+export interface TrajectoryMetadata {
+  config: PendulumConfig;
+  damping: DampingConfig | null;
+  integrator: IntegratorId;
+  // error tolerance, for adaptive integrators only
+  tolerance: number | null;
+  // physics step, seconds
+  dt: number;
+  // simulated seconds between exported samples
+  sampleInterval: number;
+}
+
+// Samples as a row-major table of `columns`
+export interface TrajectoryTable {
+  columns: string[];
+  units: string[];
+  rows: number;
+  data: Float64Array;
+}
+
+/**
+ * Column names for a chain of `links`: t, θ1…θN, ω1…ωN, bob positions, then
+ * kinetic, potential and total energy.
+ */
+export function trajectoryColumns(links: number): { columns: string[]; units: string[] } {
+  const range = Array.from({ length: links }, (_, i) => i + 1);
+  return {
+    columns: [
+      "t",
+      ...range.map((i) => `θ${i}`),
+      ...range.map((i) => `ω${i}`),
+      ...range.flatMap((i) => [`x${i}`, `y${i}`]),
+      "KE",
+      "PE",
+      "E",
+    ],
+    units: [
+      "s",
+      ...range.map(() => "rad"),
+      ...range.map(() => "rad/s"),
+      ...range.flatMap(() => ["m", "m"]),
+      "J",
+      "J",
+      "J",
+    ],
+  };
+}
+
+/**
+ * The samples with their positions and energies. `configAt` gives the chain
+ * each sample was recorded with, which can change during a run.
+ */
+export function buildTrajectoryTable(
+  samples: StateSample[],
+  configAt: (time: number) => PendulumConfig,
+  links: number,
+): TrajectoryTable {
+  const { columns, units } = trajectoryColumns(links);
+  const usable = samples.filter((sample) => sample.angles.length === links);
+  const data = new Float64Array(usable.length * columns.length);
+
+  usable.forEach((sample, row) => {
+    const config = configAt(sample.time);
+    let o = row * columns.length;
+    data[o++] = sample.time;
+    sample.angles.forEach((angle) => (data[o++] = angle));
+    sample.velocities.forEach((velocity) => (data[o++] = velocity));
+    getPositions(sample, config, undefined, 1, sample.time).forEach(({ x, y }) => {
+      data[o++] = x;
+      data[o++] = y;
+    });
+    const { kinetic, potential } = getEnergies(sample, config, sample.time);
+    data[o++] = kinetic;
+    data[o++] = potential;
+    data[o++] = kinetic + potential;
+  });
+
+  return { columns, units, rows: usable.length, data };
+}
+
+function describe(table: TrajectoryTable, metadata: TrajectoryMetadata) {
+  return {
+    ...metadata,
+    exportedAt: new Date().toISOString(),
+    samples: table.rows,
+    columns: table.columns,
+    units: Object.fromEntries(table.columns.map((column, i) => [column, table.units[i]])),
+    conventions:
+      "Angles from the downward vertical. Positions relative to the pivot's rest position, x to the right, y downwards.",
+  };
+}
+
+function rowValues(table: TrajectoryTable, row: number): number[] {
+  const width = table.columns.length;
+  return Array.from(table.data.subarray(row * width, (row + 1) * width));
+}
+
+/**
+ * The table in `format`, ready to download. Numbers are written at full
+ * double precision in every format.
+ */
+export function encodeTrajectory(
+  table: TrajectoryTable,
+  metadata: TrajectoryMetadata,
+  format: ExportFormat,
+): Blob {
+  const header = describe(table, metadata);
+  const shape = [table.rows, table.columns.length];
+
+  switch (format) {
+    case "csv": {
+      const lines = [`# ${JSON.stringify(header)}`, table.columns.join(",")];
+      for (let row = 0; row < table.rows; row++) lines.push(rowValues(table, row).join(","));
+      return new Blob([lines.join("\n") + "\n"], { type: "text/csv" });
+    }
+    case "json": {
+      const rows = Array.from({ length: table.rows }, (_, row) => rowValues(table, row));
+      return new Blob([JSON.stringify({ metadata: header, columns: table.columns, rows })], {
+        type: "application/json",
+      });
+    }
+    case "npy":
+      return new Blob([encodeNpyFloat64(table.data, shape) as BlobPart], { type: "application/octet-stream" });
+    case "npz":
+      // .npy headers only allow descr, fortran_order and shape, so metadata travels as its own array
+      return createZip([
+        { name: "trajectory.npy", data: encodeNpyFloat64(table.data, shape) },
+        { name: "columns.npy", data: encodeNpyStrings(table.columns) },
+        { name: "metadata.npy", data: encodeNpyStrings([JSON.stringify(header)], []) },
+      ]);
+  }
+}
+
+// Hand a blob to the browser as a file download
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking straight away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
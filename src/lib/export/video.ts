@@ -0,0 +1,256 @@
+import { integrateTo } from "@/lib/physics/engine";
+import { createIntegrator, type IntegratorId } from "@/lib/physics/integrators";
+import type { DampingConfig, PendulumConfig, PendulumState } from "@/lib/physics/types";
+import { resizeCamera } from "@/lib/render/camera";
+import type { CanvasRenderer } from "@/lib/render/canvas-renderer";
+import { PendulumRenderer, type RenderScene } from "@/lib/render/pendulum-renderer";
+import { createWebmMuxer, type WebmCodec } from "./webm";
+
+// "live" captures the canvas as it plays; "exact" renders every frame at its exact simulated time
+export type VideoMode = "live" | "exact";
+
+export interface VideoSettings {
+  width: number;
+  height: number;
+  frameRate: number;
+  // seconds of video
+  duration: number;
+  mode: VideoMode;
+  // energy readout and phase portraits drawn into the frames
+  overlays: boolean;
+}
+
+export const VIDEO_RESOLUTIONS = [
+  { label: "640 × 480", width: 640, height: 480 },
+  { label: "1280 × 960", width: 1280, height: 960 },
+  { label: "1280 × 720 (HD)", width: 1280, height: 720 },
+  { label: "1920 × 1080 (Full HD)", width: 1920, height: 1080 },
+];
+export const VIDEO_FRAME_RATES = [24, 30, 60];
+export const MAX_VIDEO_DURATION = 120; // s
+
+// How the exact mode simulates: the same settings the physics worker runs with
+export interface VideoPhysics {
+  config: PendulumConfig;
+  damping?: DampingConfig;
+  integrator: IntegratorId;
+  tolerance: number;
+  // longest physics step, seconds
+  step: number;
+}
+
+// Seconds between keyframes, so the result seeks quickly
+const KEYFRAME_INTERVAL = 2;
+// Frames the encoder may queue before rendering waits for it
+const MAX_ENCODE_QUEUE = 4;
+const MIME_TYPES = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"];
+const ENCODER_CODECS: [WebmCodec, string][] = [
+  ["V_VP9", "vp09.00.51.08"],
+  ["V_VP8", "vp8"],
+];
+
+const nextTask = (delay = 0) => new Promise((resolve) => setTimeout(resolve, delay));
+
+// About 0.1 bit per pixel per frame, which keeps thin trails crisp, capped at 8 Mbit/s
+const bitrate = ({ width, height, frameRate }: VideoSettings) =>
+  Math.min(8_000_000, Math.round(width * height * frameRate * 0.1));
+
+export function supportsLiveVideo(): boolean {
+  return typeof MediaRecorder !== "undefined" && typeof HTMLCanvasElement.prototype.captureStream === "function";
+}
+
+export function supportsExactVideo(): boolean {
+  return typeof VideoEncoder !== "undefined" || supportsLiveVideo();
+}
+
+/**
+ * A canvas of the video's size with a renderer that shows the same view as the
+ * page's camera, scaled to fit. `now` ages the trails, as in PendulumRenderer.
+ */
+export function createVideoCanvas(
+  settings: { width: number; height: number; overlays: boolean },
+  now?: () => number,
+) {
+  const canvas = document.createElement("canvas");
+  canvas.width = settings.width;
+  canvas.height = settings.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("This browser can't draw the video frames");
+  const pendulum = new PendulumRenderer(ctx, now);
+  const renderer: CanvasRenderer = {
+    setScene: (scene) =>
+      pendulum.setScene({
+        ...scene,
+        camera: resizeCamera(scene.camera, settings.width, settings.height),
+        overlays: settings.overlays,
+      }),
+    pushFrame: (frame) => pendulum.pushFrame(frame),
+    clearTrails: () => pendulum.clearTrails(),
+  };
+  return { canvas, ctx, renderer };
+}
+
+function startMediaRecorder(stream: MediaStream, settings: VideoSettings) {
+  const mimeType = MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: bitrate(settings) });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  recorder.start(1000);
+  return {
+    stop: () =>
+      new Promise<Blob>((resolve) => {
+        recorder.onstop = () => {
+          stream.getTracks().forEach((track) => track.stop());
+          resolve(new Blob(chunks, { type: recorder.mimeType || "video/webm" }));
+        };
+        recorder.stop();
+      }),
+  };
+}
+
+export interface LiveVideo {
+  // feed it the frames and scenes the page draws
+  renderer: CanvasRenderer;
+  // resolves with the video once the duration is up or `stop` is called
+  done: Promise<Blob>;
+  stop(): void;
+}
+
+/**
+ * Record whatever is pushed into `renderer` for `settings.duration` wall-clock
+ * seconds with MediaRecorder. Frames the page drops are missing from the video too.
+ */
+export function startLiveVideo(settings: VideoSettings): LiveVideo {
+  const { canvas, renderer } = createVideoCanvas(settings);
+  const recording = startMediaRecorder(canvas.captureStream(settings.frameRate), settings);
+
+  let resolveDone: (blob: Promise<Blob>) => void = () => {};
+  const done = new Promise<Blob>((resolve) => (resolveDone = resolve));
+  let stopped = false;
+  const stop = () => {
+    if (stopped) return;
+    stopped = true;
+    clearTimeout(timer);
+    resolveDone(recording.stop());
+  };
+  const timer = setTimeout(stop, settings.duration * 1000);
+  return { renderer, done, stop };
+}
+
+async function findEncoderConfig(settings: VideoSettings) {
+  if (typeof VideoEncoder === "undefined") return null;
+  for (const [webm, codec] of ENCODER_CODECS) {
+    const config: VideoEncoderConfig = {
+      codec,
+      width: settings.width,
+      height: settings.height,
+      bitrate: bitrate(settings),
+      framerate: settings.frameRate,
+    };
+    const { supported } = await VideoEncoder.isConfigSupported(config).catch(() => ({ supported: false }));
+    if (supported) return { webm, config };
+  }
+  return null;
+}
+
+export interface ExactVideoOptions {
+  settings: VideoSettings;
+  scene: RenderScene;
+  state: PendulumState;
+  time: number;
+  physics: VideoPhysics;
+  // simulated seconds per second of video, and direction
+  timeScale: number;
+  reverse: boolean;
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Simulate on from `state` and render each frame at exactly its simulated
+ * time, however long that takes, so the video is smooth even where live
+ * playback would stutter. Encodes with WebCodecs where available; otherwise
+ * MediaRecorder takes the frames paced in real time. Resolves with null when aborted.
+ */
+export async function renderExactVideo(options: ExactVideoOptions): Promise<Blob | null> {
+  const { settings, scene, physics, signal } = options;
+  const frames = Math.max(1, Math.round(settings.duration * settings.frameRate));
+  const interval = ((options.reverse ? -1 : 1) * options.timeScale) / settings.frameRate;
+  const integrator = createIntegrator(physics.integrator);
+
+  let videoTime = 0; // ms, for the trails
+  const { canvas, renderer } = createVideoCanvas(settings, () => videoTime);
+  renderer.setScene(scene);
+  let state = options.state;
+  const drawFrame = (k: number) => {
+    const time = options.time + k * interval;
+    if (k > 0) {
+      state = integrateTo(state, physics.config, time, physics.step, {
+        time: time - interval,
+        damping: physics.damping,
+        integrator,
+        tolerance: physics.tolerance,
+      });
+    }
+    videoTime = (k * 1000) / settings.frameRate;
+    renderer.pushFrame({ state, time, ensemble: null, ensembleTime: 0, trail: true });
+    options.onProgress?.((k + 1) / frames);
+  };
+
+  const encoder = await findEncoderConfig(settings);
+  if (!encoder) {
+    const stream = canvas.captureStream(0);
+    const [track] = stream.getVideoTracks() as CanvasCaptureMediaStreamTrack[];
+    const recording = startMediaRecorder(stream, settings);
+    const start = performance.now();
+    for (let k = 0; k < frames; k++) {
+      if (signal?.aborted) break;
+      drawFrame(k);
+      track.requestFrame();
+      await nextTask(start + ((k + 1) * 1000) / settings.frameRate - performance.now());
+    }
+    const blob = await recording.stop();
+    return signal?.aborted ? null : blob;
+  }
+
+  const muxer = createWebmMuxer({
+    codec: encoder.webm,
+    width: settings.width,
+    height: settings.height,
+    frameRate: settings.frameRate,
+  });
+  let failure: unknown = null;
+  const videoEncoder = new VideoEncoder({
+    output: (chunk) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      muxer.addFrame(data, chunk.timestamp, chunk.type === "key");
+    },
+    error: (error) => (failure = error),
+  });
+  videoEncoder.configure(encoder.config);
+
+  try {
+    for (let k = 0; k < frames; k++) {
+      if (signal?.aborted) return null;
+      if (failure) throw failure;
+      drawFrame(k);
+      const frame = new VideoFrame(canvas, {
+        timestamp: Math.round((k * 1e6) / settings.frameRate),
+        duration: Math.round(1e6 / settings.frameRate),
+      });
+      videoEncoder.encode(frame, { keyFrame: k % (KEYFRAME_INTERVAL * settings.frameRate) === 0 });
+      frame.close();
+      // Yield so the page repaints its progress and the encoder drains
+      do await nextTask();
+      while (videoEncoder.encodeQueueSize > MAX_ENCODE_QUEUE);
+    }
+    await videoEncoder.flush();
+    if (failure) throw failure;
+    return muxer.finish();
+  } finally {
+    if (videoEncoder.state !== "closed") videoEncoder.close();
+  }
+}
@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import { createWebmMuxer } from "@/lib/export/webm";
+
+interface Element {
+  id: number;
+  // offset of the element's first byte, and of its payload
+  start: number;
+  dataStart: number;
+  data: Uint8Array;
+  children: Element[];
+}
+
+const MASTERS = new Set([
+  0x1a45dfa3, 0x18538067, 0x114d9b74, 0x4dbb, 0x1549a966, 0x1654ae6b, 0xae, 0xe0, 0x1f43b675, 0x1c53bb6b, 0xbb, 0xb7,
+]);
+
+// A variable-length integer; IDs keep their marker bit, sizes drop it
+function vint(bytes: Uint8Array, at: number, keepMarker: boolean) {
+  let width = 1;
+  while (!(bytes[at] & (0x80 >> (width - 1)))) width++;
+  let value = keepMarker ? bytes[at] : bytes[at] & (0xff >> width);
+  for (let i = 1; i < width; i++) value = value * 256 + bytes[at + i];
+  return { value, width };
+}
+
+// Parse `bytes` as EBML elements, checking every size adds up exactly
+function parse(bytes: Uint8Array, from = 0, to = bytes.length): Element[] {
+  const elements: Element[] = [];
+  let at = from;
+  while (at < to) {
+    const id = vint(bytes, at, true);
+    const size = vint(bytes, at + id.width, false);
+    const dataStart = at + id.width + size.width;
+    const end = dataStart + size.value;
+    expect(end).toBeLessThanOrEqual(to);
+    elements.push({
+      id: id.value,
+      start: at,
+      dataStart,
+      data: bytes.subarray(dataStart, end),
+      children: MASTERS.has(id.value) ? parse(bytes, dataStart, end) : [],
+    });
+    at = end;
+  }
+  return elements;
+}
+
+const child = (element: Element, id: number) => element.children.find((candidate) => candidate.id === id)!;
+const all = (element: Element, id: number) => element.children.filter((candidate) => candidate.id === id);
+const uint = (element: Element) => element.data.reduce((value, byte) => value * 256 + byte, 0);
+const text = (element: Element) => new TextDecoder().decode(element.data);
+
+async function mux(frames: [timestamp: number, keyframe: boolean, size?: number][]) {
+  const muxer = createWebmMuxer({ codec: "V_VP9", width: 640, height: 360, frameRate: 30 });
+  frames.forEach(([timestamp, keyframe, size = 10], i) => muxer.addFrame(new Uint8Array(size).fill(i), timestamp, keyframe));
+  const bytes = new Uint8Array(await muxer.finish().arrayBuffer());
+  const [header, segment] = parse(bytes);
+  return { bytes, header, segment };
+}
+
+describe("createWebmMuxer", () => {
+  it("writes a WebM header and a video track", async () => {
+    const { header, segment } = await mux([[0, true]]);
+    expect(text(child(header, 0x4282))).toBe("webm");
+    const track = child(child(segment, 0x1654ae6b), 0xae);
+    expect(text(child(track, 0x86))).toBe("V_VP9");
+    expect(uint(child(track, 0x23e383))).toBe(Math.round(1e9 / 30));
+    const video = child(track, 0xe0);
+    expect([uint(child(video, 0xb0)), uint(child(video, 0xba))]).toEqual([640, 360]);
+  });
+
+  it("starts a cluster at each keyframe, with block times relative to it", async () => {
+    const { segment } = await mux([
+      [0, true],
+      [33_333, false],
+      [66_667, false],
+      [100_000, true],
+      [133_333, false],
+    ]);
+    const clusters = all(segment, 0x1f43b675);
+    expect(clusters.map((cluster) => uint(child(cluster, 0xe7)))).toEqual([0, 100]);
+    const blocks = clusters.map((cluster) =>
+      all(cluster, 0xa3).map(({ data }) => ({
+        offset: new DataView(data.buffer, data.byteOffset).getInt16(1),
+        keyframe: (data[3] & 0x80) !== 0,
+        frame: data[4],
+      })),
+    );
+    expect(blocks).toEqual([
+      [
+        { offset: 0, keyframe: true, frame: 0 },
+        { offset: 33, keyframe: false, frame: 1 },
+        { offset: 67, keyframe: false, frame: 2 },
+      ],
+      [
+        { offset: 0, keyframe: true, frame: 3 },
+        { offset: 33, keyframe: false, frame: 4 },
+      ],
+    ]);
+  });
+
+  it("splits a cluster before its block offsets overflow", async () => {
+    const { segment } = await mux([
+      [0, true],
+      [20_000_000, false],
+      [40_000_000, false],
+    ]);
+    expect(all(segment, 0x1f43b675).map((cluster) => uint(child(cluster, 0xe7)))).toEqual([0, 40_000]);
+  });
+
+  it("points the seek head and cues at their elements", async () => {
+    const { segment } = await mux([
+      [0, true],
+      [1_000_000, true],
+      [2_000_000, true, 200],
+    ]);
+    const position = (element: Element) => element.start - segment.dataStart;
+
+    const seeks = all(child(segment, 0x114d9b74), 0x4dbb).map((seek) => ({
+      id: uint(child(seek, 0x53ab)),
+      position: uint(child(seek, 0x53ac)),
+    }));
+    for (const { id, position: at } of seeks) expect(position(child(segment, id))).toBe(at);
+
+    const clusters = all(segment, 0x1f43b675);
+    const cues = all(child(segment, 0x1c53bb6b), 0xbb).map((cue) => ({
+      time: uint(child(cue, 0xb3)),
+      position: uint(child(child(cue, 0xb7), 0xf1)),
+    }));
+    expect(cues).toEqual(clusters.map((cluster) => ({ time: uint(child(cluster, 0xe7)), position: position(cluster) })));
+  });
+
+  it("records the duration up to the end of the last frame", async () => {
+    const { segment } = await mux([
+      [0, true],
+      [500_000, false],
+    ]);
+    const duration = child(child(segment, 0x1549a966), 0x4489);
+    expect(new DataView(duration.data.buffer, duration.data.byteOffset).getFloat64(0)).toBeCloseTo(500 + 1000 / 30);
+  });
+
+  it("sizes elements whose payload needs a longer size field", async () => {
+    // 4 header bytes + 123 = 127, the first payload size a one-byte field can't hold
+    const { bytes, segment } = await mux([[0, true, 123]]);
+    const [block] = all(all(segment, 0x1f43b675)[0], 0xa3);
+    expect(block.data.length).toBe(127);
+    expect(block.dataStart - block.start).toBe(3);
+    expect(segment.dataStart + segment.data.length).toBe(bytes.length);
+  });
+});
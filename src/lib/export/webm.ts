@@ -0,0 +1,199 @@
+// WebM (Matroska) muxing for one video track of encoded frames, enough for
+// players and editors to open and seek the result. Elements are EBML: an ID,
+// a variable-length size, then the payload.
+
+export type WebmCodec = "V_VP8" | "V_VP9";
+
+export interface WebmMuxer {
+  // `timestamp` in microseconds from the start of the video
+  addFrame(data: Uint8Array, timestamp: number, keyframe: boolean): void;
+  finish(): Blob;
+}
+
+const ID = {
+  EBML: 0x1a45dfa3,
+  EBMLVersion: 0x4286,
+  EBMLReadVersion: 0x42f7,
+  EBMLMaxIDLength: 0x42f2,
+  EBMLMaxSizeLength: 0x42f3,
+  DocType: 0x4282,
+  DocTypeVersion: 0x4287,
+  DocTypeReadVersion: 0x4285,
+  Segment: 0x18538067,
+  SeekHead: 0x114d9b74,
+  Seek: 0x4dbb,
+  SeekID: 0x53ab,
+  SeekPosition: 0x53ac,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  Duration: 0x4489,
+  MuxingApp: 0x4d80,
+  WritingApp: 0x5741,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackUID: 0x73c5,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  DefaultDuration: 0x23e383,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+  Cues: 0x1c53bb6b,
+  CuePoint: 0xbb,
+  CueTime: 0xb3,
+  CueTrackPositions: 0xb7,
+  CueTrack: 0xf7,
+  CueClusterPosition: 0xf1,
+};
+
+// Timestamps in the file count milliseconds
+const TIMECODE_SCALE = 1_000_000; // ns
+// Block timestamps are 16-bit offsets from their cluster's
+const MAX_CLUSTER_SPAN = 30_000; // ms
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+// Big-endian unsigned integer in `width` bytes, or as few as it needs
+function uintBytes(value: number, width = Math.max(1, Math.ceil(Math.log2(value + 1) / 8))): Uint8Array {
+  const out = new Uint8Array(width);
+  for (let i = width - 1; i >= 0; i--) {
+    out[i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+  return out;
+}
+
+const idBytes = (id: number) => uintBytes(id);
+
+// EBML variable-length size: a leading 1 bit marks how many bytes follow
+function sizeBytes(size: number): Uint8Array {
+  let width = 1;
+  while (size >= 2 ** (7 * width) - 1) width++;
+  const out = uintBytes(size, width);
+  out[0] |= 1 << (8 - width);
+  return out;
+}
+
+const element = (id: number, ...body: Uint8Array[]) => {
+  const payload = concat(body);
+  return concat([idBytes(id), sizeBytes(payload.length), payload]);
+};
+const uint = (id: number, value: number, width?: number) => element(id, uintBytes(value, width));
+const float = (id: number, value: number) => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return element(id, bytes);
+};
+const text = (id: number, value: string) => element(id, new TextEncoder().encode(value));
+
+/**
+ * Collects encoded frames (VP8 or VP9, e.g. from WebCodecs' VideoEncoder) and
+ * writes them out as a WebM file with a cue for every cluster, so the result
+ * seeks. Frames must arrive in presentation order; each keyframe starts a cluster.
+ */
+export function createWebmMuxer(options: {
+  codec: WebmCodec;
+  width: number;
+  height: number;
+  frameRate: number;
+  appName?: string;
+}): WebmMuxer {
+  const clusters: { time: number; blocks: Uint8Array[] }[] = [];
+  let duration = 0;
+
+  return {
+    addFrame(data, timestamp, keyframe) {
+      const time = Math.round(timestamp / 1000);
+      let cluster = clusters[clusters.length - 1];
+      if (!cluster || keyframe || time - cluster.time > MAX_CLUSTER_SPAN) {
+        cluster = { time, blocks: [] };
+        clusters.push(cluster);
+      }
+      // Track number (as a size-style varint), signed 16-bit time offset, flags
+      const header = new Uint8Array(4);
+      header[0] = 0x81;
+      new DataView(header.buffer).setInt16(1, time - cluster.time);
+      header[3] = keyframe ? 0x80 : 0;
+      cluster.blocks.push(element(ID.SimpleBlock, header, data));
+      duration = Math.max(duration, time + 1000 / options.frameRate);
+    },
+
+    finish() {
+      const appName = options.appName ?? "double-pendulum";
+      const header = element(
+        ID.EBML,
+        uint(ID.EBMLVersion, 1),
+        uint(ID.EBMLReadVersion, 1),
+        uint(ID.EBMLMaxIDLength, 4),
+        uint(ID.EBMLMaxSizeLength, 8),
+        text(ID.DocType, "webm"),
+        uint(ID.DocTypeVersion, 2),
+        uint(ID.DocTypeReadVersion, 2),
+      );
+      const info = element(
+        ID.Info,
+        uint(ID.TimecodeScale, TIMECODE_SCALE),
+        float(ID.Duration, duration),
+        text(ID.MuxingApp, appName),
+        text(ID.WritingApp, appName),
+      );
+      const tracks = element(
+        ID.Tracks,
+        element(
+          ID.TrackEntry,
+          uint(ID.TrackNumber, 1),
+          uint(ID.TrackUID, 1),
+          uint(ID.TrackType, 1), // video
+          text(ID.CodecID, options.codec),
+          uint(ID.DefaultDuration, Math.round(1e9 / options.frameRate)),
+          element(ID.Video, uint(ID.PixelWidth, options.width), uint(ID.PixelHeight, options.height)),
+        ),
+      );
+      const encodedClusters = clusters.map((cluster) =>
+        element(ID.Cluster, uint(ID.Timecode, cluster.time), ...cluster.blocks),
+      );
+
+      // The seek head leads the segment with fixed-width positions, so its own size is known up front
+      const seekHead = (positions: number[]) =>
+        element(
+          ID.SeekHead,
+          ...[ID.Info, ID.Tracks, ID.Cues].map((id, i) =>
+            element(ID.Seek, element(ID.SeekID, idBytes(id)), uint(ID.SeekPosition, positions[i], 8)),
+          ),
+        );
+      const seekHeadSize = seekHead([0, 0, 0]).length;
+      const infoPosition = seekHeadSize;
+      const tracksPosition = infoPosition + info.length;
+      let position = tracksPosition + tracks.length;
+      const cuePoints = encodedClusters.map((encoded, i) => {
+        const cue = element(
+          ID.CuePoint,
+          uint(ID.CueTime, clusters[i].time),
+          element(ID.CueTrackPositions, uint(ID.CueTrack, 1), uint(ID.CueClusterPosition, position)),
+        );
+        position += encoded.length;
+        return cue;
+      });
+      const cues = element(ID.Cues, ...cuePoints);
+
+      // The segment's parts go to the blob as they are rather than being copied into one array
+      const parts = [seekHead([infoPosition, tracksPosition, position]), info, tracks, ...encodedClusters, cues];
+      const segmentSize = parts.reduce((sum, part) => sum + part.length, 0);
+      return new Blob([header, idBytes(ID.Segment), sizeBytes(segmentSize), ...parts] as BlobPart[], {
+        type: "video/webm",
+      });
+    },
+  };
+}
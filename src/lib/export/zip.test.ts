@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { createZip } from "@/lib/export/zip";
+
+const encoder = new TextEncoder();
+
+// Walk the archive from its end record the way unzip does
+async function read(blob: Blob) {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let at = view.getUint32(end + 16, true);
+  const files = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(at, true)).toBe(0x02014b50);
+    const nameLength = view.getUint16(at + 28, true);
+    const offset = view.getUint32(at + 42, true);
+    const name = new TextDecoder().decode(bytes.subarray(at + 46, at + 46 + nameLength));
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    const size = view.getUint32(offset + 18, true);
+    const start = offset + 30 + view.getUint16(offset + 26, true);
+    files.push({
+      name,
+      crc: view.getUint32(offset + 14, true),
+      method: view.getUint16(offset + 8, true),
+      time: view.getUint16(offset + 10, true),
+      date: view.getUint16(offset + 12, true),
+      data: new TextDecoder().decode(bytes.subarray(start, start + size)),
+    });
+    at += 46 + nameLength;
+  }
+  return files;
+}
+
+describe("createZip", () => {
+  it("stores each entry under its name with the right CRC-32", async () => {
+    const files = await read(
+      createZip([
+        { name: "hello.txt", data: encoder.encode("hello world") },
+        { name: "frames/θ.csv", data: encoder.encode("t,θ\n0,1\n") },
+      ]),
+    );
+    expect(files.map(({ name, data, method }) => ({ name, data, method }))).toEqual([
+      { name: "hello.txt", data: "hello world", method: 0 },
+      { name: "frames/θ.csv", data: "t,θ\n0,1\n", method: 0 },
+    ]);
+    expect(files[0].crc).toBe(0x0d4a1185);
+  });
+
+  it("stamps entries with the given time in DOS format", async () => {
+    const [file] = await read(createZip([{ name: "a", data: new Uint8Array() }], new Date(2024, 2, 15, 13, 45, 30)));
+    expect(file.date).toBe(((2024 - 1980) << 9) | (3 << 5) | 15);
+    expect(file.time).toBe((13 << 11) | (45 << 5) | 15);
+  });
+
+  it("writes a valid empty archive", async () => {
+    expect(await read(createZip([]))).toEqual([]);
+  });
+});
@@ -0,0 +1,19 @@
+// Bob colors from the pivot outwards; the first two keep the original double-pendulum look
+export const BOB_COLORS = [
+  "#0088ff",
+  "#00ff88",
+  "#ffcc00",
+  "#aa66ff",
+  "#00e5ff",
+  "#ff6a00",
+  "#66ff00",
+  "#ff66cc",
+  "#4dd0e1",
+  "#f4ff81",
+];
+
+export const bobColor = (index: number) => BOB_COLORS[index % BOB_COLORS.length];
+
+// Ensemble members from the most negative to the most positive offset, blue through magenta
+export const ensembleColor = (index: number, count: number) =>
+  `hsl(${Math.round(205 + (125 * index) / Math.max(count - 1, 1))} 100% 60%)`;
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { getDampingForces, getDissipation } from "@/lib/physics/damping";
+import { calculateEnergy, stepState } from "@/lib/physics/engine";
+import { createIntegrator } from "@/lib/physics/integrators";
+import type { DampingConfig, DampingModel, PendulumConfig, PendulumState } from "@/lib/physics/types";
+
+const CHAIN: PendulumConfig = { lengths: [1, 0.7, 0.4], masses: [2, 1, 1.5], gravity: 9.81 };
+const STATE: PendulumState = { angles: [0.4, -1.1, 2], velocities: [1.5, -0.8, 3] };
+
+const damping = (models: DampingModel[]): DampingConfig => ({
+  models,
+  viscous: 0.3,
+  quadratic: 0.05,
+  joint: [0.2, 0.4, 0.1],
+  coulomb: 0.5,
+});
+
+const total = (breakdown: Record<string, number>) => Object.values(breakdown).reduce((sum, p) => sum + p, 0);
+
+describe("getDampingForces", () => {
+  it("does nothing with no model active", () => {
+    expect(getDampingForces(STATE, CHAIN, damping([]))).toEqual([0, 0, 0]);
+  });
+
+  const MODEL_SETS: DampingModel[][] = [["viscous"], ["quadratic"], ["joint"], ["coulomb"], ["viscous", "quadratic", "joint", "coulomb"]];
+  it.each(MODEL_SETS.map((models) => [models.join(" + "), models] as const))(
+    "does work at the rate %s dissipates",
+    (_, models) => {
+      const config = damping(models);
+      const power = getDampingForces(STATE, CHAIN, config).reduce((sum, q, i) => sum + q * STATE.velocities[i], 0);
+      expect(power).toBeLessThan(0);
+      expect(-power).toBeCloseTo(total(getDissipation(STATE, CHAIN, config)), 10);
+    },
+  );
+
+  it("leaves a chain turning rigidly free of hinge friction beyond the pivot", () => {
+    const rigid = { angles: [0.3, 0.3, 0.3], velocities: [2, 2, 2] };
+    const [pivot, ...outer] = getDampingForces(rigid, CHAIN, damping(["joint"]));
+    expect(pivot).toBeCloseTo(-0.2 * 2);
+    outer.forEach((q) => expect(q).toBeCloseTo(0));
+  });
+});
+
+describe("damped motion", () => {
+  it("loses energy at the rate the models dissipate it", () => {
+    const config = damping(["viscous", "joint"]);
+    const rk4 = createIntegrator("rk4");
+    const dt = 1e-4;
+    const before = calculateEnergy(STATE, CHAIN);
+    const after = calculateEnergy(stepState(STATE, CHAIN, dt, { damping: config, integrator: rk4 }), CHAIN);
+    expect((after - before) / dt).toBeCloseTo(-total(getDissipation(STATE, CHAIN, config)), 1);
+  });
+
+  it("never gains energy", () => {
+    const config = damping(["quadratic", "coulomb"]);
+    const rk4 = createIntegrator("rk4");
+    let state = STATE;
+    let energy = calculateEnergy(state, CHAIN);
+    for (let i = 0; i < 2000; i++) {
+      state = stepState(state, CHAIN, 0.001, { damping: config, integrator: rk4, time: i * 0.001 });
+      const next = calculateEnergy(state, CHAIN);
+      expect(next).toBeLessThanOrEqual(energy + 1e-9);
+      energy = next;
+    }
+  });
+});
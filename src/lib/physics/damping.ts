@@ -0,0 +1,150 @@
+import { getPivotVelocity } from "./drive";
+import type {
+  DampingConfig,
+  DampingModel,
+  PendulumConfig,
+  PendulumState,
+  Point,
+} from "./types";
+
+export interface DampingModelInfo {
+  id: DampingModel;
+  label: string;
+  description: string;
+}
+
+export const DAMPING_MODELS: DampingModelInfo[] = [
+  {
+    id: "viscous",
+    label: "Viscous Drag",
+    description: "Linear drag at each bob, F = −b·v",
+  },
+  {
+    id: "quadratic",
+    label: "Air Drag",
+    description: "Quadratic drag at each bob, F = −c·|v|·v",
+  },
+  {
+    id: "joint",
+    label: "Joint Friction",
+    description: "Viscous friction in each hinge, τ = −μ·Δω",
+  },
+  {
+    id: "coulomb",
+    label: "Coulomb Friction",
+    description: "Dry friction in each hinge, τ = −τc·sign(Δω)",
+  },
+];
+
+export const DEFAULT_DAMPING: DampingConfig = {
+  models: ["viscous"],
+  viscous: 0.5,
+  quadratic: 0.1,
+  joint: [0.5, 0.5],
+  coulomb: 1,
+};
+
+// Width (rad/s) of the tanh that stands in for Coulomb friction's sign change,
+// so the equations stay smooth enough for the explicit integrators
+const COULOMB_SMOOTHING = 0.05;
+
+export type DissipationBreakdown = Record<DampingModel, number>;
+
+function isActive(damping: DampingConfig, model: DampingModel): boolean {
+  return damping.models.includes(model);
+}
+
+// Friction coefficient of hinge i; hinges without their own value reuse the last one
+function jointCoefficient(damping: DampingConfig, hinge: number): number {
+  return damping.joint[hinge] ?? damping.joint[damping.joint.length - 1] ?? 0;
+}
+
+// Lab-frame bob velocities in m/s
+function bobVelocities(state: PendulumState, config: PendulumConfig, time: number): Point[] {
+  const pivot = getPivotVelocity(config, time);
+  let vx = pivot.x;
+  let vy = pivot.y;
+  return state.angles.map((angle, i) => {
+    const L = config.lengths[i];
+    vx += L * state.velocities[i] * Math.cos(angle);
+    vy -= L * state.velocities[i] * Math.sin(angle);
+    return { x: vx, y: vy };
+  });
+}
+
+// Relative angular velocity across each hinge (the first hinge is anchored to the pivot)
+function hingeRates(state: PendulumState): number[] {
+  return state.velocities.map((w, i) => (i === 0 ? w : w - state.velocities[i - 1]));
+}
+
+/**
+ * Generalized forces (N·m, one per link) exerted by the active damping mechanisms.
+ */
+export function getDampingForces(
+  state: PendulumState,
+  config: PendulumConfig,
+  damping: DampingConfig,
+  time = 0,
+): number[] {
+  const n = state.angles.length;
+  const forces = new Array<number>(n).fill(0);
+
+  if (isActive(damping, "viscous") || isActive(damping, "quadratic")) {
+    // Drag force on each bob, projected onto every link that moves it
+    const drag = bobVelocities(state, config, time).map(({ x, y }) => {
+      const speed = Math.hypot(x, y);
+      let k = 0;
+      if (isActive(damping, "viscous")) k += damping.viscous;
+      if (isActive(damping, "quadratic")) k += damping.quadratic * speed;
+      return { x: -k * x, y: -k * y };
+    });
+    for (let i = 0; i < n; i++) {
+      const L = config.lengths[i];
+      const cos = Math.cos(state.angles[i]);
+      const sin = Math.sin(state.angles[i]);
+      for (let k = i; k < n; k++) {
+        forces[i] += L * (drag[k].x * cos - drag[k].y * sin);
+      }
+    }
+  }
+
+  if (isActive(damping, "joint") || isActive(damping, "coulomb")) {
+    hingeRates(state).forEach((rate, hinge) => {
+      let torque = 0;
+      if (isActive(damping, "joint")) torque -= jointCoefficient(damping, hinge) * rate;
+      if (isActive(damping, "coulomb")) torque -= damping.coulomb * Math.tanh(rate / COULOMB_SMOOTHING);
+      // Equal and opposite torques on the two links a hinge joins
+      forces[hinge] += torque;
+      if (hinge > 0) forces[hinge - 1] -= torque;
+    });
+  }
+
+  return forces;
+}
+
+/**
+ * Power (W) currently dissipated by each damping mechanism; inactive ones report 0.
+ */
+export function getDissipation(
+  state: PendulumState,
+  config: PendulumConfig,
+  damping: DampingConfig,
+  time = 0,
+): DissipationBreakdown {
+  const breakdown: DissipationBreakdown = { viscous: 0, quadratic: 0, joint: 0, coulomb: 0 };
+
+  bobVelocities(state, config, time).forEach(({ x, y }) => {
+    const speedSq = x * x + y * y;
+    if (isActive(damping, "viscous")) breakdown.viscous += damping.viscous * speedSq;
+    if (isActive(damping, "quadratic")) breakdown.quadratic += damping.quadratic * Math.pow(speedSq, 1.5);
+  });
+
+  hingeRates(state).forEach((rate, hinge) => {
+    if (isActive(damping, "joint")) breakdown.joint += jointCoefficient(damping, hinge) * rate * rate;
+    if (isActive(damping, "coulomb")) {
+      breakdown.coulomb += damping.coulomb * Math.tanh(rate / COULOMB_SMOOTHING) * rate;
+    }
+  });
+
+  return breakdown;
+}
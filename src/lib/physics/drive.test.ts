@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { getDriveTorque, getPivotAcceleration, getPivotOffset, getPivotVelocity } from "@/lib/physics/drive";
+import type { PendulumConfig } from "@/lib/physics/types";
+
+const chain = { lengths: [1], masses: [1], gravity: 9.81 };
+const driven = (axis: "horizontal" | "vertical"): PendulumConfig => ({
+  ...chain,
+  drive: { axis, amplitude: 0.1, frequency: 2, torque: 0.5, torqueFrequency: 4 },
+});
+
+describe("pivot drive", () => {
+  it("keeps an undriven pivot still", () => {
+    expect(getPivotOffset(chain, 1.3)).toEqual({ x: 0, y: 0 });
+    expect(getPivotVelocity(chain, 1.3)).toEqual({ x: 0, y: 0 });
+    expect(getPivotAcceleration(chain, 1.3)).toEqual({ x: 0, y: 0 });
+    expect(getDriveTorque(chain, 1.3)).toBe(0);
+  });
+
+  it("moves the pivot sinusoidally along its axis", () => {
+    // a quarter period in, at 2 Hz
+    expect(getPivotOffset(driven("vertical"), 0.125)).toEqual({ x: 0, y: expect.closeTo(0.1) });
+    expect(getPivotOffset(driven("horizontal"), 0.125)).toEqual({ x: expect.closeTo(0.1), y: 0 });
+  });
+
+  it("differentiates consistently: velocity and acceleration match the offset's derivatives", () => {
+    const config = driven("horizontal");
+    const h = 1e-5;
+    for (const t of [0, 0.07, 0.31]) {
+      const slope = (getPivotOffset(config, t + h).x - getPivotOffset(config, t - h).x) / (2 * h);
+      const curvature = (getPivotVelocity(config, t + h).x - getPivotVelocity(config, t - h).x) / (2 * h);
+      expect(getPivotVelocity(config, t).x).toBeCloseTo(slope, 6);
+      expect(getPivotAcceleration(config, t).x).toBeCloseTo(curvature, 4);
+    }
+  });
+
+  it("applies the torque at its own frequency", () => {
+    // a quarter period of the 4 Hz torque
+    expect(getDriveTorque(driven("vertical"), 0.0625)).toBeCloseTo(0.5);
+    expect(getDriveTorque(driven("vertical"), 0.125)).toBeCloseTo(0);
+  });
+});
@@ -0,0 +1,58 @@
+import type { PendulumConfig, PivotDrive, Point } from "./types";
+
+export const DEFAULT_DRIVE: PivotDrive = {
+  axis: "vertical",
+  amplitude: 0.2,
+  frequency: 2,
+  torque: 0,
+  torqueFrequency: 1,
+};
+
+// Unit vector of the drive axis in canvas orientation (y grows downwards)
+function axisVector(config: PendulumConfig): Point {
+  return config.drive?.axis === "horizontal" ? { x: 1, y: 0 } : { x: 0, y: 1 };
+}
+
+function scaled(config: PendulumConfig, magnitude: number): Point {
+  const axis = axisVector(config);
+  return { x: axis.x * magnitude, y: axis.y * magnitude };
+}
+
+/**
+ * Pivot displacement from its rest position at time `t`, in meters.
+ */
+export function getPivotOffset(config: PendulumConfig, t: number): Point {
+  const drive = config.drive;
+  if (!drive) return { x: 0, y: 0 };
+  const omega = 2 * Math.PI * drive.frequency;
+  return scaled(config, drive.amplitude * Math.sin(omega * t));
+}
+
+/**
+ * Pivot velocity at time `t`, in m/s.
+ */
+export function getPivotVelocity(config: PendulumConfig, t: number): Point {
+  const drive = config.drive;
+  if (!drive) return { x: 0, y: 0 };
+  const omega = 2 * Math.PI * drive.frequency;
+  return scaled(config, drive.amplitude * omega * Math.cos(omega * t));
+}
+
+/**
+ * Pivot acceleration at time `t`, in m/s².
+ */
+export function getPivotAcceleration(config: PendulumConfig, t: number): Point {
+  const drive = config.drive;
+  if (!drive) return { x: 0, y: 0 };
+  const omega = 2 * Math.PI * drive.frequency;
+  return scaled(config, -drive.amplitude * omega * omega * Math.sin(omega * t));
+}
+
+/**
+ * External torque on the first link at time `t`, in N·m.
+ */
+export function getDriveTorque(config: PendulumConfig, t: number): number {
+  const drive = config.drive;
+  if (!drive || drive.torque === 0) return 0;
+  return drive.torque * Math.sin(2 * Math.PI * drive.torqueFrequency * t);
+}
@@ -0,0 +1,181 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateEnergy,
+  getAccelerations,
+  getPositions,
+  interpolateState,
+  packState,
+  resizeChain,
+  stepState,
+  unpackState,
+  wrapAngle,
+} from "@/lib/physics/engine";
+import { createIntegrator } from "@/lib/physics/integrators";
+import type { PendulumConfig, PendulumState } from "@/lib/physics/types";
+
+const DOUBLE: PendulumConfig = { lengths: [1.2, 0.8], masses: [2, 3], gravity: 9.81 };
+
+// The textbook closed form for two links, which the general chain solver must reproduce
+function doublePendulumAccelerations({ angles, velocities }: PendulumState, { lengths, masses, gravity: g }: PendulumConfig) {
+  const [t1, t2] = angles;
+  const [w1, w2] = velocities;
+  const [l1, l2] = lengths;
+  const [m1, m2] = masses;
+  const d = t1 - t2;
+  const den = 2 * m1 + m2 - m2 * Math.cos(2 * d);
+  return [
+    (-g * (2 * m1 + m2) * Math.sin(t1) -
+      m2 * g * Math.sin(t1 - 2 * t2) -
+      2 * Math.sin(d) * m2 * (w2 * w2 * l2 + w1 * w1 * l1 * Math.cos(d))) /
+      (l1 * den),
+    (2 * Math.sin(d) * (w1 * w1 * l1 * (m1 + m2) + g * (m1 + m2) * Math.cos(t1) + w2 * w2 * l2 * m2 * Math.cos(d))) /
+      (l2 * den),
+  ];
+}
+
+describe("getAccelerations", () => {
+  it("matches the closed-form double pendulum", () => {
+    for (const state of [
+      { angles: [1, -0.5], velocities: [0, 0.5] },
+      { angles: [2.5, 3], velocities: [-1.5, 4] },
+      { angles: [-0.1, 0.2], velocities: [0.3, -0.3] },
+    ]) {
+      const expected = doublePendulumAccelerations(state, DOUBLE);
+      getAccelerations(state, DOUBLE).forEach((a, i) => expect(a).toBeCloseTo(expected[i], 10));
+    }
+  });
+
+  it("leaves a chain hanging straight down at rest", () => {
+    const accelerations = getAccelerations({ angles: [0, 0], velocities: [0, 0] }, DOUBLE);
+    accelerations.forEach((a) => expect(a).toBeCloseTo(0, 12));
+  });
+});
+
+describe("N-link chains", () => {
+  const CHAIN: PendulumConfig = { lengths: [0.5, 0.4, 0.3, 0.6, 0.2], masses: [1, 2, 1.5, 1, 3], gravity: 9.81 };
+  const START: PendulumState = { angles: [0.3, -0.6, 1.2, 0.1, -1], velocities: [0, 1, -0.5, 0, 2] };
+
+  it("reduces to the simple pendulum for one link", () => {
+    const single = { lengths: [0.7], masses: [4], gravity: 9.81 };
+    const [a] = getAccelerations({ angles: [0.9], velocities: [3] }, single);
+    expect(a).toBeCloseTo((-9.81 / 0.7) * Math.sin(0.9), 12);
+  });
+
+  it("spins a straight chain rigidly without gravity", () => {
+    // every link turning at the same rate keeps the chain straight, so nothing accelerates
+    const weightless = { ...CHAIN, gravity: 0 };
+    const line = { angles: CHAIN.lengths.map(() => 0.4), velocities: CHAIN.lengths.map(() => 2) };
+    getAccelerations(line, weightless).forEach((a) => expect(a).toBeCloseTo(0, 10));
+  });
+
+  it("conserves the energy of a five-link chain", () => {
+    const rk4 = createIntegrator("rk4");
+    const initial = calculateEnergy(START, CHAIN);
+    let state = START;
+    for (let i = 0; i < 2000; i++) state = stepState(state, CHAIN, 0.0005, { integrator: rk4, time: i * 0.0005 });
+    expect(Math.abs(calculateEnergy(state, CHAIN) - initial) / Math.abs(initial)).toBeLessThan(1e-6);
+  });
+
+  it("keeps the state as long as the chain", () => {
+    const next = stepState(START, CHAIN, 0.001);
+    expect(next.angles).toHaveLength(5);
+    expect(next.velocities).toHaveLength(5);
+  });
+
+  it("grows a chain by copying the outermost link, at rest", () => {
+    const grown = resizeChain({ angles: [1, 2], velocities: [3, 4] }, DOUBLE, 4);
+    expect(grown.config.lengths).toEqual([1.2, 0.8, 0.8, 0.8]);
+    expect(grown.config.masses).toEqual([2, 3, 3, 3]);
+    expect(grown.state).toEqual({ angles: [1, 2, 2, 2], velocities: [3, 4, 0, 0] });
+  });
+
+  it("shrinks a chain by dropping the outer links", () => {
+    const shrunk = resizeChain(START, CHAIN, 2);
+    expect(shrunk.config.lengths).toEqual([0.5, 0.4]);
+    expect(shrunk.state).toEqual({ angles: [0.3, -0.6], velocities: [0, 1] });
+  });
+});
+
+describe("driven pivot", () => {
+  it("acts like changed gravity while the pivot accelerates vertically", () => {
+    const drive = { axis: "vertical" as const, amplitude: 0.1, frequency: 2, torque: 0, torqueFrequency: 1 };
+    const config = { ...DOUBLE, drive };
+    const t = 0.3;
+    // y points down, so a pivot accelerating down by a weakens gravity to g − a
+    const a = -drive.amplitude * (2 * Math.PI * drive.frequency) ** 2 * Math.sin(2 * Math.PI * drive.frequency * t);
+    const state = { angles: [0.7, -0.2], velocities: [1, 0.5] };
+    const equivalent = getAccelerations(state, { ...DOUBLE, gravity: DOUBLE.gravity - a });
+    getAccelerations(state, config, t).forEach((value, i) => expect(value).toBeCloseTo(equivalent[i], 10));
+  });
+
+  it("turns the first link with the drive torque", () => {
+    const single = { lengths: [0.5], masses: [2], gravity: 0 };
+    const drive = { axis: "vertical" as const, amplitude: 0, frequency: 1, torque: 3, torqueFrequency: 1 };
+    const [a] = getAccelerations({ angles: [0], velocities: [0] }, { ...single, drive }, 0.25);
+    expect(a).toBeCloseTo(3 / (2 * 0.5 * 0.5), 10);
+  });
+
+  it("holds a Kapitza pendulum upside down", () => {
+    const config: PendulumConfig = {
+      lengths: [1.5],
+      masses: [10],
+      gravity: 9.81,
+      drive: { axis: "vertical", amplitude: 0.2, frequency: 25, torque: 0, torqueFrequency: 1 },
+    };
+    const rk4 = createIntegrator("rk4");
+    let state: PendulumState = { angles: [Math.PI - 0.2], velocities: [0] };
+    let furthest = 0;
+    for (let i = 0; i < 10000; i++) {
+      state = stepState(state, config, 0.0005, { integrator: rk4, time: i * 0.0005 });
+      furthest = Math.max(furthest, Math.abs(wrapAngle(state.angles[0] - Math.PI)));
+    }
+    expect(furthest).toBeLessThan(0.5);
+  });
+});
+
+describe("stepState", () => {
+  it("keeps the energy of a small step close to the start", () => {
+    const state: PendulumState = { angles: [1, -0.5], velocities: [0, 0.5] };
+    const initial = calculateEnergy(state, DOUBLE);
+    let current = state;
+    for (let i = 0; i < 1000; i++) current = stepState(current, DOUBLE, 0.0005, { time: i * 0.0005 });
+    expect(Math.abs(calculateEnergy(current, DOUBLE) - initial) / Math.abs(initial)).toBeLessThan(0.02);
+  });
+
+  it("moves a displaced pendulum back towards the vertical", () => {
+    const next = stepState({ angles: [0.5, 0.5], velocities: [0, 0] }, DOUBLE, 0.01);
+    expect(next.velocities[0]).toBeLessThan(0);
+    expect(next.angles[0]).toBeLessThan(0.5);
+  });
+});
+
+describe("state helpers", () => {
+  it("packs angles before velocities and back", () => {
+    const state = { angles: [1, 2], velocities: [3, 4] };
+    expect(packState(state)).toEqual([1, 2, 3, 4]);
+    expect(unpackState(packState(state))).toEqual(state);
+  });
+
+  it("interpolates linearly between two states", () => {
+    const from = { angles: [0, 1], velocities: [2, 0] };
+    const to = { angles: [1, 3], velocities: [0, 0] };
+    expect(interpolateState(from, to, 0)).toEqual(from);
+    expect(interpolateState(from, to, 1)).toEqual(to);
+    expect(interpolateState(from, to, 0.5)).toEqual({ angles: [0.5, 2], velocities: [1, 0] });
+  });
+
+  it("wraps angles into (−π, π]", () => {
+    expect(wrapAngle(0.5)).toBeCloseTo(0.5);
+    expect(wrapAngle(2 * Math.PI + 0.5)).toBeCloseTo(0.5);
+    expect(wrapAngle(-Math.PI)).toBe(Math.PI);
+    expect(wrapAngle(3 * Math.PI)).toBeCloseTo(Math.PI);
+  });
+
+  it("places bobs from the pivot out, y pointing down", () => {
+    const [first, second] = getPositions({ angles: [0, Math.PI / 2], velocities: [0, 0] }, DOUBLE);
+    expect(first.x).toBeCloseTo(0);
+    expect(first.y).toBeCloseTo(1.2);
+    expect(second.x).toBeCloseTo(0.8);
+    expect(second.y).toBeCloseTo(1.2);
+  });
+});
@@ -0,0 +1,305 @@
+import type {
+  DampingConfig,
+  PendulumConfig,
+  PendulumPositions,
+  PendulumState,
+  Point,
+  StepOptions,
+} from "./types";
+import { createIntegrator, type DerivativeFn, type Vector } from "./integrators";
+import {
+  getDriveTorque,
+  getPivotAcceleration,
+  getPivotOffset,
+  getPivotVelocity,
+} from "./drive";
+import { getDampingForces } from "./damping";
+
+export const MIN_LINKS = 1;
+export const MAX_LINKS = 10;
+
+export const DEFAULT_STATE: PendulumState = {
+  angles: [Math.PI / 2, Math.PI / 2],
+  velocities: [0, 0],
+};
+
+export const DEFAULT_CONFIG: PendulumConfig = {
+  lengths: [1.5, 1.5],
+  masses: [10, 10],
+  gravity: 9.81,
+};
+
+// Wrap an angle into (−π, π]
+export function wrapAngle(angle: number): number {
+  const wrapped = angle - 2 * Math.PI * Math.floor((angle + Math.PI) / (2 * Math.PI));
+  return wrapped === -Math.PI ? Math.PI : wrapped;
+}
+
+export function linkCount(config: PendulumConfig): number {
+  return config.lengths.length;
+}
+
+/**
+ * Grow or shrink the chain to `count` links. New links copy the outermost
+ * link's length, mass and angle and start at rest.
+ */
+export function resizeChain(
+  state: PendulumState,
+  config: PendulumConfig,
+  count: number,
+): { state: PendulumState; config: PendulumConfig } {
+  const extend = (values: number[], fill: number) =>
+    Array.from({ length: count }, (_, i) => (i < values.length ? values[i] : fill));
+  const last = linkCount(config) - 1;
+
+  return {
+    state: {
+      angles: extend(state.angles, state.angles[last]),
+      velocities: extend(state.velocities, 0),
+    },
+    config: {
+      ...config,
+      lengths: extend(config.lengths, config.lengths[last]),
+      masses: extend(config.masses, config.masses[last]),
+    },
+  };
+}
+
+/**
+ * Bob positions relative to `origin` (the pivot's rest position), in the same
+ * units as the configured lengths. Angles are measured from the downward
+ * vertical, y grows downwards. A driven pivot is displaced to its position at `time`.
+ */
+export function getPositions(
+  state: PendulumState,
+  config: PendulumConfig,
+  origin: Point = { x: 0, y: 0 },
+  scale = 1,
+  time = 0,
+): PendulumPositions {
+  const positions: PendulumPositions = [];
+  const pivot = getPivotOffset(config, time);
+  let x = origin.x + pivot.x * scale;
+  let y = origin.y + pivot.y * scale;
+  for (let i = 0; i < config.lengths.length; i++) {
+    x += config.lengths[i] * Math.sin(state.angles[i]) * scale;
+    y += config.lengths[i] * Math.cos(state.angles[i]) * scale;
+    positions.push({ x, y });
+  }
+  return positions;
+}
+
+// Mass carried at and beyond each link: tail[i] = m[i] + m[i+1] + ...
+function tailMasses(masses: number[]): number[] {
+  const tail = new Array<number>(masses.length);
+  let sum = 0;
+  for (let i = masses.length - 1; i >= 0; i--) {
+    sum += masses[i];
+    tail[i] = sum;
+  }
+  return tail;
+}
+
+/**
+ * Mass matrix of the chain's Lagrangian, M[i][j] = μ L_i L_j cos(θ_i − θ_j)
+ * where μ is the mass hanging from the outer of the two links.
+ */
+export function getMassMatrix(angles: number[], config: PendulumConfig): number[][] {
+  const n = angles.length;
+  const L = config.lengths;
+  const tail = tailMasses(config.masses);
+  const M: number[][] = [];
+  for (let i = 0; i < n; i++) {
+    M.push(new Array<number>(n));
+    for (let j = 0; j < n; j++) {
+      M[i][j] = tail[Math.max(i, j)] * L[i] * L[j] * Math.cos(angles[i] - angles[j]);
+    }
+  }
+  return M;
+}
+
+/**
+ * Kinetic and potential energy in joules, with the pivot's rest position as
+ * the potential reference. With a driven pivot these are lab-frame energies
+ * at `time`, which the drive pumps in and out.
+ */
+export function getEnergies(
+  state: PendulumState,
+  config: PendulumConfig,
+  time = 0,
+): { kinetic: number; potential: number } {
+  const { angles, velocities } = state;
+  const M = getMassMatrix(angles, config);
+  const tail = tailMasses(config.masses);
+  const pivot = getPivotOffset(config, time);
+  const pivotVelocity = getPivotVelocity(config, time);
+  const vx = pivotVelocity.x;
+  const vy = pivotVelocity.y;
+
+  let kinetic = 0.5 * tail[0] * (vx * vx + vy * vy);
+  let potential = -tail[0] * config.gravity * pivot.y;
+  for (let i = 0; i < angles.length; i++) {
+    for (let j = 0; j < angles.length; j++) {
+      kinetic += 0.5 * M[i][j] * velocities[i] * velocities[j];
+    }
+    const L = config.lengths[i];
+    kinetic += tail[i] * L * velocities[i] * (vx * Math.cos(angles[i]) - vy * Math.sin(angles[i]));
+    potential -= tail[i] * config.gravity * L * Math.cos(angles[i]);
+  }
+  return { kinetic, potential };
+}
+
+// Total mechanical energy in joules (see `getEnergies`)
+export function calculateEnergy(state: PendulumState, config: PendulumConfig, time = 0): number {
+  const { kinetic, potential } = getEnergies(state, config, time);
+  return kinetic + potential;
+}
+
+// Solve A x = b by Gaussian elimination with partial pivoting (A and b are consumed)
+function solveLinearSystem(A: number[][], b: number[]): number[] {
+  const n = b.length;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(A[row][col]) > Math.abs(A[pivot][col])) pivot = row;
+    }
+    [A[col], A[pivot]] = [A[pivot], A[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = A[row][col] / A[col][col];
+      for (let k = col; k < n; k++) A[row][k] -= factor * A[col][k];
+      b[row] -= factor * b[col];
+    }
+  }
+
+  const x = new Array<number>(n);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = b[row];
+    for (let k = row + 1; k < n; k++) sum -= A[row][k] * x[k];
+    x[row] = sum / A[row][row];
+  }
+  return x;
+}
+
+/**
+ * Angular accelerations (rad/s²) from the Lagrangian equations of motion,
+ * M(θ) θ̈ = −C(θ, θ̇) − G(θ, t) + τ(t) + Q_damping, solved for θ̈. In the
+ * pivot's frame a driven pivot shows up as an extra inertial term in the
+ * effective gravity.
+ */
+export function getAccelerations(
+  state: PendulumState,
+  config: PendulumConfig,
+  time = 0,
+  damping?: DampingConfig,
+): number[] {
+  const { angles, velocities } = state;
+  const n = angles.length;
+  const L = config.lengths;
+  const tail = tailMasses(config.masses);
+
+  const pivotAcceleration = getPivotAcceleration(config, time);
+  const gx = -pivotAcceleration.x;
+  const gy = config.gravity - pivotAcceleration.y;
+
+  const M = getMassMatrix(angles, config);
+  const rhs = new Array<number>(n);
+  for (let i = 0; i < n; i++) {
+    let force = tail[i] * L[i] * (gx * Math.cos(angles[i]) - gy * Math.sin(angles[i]));
+    for (let j = 0; j < n; j++) {
+      if (j === i) continue;
+      force -=
+        tail[Math.max(i, j)] *
+        L[i] *
+        L[j] *
+        Math.sin(angles[i] - angles[j]) *
+        velocities[j] *
+        velocities[j];
+    }
+    rhs[i] = force;
+  }
+  rhs[0] += getDriveTorque(config, time);
+
+  if (damping) {
+    getDampingForces(state, config, damping, time).forEach((force, i) => {
+      rhs[i] += force;
+    });
+  }
+
+  return solveLinearSystem(M, rhs);
+}
+
+/**
+ * Linear blend between two consecutive physics states, used for rendering
+ * between fixed steps. `alpha` = 0 gives `from`, 1 gives `to`.
+ */
+export function interpolateState(
+  from: PendulumState,
+  to: PendulumState,
+  alpha: number,
+): PendulumState {
+  const a = packState(from);
+  const b = packState(to);
+  return unpackState(a.map((value, i) => value + (b[i] - value) * alpha));
+}
+
+export function packState(state: PendulumState): Vector {
+  return [...state.angles, ...state.velocities];
+}
+
+export function unpackState(y: Vector): PendulumState {
+  const n = y.length / 2;
+  return { angles: y.slice(0, n), velocities: y.slice(n) };
+}
+
+/**
+ * Right-hand side of the equations of motion on packed vectors, including the
+ * active damping mechanisms when `damping` is given.
+ */
+export function createDerivative(config: PendulumConfig, damping?: DampingConfig): DerivativeFn {
+  return (t, y) => {
+    const state = unpackState(y);
+    return [...state.velocities, ...getAccelerations(state, config, t, damping)];
+  };
+}
+
+/**
+ * Advance the pendulum by `dt` seconds with the chosen integrator
+ * (semi-implicit Euler when none is given).
+ */
+export function stepState(
+  state: PendulumState,
+  config: PendulumConfig,
+  dt: number,
+  options: StepOptions = {},
+): PendulumState {
+  const integrator = options.integrator ?? createIntegrator("euler");
+  const f = createDerivative(config, options.damping);
+  const y = integrator.step(f, options.time ?? 0, packState(state), dt, {
+    tolerance: options.tolerance,
+  });
+  return unpackState(y);
+}
+
+/**
+ * Integrate from `options.time` to exactly `time` in equal steps no longer than
+ * `maxStep`, backwards when `time` is earlier. For output that has to land on
+ * given instants, such as video frames.
+ */
+export function integrateTo(
+  state: PendulumState,
+  config: PendulumConfig,
+  time: number,
+  maxStep: number,
+  options: StepOptions = {},
+): PendulumState {
+  const start = options.time ?? 0;
+  const steps = Math.ceil(Math.abs(time - start) / maxStep - 1e-9);
+  const dt = (time - start) / Math.max(steps, 1);
+  let current = state;
+  for (let i = 0; i < steps; i++) {
+    current = stepState(current, config, dt, { ...options, time: start + i * dt });
+  }
+  return current;
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_DAMPING } from "@/lib/physics/damping";
+import { stepState } from "@/lib/physics/engine";
+import {
+  createEnsemble,
+  createEnsembleStepper,
+  ensembleDivergence,
+  memberState,
+} from "@/lib/physics/ensemble";
+import { createIntegrator } from "@/lib/physics/integrators";
+import type { DampingConfig, PendulumConfig, PendulumState } from "@/lib/physics/types";
+
+const BASE: PendulumState = { angles: [1, -0.4, 2], velocities: [0.5, 0, -1] };
+const CHAIN: PendulumConfig = { lengths: [1, 0.6, 0.8], masses: [2, 1, 1.5], gravity: 9.81 };
+
+// Each member stepped alone by the engine's RK4, for comparison
+function reference(state: PendulumState, config: PendulumConfig, steps: number, dt: number, damping?: DampingConfig) {
+  const rk4 = createIntegrator("rk4");
+  let current = state;
+  for (let i = 0; i < steps; i++) current = stepState(current, config, dt, { integrator: rk4, time: i * dt, damping });
+  return current;
+}
+
+function expectClose(actual: PendulumState, expected: PendulumState) {
+  [...actual.angles, ...actual.velocities].forEach((value, i) =>
+    expect(value).toBeCloseTo([...expected.angles, ...expected.velocities][i], 10),
+  );
+}
+
+describe("createEnsembleStepper", () => {
+  it.each<[string, PendulumConfig, DampingConfig | undefined]>([
+    ["a free chain", CHAIN, undefined],
+    [
+      "a driven chain",
+      { ...CHAIN, drive: { axis: "horizontal", amplitude: 0.1, frequency: 3, torque: 2, torqueFrequency: 1.5 } },
+      undefined,
+    ],
+    ["a damped chain", CHAIN, { ...DEFAULT_DAMPING, models: ["viscous", "joint", "coulomb"], joint: [0.2, 0.3, 0.1] }],
+  ])("matches stepState with RK4 for %s", (_, config, damping) => {
+    const ensemble = createEnsemble(BASE, 5, 1e-3);
+    const step = createEnsembleStepper(config, damping);
+    for (let i = 0; i < 200; i++) step(ensemble, 0.005);
+    expect(ensemble.time).toBeCloseTo(1);
+    for (let k = 0; k < ensemble.count; k++) {
+      const start = { ...BASE, angles: BASE.angles.map((angle) => angle + 1e-3 * (k / 2 - 1)) };
+      expectClose(memberState(ensemble, k), reference(start, config, 200, 0.005, damping));
+    }
+  });
+
+  it("leaves inactive members untouched", () => {
+    const ensemble = createEnsemble(BASE, 3, 1e-3);
+    const before = memberState(ensemble, 1);
+    createEnsembleStepper(CHAIN)(ensemble, 0.01, Uint8Array.of(1, 0, 1));
+    expect(memberState(ensemble, 1)).toEqual(before);
+    expect(memberState(ensemble, 0)).not.toEqual(memberState(createEnsemble(BASE, 3, 1e-3), 0));
+  });
+});
+
+describe("createEnsemble", () => {
+  it("spreads the angles evenly over ±epsilon and keeps the velocities", () => {
+    const ensemble = createEnsemble({ angles: [1, 2], velocities: [3, 4] }, 3, 0.1, 7);
+    expect(ensemble.time).toBe(7);
+    expect(memberState(ensemble, 0).angles).toEqual([expect.closeTo(0.9), expect.closeTo(1.9)]);
+    expect(memberState(ensemble, 1)).toEqual({ angles: [1, 2], velocities: [3, 4] });
+    expect(memberState(ensemble, 2).angles).toEqual([expect.closeTo(1.1), expect.closeTo(2.1)]);
+  });
+});
+
+describe("ensembleDivergence", () => {
+  it("is zero for identical members and measures wrapped spread", () => {
+    expect(ensembleDivergence(createEnsemble(BASE, 4, 0))).toBe(0);
+    // two members either side of ±π are close, not 2π apart
+    const ensemble = createEnsemble({ angles: [Math.PI], velocities: [0] }, 2, 0.01);
+    expect(ensembleDivergence(ensemble)).toBeCloseTo(0.01);
+  });
+});
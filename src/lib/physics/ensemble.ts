@@ -0,0 +1,192 @@
+import { getDampingForces } from "./damping";
+import { getDriveTorque, getPivotAcceleration } from "./drive";
+import { wrapAngle } from "./engine";
+import type { DampingConfig, PendulumConfig, PendulumState } from "./types";
+
+/**
+ * K copies of the chain packed into one typed array: member k occupies
+ * states[k·2n .. (k+1)·2n) as n angles followed by n angular velocities.
+ */
+export interface Ensemble {
+  readonly count: number;
+  readonly links: number;
+  readonly states: Float64Array;
+  time: number;
+}
+
+export const MIN_ENSEMBLE = 2;
+export const MAX_ENSEMBLE = 1000;
+// Ensembles run on their own, coarser step so a thousand members fit in a frame
+export const ENSEMBLE_STEP = 0.005;
+
+/**
+ * Copies of `base` whose angles are all shifted by offsets spread evenly over
+ * [−epsilon, +epsilon].
+ */
+export function createEnsemble(
+  base: PendulumState,
+  count: number,
+  epsilon: number,
+  time = 0,
+): Ensemble {
+  const n = base.angles.length;
+  const states = new Float64Array(count * 2 * n);
+  for (let k = 0; k < count; k++) {
+    const offset = count > 1 ? epsilon * ((2 * k) / (count - 1) - 1) : 0;
+    const o = k * 2 * n;
+    for (let i = 0; i < n; i++) {
+      states[o + i] = base.angles[i] + offset;
+      states[o + n + i] = base.velocities[i];
+    }
+  }
+  return { count, links: n, states, time };
+}
+
+export function memberState(ensemble: Ensemble, k: number): PendulumState {
+  const n = ensemble.links;
+  const o = k * 2 * n;
+  return {
+    angles: Array.from(ensemble.states.subarray(o, o + n)),
+    velocities: Array.from(ensemble.states.subarray(o + n, o + 2 * n)),
+  };
+}
+
+/**
+ * Spread of the ensemble: RMS over members and links of each angle's wrapped
+ * distance from that link's circular mean, in rad.
+ */
+export function ensembleDivergence(ensemble: Ensemble): number {
+  const { count, links: n, states } = ensemble;
+  let sum = 0;
+  for (let i = 0; i < n; i++) {
+    let sx = 0;
+    let sy = 0;
+    for (let k = 0; k < count; k++) {
+      sx += Math.cos(states[k * 2 * n + i]);
+      sy += Math.sin(states[k * 2 * n + i]);
+    }
+    const mean = Math.atan2(sy, sx);
+    for (let k = 0; k < count; k++) {
+      const d = wrapAngle(states[k * 2 * n + i] - mean);
+      sum += d * d;
+    }
+  }
+  return Math.sqrt(sum / (count * n));
+}
+
+/**
+ * Classic RK4 over every member for `dt` seconds, in place. The equations of
+ * motion are the same as `getAccelerations` in the engine, unrolled over
+ * preallocated buffers so a step allocates nothing (damping aside). Time-only
+ * terms (drive acceleration and torque) are computed once per stage and shared
+ * by all members. Members whose entry in `active` is 0 are left untouched.
+ */
+export function createEnsembleStepper(config: PendulumConfig, damping?: DampingConfig) {
+  const n = config.lengths.length;
+  const L = Float64Array.from(config.lengths);
+  const tail = new Float64Array(n);
+  for (let i = n - 1, sum = 0; i >= 0; i--) {
+    sum += config.masses[i];
+    tail[i] = sum;
+  }
+
+  const A = new Float64Array(n * n);
+  const b = new Float64Array(n);
+  const y = new Float64Array(2 * n);
+  const stage = new Float64Array(2 * n);
+  const k1 = new Float64Array(2 * n);
+  const k2 = new Float64Array(2 * n);
+  const k3 = new Float64Array(2 * n);
+  const k4 = new Float64Array(2 * n);
+
+  // Writes d/dt of the packed state `s` into `out`
+  const derivative = (s: Float64Array, t: number, gx: number, gy: number, torque: number, out: Float64Array) => {
+    for (let i = 0; i < n; i++) {
+      const ci = Math.cos(s[i]);
+      const si = Math.sin(s[i]);
+      let force = tail[i] * L[i] * (gx * ci - gy * si);
+      for (let j = 0; j < n; j++) {
+        const d = s[i] - s[j];
+        const coupling = tail[Math.max(i, j)] * L[i] * L[j];
+        A[i * n + j] = coupling * Math.cos(d);
+        if (j !== i) force -= coupling * Math.sin(d) * s[n + j] * s[n + j];
+      }
+      b[i] = force;
+    }
+    b[0] += torque;
+
+    if (damping) {
+      const state = { angles: Array.from(s.subarray(0, n)), velocities: Array.from(s.subarray(n)) };
+      getDampingForces(state, config, damping, t).forEach((force, i) => {
+        b[i] += force;
+      });
+    }
+
+    // Gaussian elimination with partial pivoting on A·x = b
+    for (let col = 0; col < n; col++) {
+      let pivot = col;
+      for (let row = col + 1; row < n; row++) {
+        if (Math.abs(A[row * n + col]) > Math.abs(A[pivot * n + col])) pivot = row;
+      }
+      if (pivot !== col) {
+        for (let k = 0; k < n; k++) {
+          const tmp = A[col * n + k];
+          A[col * n + k] = A[pivot * n + k];
+          A[pivot * n + k] = tmp;
+        }
+        const tmp = b[col];
+        b[col] = b[pivot];
+        b[pivot] = tmp;
+      }
+      for (let row = col + 1; row < n; row++) {
+        const factor = A[row * n + col] / A[col * n + col];
+        for (let k = col; k < n; k++) A[row * n + k] -= factor * A[col * n + k];
+        b[row] -= factor * b[col];
+      }
+    }
+    for (let row = n - 1; row >= 0; row--) {
+      let sum = b[row];
+      for (let k = row + 1; k < n; k++) sum -= A[row * n + k] * out[n + k];
+      out[n + row] = sum / A[row * n + row];
+    }
+    for (let i = 0; i < n; i++) out[i] = s[n + i];
+  };
+
+  // Effective gravity and torque at time t, shared by every member
+  const forcing = (t: number) => {
+    const pivot = getPivotAcceleration(config, t);
+    return {
+      gx: -pivot.x,
+      gy: config.gravity - pivot.y,
+      torque: getDriveTorque(config, t),
+    };
+  };
+
+  return (ensemble: Ensemble, dt: number, active?: Uint8Array) => {
+    const { states, count } = ensemble;
+    const t = ensemble.time;
+    const f0 = forcing(t);
+    const fh = forcing(t + dt / 2);
+    const f1 = forcing(t + dt);
+    const m = 2 * n;
+
+    for (let k = 0; k < count; k++) {
+      if (active && !active[k]) continue;
+      const o = k * m;
+      for (let i = 0; i < m; i++) y[i] = states[o + i];
+
+      derivative(y, t, f0.gx, f0.gy, f0.torque, k1);
+      for (let i = 0; i < m; i++) stage[i] = y[i] + (dt / 2) * k1[i];
+      derivative(stage, t + dt / 2, fh.gx, fh.gy, fh.torque, k2);
+      for (let i = 0; i < m; i++) stage[i] = y[i] + (dt / 2) * k2[i];
+      derivative(stage, t + dt / 2, fh.gx, fh.gy, fh.torque, k3);
+      for (let i = 0; i < m; i++) stage[i] = y[i] + dt * k3[i];
+      derivative(stage, t + dt, f1.gx, f1.gy, f1.torque, k4);
+
+      for (let i = 0; i < m; i++) {
+        states[o + i] = y[i] + (dt / 6) * (k1[i] + 2 * k2[i] + 2 * k3[i] + k4[i]);
+      }
+    }
+    ensemble.time = t + dt;
+  };
+}
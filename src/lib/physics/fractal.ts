@@ -0,0 +1,223 @@
+import { calculateEnergy } from "./engine";
+import { createEnsembleStepper, type Ensemble } from "./ensemble";
+import type { PendulumConfig } from "./types";
+
+// Window onto the (θ1, θ2) plane: centre and width in radians
+export interface FractalView {
+  theta1: number;
+  theta2: number;
+  span: number;
+}
+
+export interface FlipTimeOptions {
+  config: PendulumConfig;
+  view: FractalView;
+  width: number;
+  height: number;
+  // seconds to wait for a flip before giving up on a pixel
+  maxTime: number;
+  step?: number;
+}
+
+export interface FlipTimeRender {
+  readonly width: number;
+  readonly height: number;
+  // RGBA, row-major, ready for an ImageData
+  readonly pixels: Uint8ClampedArray;
+  // fraction of pixels finished at full resolution, 0..1
+  readonly progress: number;
+  // integrate the current batch up to `steps` more steps; returns true once every pass is done
+  advance(steps: number): boolean;
+  // a copy of `pixels` as they stand
+  snapshot(): Uint8ClampedArray;
+}
+
+export const DEFAULT_VIEW: FractalView = { theta1: 0, theta2: 0, span: 2 * Math.PI };
+export const FLIP_STEP = 0.01;
+
+// Pixels are rendered coarse to fine, each pass filling blocks of this many pixels
+const PASSES = [8, 4, 2, 1];
+// Pixels integrated together as one ensemble
+const BATCH_SIZE = 256;
+
+// Never flipped (or cannot flip) is left as the canvas background
+const NO_FLIP: [number, number, number] = [10, 10, 10];
+// Fast flips are pink, slow ones shade through blue to green
+const STOPS: [number, number, number][] = [
+  [255, 0, 128],
+  [0, 136, 255],
+  [0, 255, 136],
+];
+
+/**
+ * Initial angles under pixel (x, y); θ1 runs left to right and θ2 bottom to top.
+ */
+export function viewAngles(
+  view: FractalView,
+  width: number,
+  height: number,
+  x: number,
+  y: number,
+): { theta1: number; theta2: number } {
+  const perPixel = view.span / width;
+  return {
+    theta1: view.theta1 + (x + 0.5 - width / 2) * perPixel,
+    theta2: view.theta2 - (y + 0.5 - height / 2) * perPixel,
+  };
+}
+
+/**
+ * Colour for a flip after `time` seconds, on a log scale up to `maxTime`.
+ */
+export function flipTimeColor(time: number | null, maxTime: number): [number, number, number] {
+  if (time === null) return NO_FLIP;
+  const u = Math.min(1, Math.log1p(time) / Math.log1p(maxTime)) * (STOPS.length - 1);
+  const i = Math.min(STOPS.length - 2, Math.floor(u));
+  const f = u - i;
+  return [0, 1, 2].map((c) => STOPS[i][c] + (STOPS[i + 1][c] - STOPS[i][c]) * f) as [number, number, number];
+}
+
+// Which copy of (−π, π] an angle lies in; it changes whenever the link passes the top
+const winding = (angle: number) => Math.floor((angle + Math.PI) / (2 * Math.PI));
+
+/**
+ * Time for either bob of a double pendulum released from rest at each pixel's
+ * (θ1, θ2) to flip over the top. Pixels whose energy is below the
+ * lower of the two flip barriers are settled without integrating.
+ */
+export function createFlipTimeRender(options: FlipTimeOptions): FlipTimeRender {
+  const { view, width, height, maxTime } = options;
+  const step = options.step ?? FLIP_STEP;
+  const config: PendulumConfig = {
+    lengths: options.config.lengths.slice(0, 2),
+    masses: options.config.masses.slice(0, 2),
+    gravity: options.config.gravity,
+  };
+  const stepper = createEnsembleStepper(config);
+  const rest = [0, 0];
+  const barrier = Math.min(
+    calculateEnergy({ angles: [Math.PI, 0], velocities: rest }, config),
+    calculateEnergy({ angles: [0, Math.PI], velocities: rest }, config),
+  );
+
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  const passes = PASSES.filter((block) => block === 1 || block < Math.min(width, height));
+  let pass = 0;
+  let cursor = 0; // next pixel index within the current pass
+  let finished = 0; // pixels covered by completed work at full resolution
+
+  // Current batch: pixel coordinates, packed states and which members are still swinging
+  let batch: Ensemble | null = null;
+  let batchPixels: number[] = [];
+  let swinging = new Uint8Array(0);
+  let windings = new Int32Array(0);
+
+  const paint = (px: number, py: number, color: [number, number, number]) => {
+    const block = passes[pass];
+    for (let y = py; y < Math.min(py + block, height); y++) {
+      for (let x = px; x < Math.min(px + block, width); x++) {
+        const o = (y * width + x) * 4;
+        pixels[o] = color[0];
+        pixels[o + 1] = color[1];
+        pixels[o + 2] = color[2];
+        pixels[o + 3] = 255;
+      }
+    }
+    if (block === 1) finished++;
+  };
+
+  // Grid positions of the current pass, skipping those a coarser pass already computed
+  const passPosition = (index: number) => {
+    const block = passes[pass];
+    const columns = Math.ceil(width / block);
+    return { x: (index % columns) * block, y: Math.floor(index / columns) * block };
+  };
+  const passSize = () => Math.ceil(width / passes[pass]) * Math.ceil(height / passes[pass]);
+  const computedEarlier = (x: number, y: number) =>
+    pass > 0 && x % passes[pass - 1] === 0 && y % passes[pass - 1] === 0;
+
+  // Gather the next batch of pixels; returns false when every pass is exhausted
+  const nextBatch = (): boolean => {
+    const starts: number[] = [];
+    batchPixels = [];
+    while (batchPixels.length < BATCH_SIZE * 2 && pass < passes.length) {
+      if (cursor >= passSize()) {
+        // Finish the pass's outstanding batch before moving on so blocks paint at the right size
+        if (batchPixels.length > 0) break;
+        pass++;
+        cursor = 0;
+        continue;
+      }
+      const { x, y } = passPosition(cursor++);
+      if (computedEarlier(x, y)) {
+        if (passes[pass] === 1) finished++;
+        continue;
+      }
+      const { theta1, theta2 } = viewAngles(view, width, height, x, y);
+      if (calculateEnergy({ angles: [theta1, theta2], velocities: rest }, config) < barrier) {
+        paint(x, y, NO_FLIP);
+        continue;
+      }
+      batchPixels.push(x, y);
+      starts.push(theta1, theta2);
+    }
+
+    const count = batchPixels.length / 2;
+    if (count === 0) {
+      batch = null;
+      return pass < passes.length;
+    }
+    const states = new Float64Array(count * 4);
+    windings = new Int32Array(count * 2);
+    for (let k = 0; k < count; k++) {
+      states[k * 4] = starts[k * 2];
+      states[k * 4 + 1] = starts[k * 2 + 1];
+      windings[k * 2] = winding(starts[k * 2]);
+      windings[k * 2 + 1] = winding(starts[k * 2 + 1]);
+    }
+    batch = { count, links: 2, states, time: 0 };
+    swinging = new Uint8Array(count).fill(1);
+    return true;
+  };
+
+  const render: FlipTimeRender = {
+    width,
+    height,
+    pixels,
+    get progress() {
+      return finished / (width * height);
+    },
+    snapshot: () => pixels.slice(),
+    advance(steps) {
+      for (let i = 0; i < steps; i++) {
+        if (!batch && !nextBatch()) return true;
+        if (!batch) continue;
+
+        stepper(batch, step, swinging);
+        let remaining = 0;
+        for (let k = 0; k < batch.count; k++) {
+          if (!swinging[k]) continue;
+          if (
+            winding(batch.states[k * 4]) !== windings[k * 2] ||
+            winding(batch.states[k * 4 + 1]) !== windings[k * 2 + 1]
+          ) {
+            swinging[k] = 0;
+            paint(batchPixels[k * 2], batchPixels[k * 2 + 1], flipTimeColor(batch.time, maxTime));
+          } else {
+            remaining++;
+          }
+        }
+
+        if (remaining === 0 || batch.time >= maxTime) {
+          for (let k = 0; k < batch.count; k++) {
+            if (swinging[k]) paint(batchPixels[k * 2], batchPixels[k * 2 + 1], NO_FLIP);
+          }
+          batch = null;
+        }
+      }
+      return pass >= passes.length && !batch;
+    },
+  };
+
+  return render;
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { calculateEnergy, createDerivative, DEFAULT_CONFIG, packState, unpackState } from "@/lib/physics/engine";
+import { createIntegrator, type IntegratorId } from "@/lib/physics/integrators";
+import type { PendulumState } from "@/lib/physics/types";
+
+const START: PendulumState = { angles: [1, -0.5], velocities: [0, 0.5] };
+const DURATION = 10; // s
+
+// Worst relative energy error over the run, for an undamped, undriven pendulum
+function drift(id: IntegratorId, dt: number): number {
+  const integrator = createIntegrator(id);
+  const f = createDerivative(DEFAULT_CONFIG);
+  const initial = calculateEnergy(START, DEFAULT_CONFIG);
+  let y = packState(START);
+  let worst = 0;
+  for (let i = 0; i < Math.round(DURATION / dt); i++) {
+    y = integrator.step(f, i * dt, y, dt, { tolerance: 1e-10 });
+    worst = Math.max(worst, Math.abs(calculateEnergy(unpackState(y), DEFAULT_CONFIG) - initial));
+  }
+  return worst / Math.abs(initial);
+}
+
+describe("integrator energy drift", () => {
+  it.each<[IntegratorId, number]>([
+    ["euler", 5e-2],
+    ["verlet", 1e-4],
+    ["leapfrog", 1e-4],
+    ["rk4", 1e-8],
+    ["rk45", 1e-8],
+  ])("%s stays within %s of the starting energy", (id, bound) => {
+    expect(drift(id, 0.001)).toBeLessThan(bound);
+  });
+
+  it("shrinks with the step as the schemes' order predicts", () => {
+    // second order: a quarter of the error at half the step
+    expect(drift("verlet", 0.0005) / drift("verlet", 0.001)).toBeLessThan(0.3);
+    // first order: about half
+    expect(drift("euler", 0.0005) / drift("euler", 0.001)).toBeLessThan(0.6);
+  });
+});
+
+describe("rk45", () => {
+  it("covers the whole step even when it runs out of substeps", () => {
+    // y[0] counts elapsed time; y[1] is stiff enough to need far more substeps than allowed
+    const f = (_t: number, y: number[]) => [1, -1e6 * y[1]];
+    const [elapsed] = createIntegrator("rk45").step(f, 0, [0, 1], 1, { tolerance: 1e-10 });
+    expect(elapsed).toBeCloseTo(1, 10);
+  });
+
+  it("lands exactly on t + dt backwards as well as forwards", () => {
+    const f = (t: number) => [Math.cos(t)];
+    const integrator = createIntegrator("rk45");
+    expect(integrator.step(f, 0, [0], 2)[0]).toBeCloseTo(Math.sin(2), 7);
+    expect(integrator.step(f, 2, [Math.sin(2)], -2)[0]).toBeCloseTo(0, 7);
+  });
+});
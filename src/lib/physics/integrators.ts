@@ -0,0 +1,268 @@
+/**
+ * Packed state vector: the first half holds generalized coordinates (angles),
+ * the second half the matching velocities.
+ */
+export type Vector = number[];
+
+/** dy/dt = f(t, y) for a packed state vector. */
+export type DerivativeFn = (t: number, y: Vector) => Vector;
+
+export type IntegratorId = "euler" | "rk4" | "verlet" | "leapfrog" | "rk45";
+
+export interface IntegratorOptions {
+  // relative and absolute error tolerance for adaptive schemes
+  tolerance?: number;
+}
+
+export interface Integrator {
+  id: IntegratorId;
+  // advance y from t to t + dt
+  step(f: DerivativeFn, t: number, y: Vector, dt: number, options?: IntegratorOptions): Vector;
+}
+
+export interface IntegratorInfo {
+  id: IntegratorId;
+  label: string;
+  description: string;
+  symplectic: boolean;
+  // a step of −dt undoes a step of dt, so backward runs retrace forward ones
+  reversible: boolean;
+  adaptive: boolean;
+}
+
+export const INTEGRATORS: IntegratorInfo[] = [
+  {
+    id: "euler",
+    label: "Semi-implicit Euler",
+    description: "First order, one force evaluation per step",
+    symplectic: true,
+    reversible: false,
+    adaptive: false,
+  },
+  {
+    id: "rk4",
+    label: "Runge–Kutta 4",
+    description: "Classic fourth order, accurate but slowly drifts in energy",
+    symplectic: false,
+    reversible: false,
+    adaptive: false,
+  },
+  {
+    id: "verlet",
+    label: "Velocity Verlet",
+    description: "Second order, good long-term energy behaviour",
+    symplectic: true,
+    reversible: false,
+    adaptive: false,
+  },
+  {
+    id: "leapfrog",
+    label: "Symplectic leapfrog",
+    description: "Second order drift-kick-drift, time-reversible",
+    symplectic: true,
+    reversible: true,
+    adaptive: false,
+  },
+  {
+    id: "rk45",
+    label: "Adaptive RK45",
+    description: "Dormand–Prince 5(4) with error-controlled substeps",
+    symplectic: false,
+    reversible: false,
+    adaptive: true,
+  },
+];
+
+export const DEFAULT_INTEGRATOR: IntegratorId = "rk4";
+export const DEFAULT_TOLERANCE = 1e-8;
+
+function axpy(y: Vector, a: number, x: Vector): Vector {
+  const out = new Array<number>(y.length);
+  for (let i = 0; i < y.length; i++) out[i] = y[i] + a * x[i];
+  return out;
+}
+
+// Split a packed vector into its coordinate and velocity halves
+function split(y: Vector): [Vector, Vector] {
+  const n = y.length / 2;
+  return [y.slice(0, n), y.slice(n)];
+}
+
+function accelerations(f: DerivativeFn, t: number, q: Vector, v: Vector): Vector {
+  return f(t, [...q, ...v]).slice(q.length);
+}
+
+const euler: Integrator = {
+  id: "euler",
+  step(f, t, y, dt) {
+    const [q, v] = split(y);
+    const a = accelerations(f, t, q, v);
+    const v1 = axpy(v, dt, a);
+    const q1 = axpy(q, dt, v1);
+    return [...q1, ...v1];
+  },
+};
+
+const rk4: Integrator = {
+  id: "rk4",
+  step(f, t, y, dt) {
+    const k1 = f(t, y);
+    const k2 = f(t + dt / 2, axpy(y, dt / 2, k1));
+    const k3 = f(t + dt / 2, axpy(y, dt / 2, k2));
+    const k4 = f(t + dt, axpy(y, dt, k3));
+    const out = new Array<number>(y.length);
+    for (let i = 0; i < y.length; i++) {
+      out[i] = y[i] + (dt / 6) * (k1[i] + 2 * k2[i] + 2 * k3[i] + k4[i]);
+    }
+    return out;
+  },
+};
+
+const verlet: Integrator = {
+  id: "verlet",
+  step(f, t, y, dt) {
+    const [q, v] = split(y);
+    const a0 = accelerations(f, t, q, v);
+    const q1 = q.map((qi, i) => qi + v[i] * dt + 0.5 * a0[i] * dt * dt);
+
+    // The pendulum's accelerations depend on velocity, so predict v1 and correct once
+    let v1 = axpy(v, dt, a0);
+    for (let pass = 0; pass < 2; pass++) {
+      const a1 = accelerations(f, t + dt, q1, v1);
+      v1 = v.map((vi, i) => vi + 0.5 * (a0[i] + a1[i]) * dt);
+    }
+    return [...q1, ...v1];
+  },
+};
+
+const LEAPFROG_ITERATIONS = 3;
+
+const leapfrog: Integrator = {
+  id: "leapfrog",
+  step(f, t, y, dt) {
+    const [q, v] = split(y);
+    const qHalf = axpy(q, dt / 2, v);
+    const tHalf = t + dt / 2;
+
+    // Implicit midpoint kick keeps the step symmetric (and so time-reversible)
+    // even though the accelerations depend on velocity.
+    let v1 = axpy(v, dt, accelerations(f, tHalf, qHalf, v));
+    for (let i = 0; i < LEAPFROG_ITERATIONS; i++) {
+      const vMid = v.map((vi, j) => 0.5 * (vi + v1[j]));
+      v1 = axpy(v, dt, accelerations(f, tHalf, qHalf, vMid));
+    }
+
+    const q1 = axpy(qHalf, dt / 2, v1);
+    return [...q1, ...v1];
+  },
+};
+
+// Dormand–Prince 5(4) tableau
+const DP_C = [0, 1 / 5, 3 / 10, 4 / 5, 8 / 9, 1, 1];
+const DP_A = [
+  [],
+  [1 / 5],
+  [3 / 40, 9 / 40],
+  [44 / 45, -56 / 15, 32 / 9],
+  [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+  [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+  [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84],
+];
+// Difference between the 5th and embedded 4th order weights
+const DP_E = [
+  71 / 57600,
+  0,
+  -71 / 16695,
+  71 / 1920,
+  -17253 / 339200,
+  22 / 525,
+  -1 / 40,
+];
+
+const RK45_MAX_SUBSTEPS = 10000;
+const RK45_MIN_STEP = 1e-9;
+
+function createRk45(): Integrator {
+  // Last accepted substep, reused so that every call does not start by rejecting
+  let lastH = Infinity;
+
+  return {
+    id: "rk45",
+    step(f, t, y, dt, options = {}) {
+      const tol = options.tolerance ?? DEFAULT_TOLERANCE;
+      const direction = Math.sign(dt) || 1;
+      const end = t + dt;
+
+      let current = y;
+      let time = t;
+      let h = Math.min(Math.abs(dt), lastH) * direction;
+      let k1 = f(time, current);
+
+      for (let substep = 0; substep < RK45_MAX_SUBSTEPS; substep++) {
+        const remaining = end - time;
+        if (remaining * direction <= 0) break;
+        // Out of substeps: cover the rest in one step whatever its error, so the
+        // call still reaches t + dt and simulated time keeps up with the clock
+        const last = substep === RK45_MAX_SUBSTEPS - 1;
+        if (last || Math.abs(h) > Math.abs(remaining)) h = remaining;
+
+        const k: Vector[] = [k1];
+        for (let s = 1; s < 7; s++) {
+          const ys = current.slice();
+          for (let j = 0; j < s; j++) {
+            const aj = DP_A[s][j];
+            if (aj === 0) continue;
+            for (let i = 0; i < ys.length; i++) ys[i] += h * aj * k[j][i];
+          }
+          k.push(f(time + DP_C[s] * h, ys));
+        }
+
+        // Stage 7 is evaluated at the 5th order solution (FSAL)
+        const next = current.slice();
+        for (let j = 0; j < 6; j++) {
+          const aj = DP_A[6][j];
+          for (let i = 0; i < next.length; i++) next[i] += h * aj * k[j][i];
+        }
+
+        let errSum = 0;
+        for (let i = 0; i < next.length; i++) {
+          let e = 0;
+          for (let j = 0; j < 7; j++) e += DP_E[j] * k[j][i];
+          const scale = tol + tol * Math.max(Math.abs(current[i]), Math.abs(next[i]));
+          errSum += Math.pow((h * e) / scale, 2);
+        }
+        const err = Math.sqrt(errSum / next.length);
+
+        const factor = err === 0 ? 5 : Math.min(5, Math.max(0.2, 0.9 * Math.pow(err, -1 / 5)));
+        if (err <= 1 || Math.abs(h) <= RK45_MIN_STEP || last) {
+          time += h;
+          current = next;
+          k1 = k[6];
+          lastH = Math.abs(h) * factor;
+        }
+        h = Math.max(Math.abs(h) * factor, RK45_MIN_STEP) * direction;
+      }
+
+      return current;
+    },
+  };
+}
+
+/**
+ * Create an integrator instance. Adaptive schemes keep their last step size
+ * between calls, so use one instance per simulated trajectory.
+ */
+export function createIntegrator(id: IntegratorId): Integrator {
+  switch (id) {
+    case "euler":
+      return euler;
+    case "rk4":
+      return rk4;
+    case "verlet":
+      return verlet;
+    case "leapfrog":
+      return leapfrog;
+    case "rk45":
+      return createRk45();
+  }
+}
@@ -0,0 +1,24 @@
+import { MAX_TIME_SCALE, MIN_TIME_SCALE } from "./loop";
+
+// Parameter ranges the controls allow. Imported files and presets are held to the same bounds.
+export interface Range {
+  min: number;
+  max: number;
+}
+
+export const LIMITS = {
+  length: { min: 0.2, max: 2.5 }, // m
+  mass: { min: 1, max: 50 }, // kg
+  gravity: { min: 1, max: 20 }, // m/s²
+  driveAmplitude: { min: 0, max: 0.5 }, // m
+  driveFrequency: { min: 0.1, max: 30 }, // Hz
+  driveTorque: { min: 0, max: 50 }, // N·m
+  torqueFrequency: { min: 0.05, max: 5 }, // Hz
+  viscous: { min: 0, max: 5 }, // N·s/m
+  quadratic: { min: 0, max: 2 }, // N·s²/m²
+  joint: { min: 0, max: 5 }, // N·m·s/rad
+  coulomb: { min: 0, max: 20 }, // N·m
+  tolerance: { min: 1e-12, max: 1e-3 }, // adaptive integrator error per step
+  physicsStep: { min: 0.0005, max: 0.016 }, // s
+  timeScale: { min: MIN_TIME_SCALE, max: MAX_TIME_SCALE }, // simulated s per s
+} satisfies Record<string, Range>;
@@ -0,0 +1,43 @@
+export const DEFAULT_PHYSICS_STEP = 0.001; // seconds
+// Playback speed range, simulated seconds per wall-clock second
+export const MIN_TIME_SCALE = 0.01;
+export const MAX_TIME_SCALE = 10;
+// Longest wall-clock gap consumed in one frame, so a background tab doesn't
+// come back to thousands of queued steps.
+export const MAX_FRAME_TIME = 0.25;
+
+export interface ClockAdvance {
+  // number of fixed physics steps to run this frame
+  steps: number;
+  // fraction of a step left in the accumulator, for interpolating the rendered state
+  alpha: number;
+}
+
+export interface FixedStepClock {
+  readonly step: number;
+  // `timeScale` converts wall-clock seconds into simulated seconds
+  advance(elapsed: number, timeScale?: number): ClockAdvance;
+  reset(): void;
+}
+
+/**
+ * Accumulates wall-clock time and hands it out in fixed physics steps, so a
+ * trajectory depends only on `step`, never on the display's frame rate. The
+ * frame-time cap applies before scaling, so fast forward isn't cut short.
+ */
+export function createFixedStepClock(step: number, maxFrameTime = MAX_FRAME_TIME): FixedStepClock {
+  let accumulator = 0;
+
+  return {
+    step,
+    advance(elapsed, timeScale = 1) {
+      accumulator += Math.min(Math.max(elapsed, 0), maxFrameTime) * timeScale;
+      const steps = Math.floor(accumulator / step);
+      accumulator -= steps * step;
+      return { steps, alpha: accumulator / step };
+    },
+    reset() {
+      accumulator = 0;
+    },
+  };
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_DAMPING } from "@/lib/physics/damping";
+import { createLyapunovEstimator, type LyapunovOptions } from "@/lib/physics/lyapunov";
+
+const base: LyapunovOptions = {
+  config: { lengths: [1, 1], masses: [1, 1], gravity: 9.81 },
+  state: { angles: [0.1, 0.1], velocities: [0, 0] },
+  time: 0,
+  integrator: "rk4",
+  step: 0.005,
+  duration: 40,
+};
+
+function estimate(options: LyapunovOptions) {
+  const estimator = createLyapunovEstimator(options);
+  while (!estimator.advance(1000));
+  return estimator;
+}
+
+describe("createLyapunovEstimator", () => {
+  it("finds no exponential divergence in small, regular swings", () => {
+    expect(Math.abs(estimate(base).exponent)).toBeLessThan(0.1);
+  });
+
+  it("finds a clearly positive exponent for a chaotic start", () => {
+    expect(estimate({ ...base, state: { angles: [2.5, 2.5], velocities: [0, 0] } }).exponent).toBeGreaterThan(0.5);
+  });
+
+  it("finds a negative exponent when damping pulls trajectories together", () => {
+    const damping = { ...DEFAULT_DAMPING, models: ["viscous" as const], viscous: 1 };
+    expect(estimate({ ...base, state: { angles: [0.3, 0.3], velocities: [0, 0] }, damping }).exponent).toBeLessThan(-0.1);
+  });
+
+  it("records one sample per renormalization and stops at the duration", () => {
+    const estimator = createLyapunovEstimator({ ...base, duration: 1, interval: 0.1 });
+    expect(estimator.advance(100)).toBe(false);
+    expect(estimator.progress).toBeCloseTo(0.5);
+    expect(estimator.history).toHaveLength(5);
+
+    expect(estimator.advance(1000)).toBe(true);
+    expect(estimator.elapsed).toBeCloseTo(1);
+    expect(estimator.history.map((sample) => sample.time)).toEqual(
+      Array.from({ length: 10 }, (_, i) => expect.closeTo((i + 1) * 0.1)),
+    );
+    expect(estimator.history.at(-1)?.exponent).toBe(estimator.exponent);
+    // nothing left to do
+    expect(estimator.advance(100)).toBe(true);
+    expect(estimator.history).toHaveLength(10);
+  });
+});
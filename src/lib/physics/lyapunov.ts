@@ -0,0 +1,111 @@
+import { createDerivative, packState } from "./engine";
+import { createIntegrator, type IntegratorId, type Vector } from "./integrators";
+import type { DampingConfig, PendulumConfig, PendulumState } from "./types";
+
+export interface LyapunovOptions {
+  config: PendulumConfig;
+  damping?: DampingConfig;
+  state: PendulumState;
+  // simulated time of `state`, so a driven pivot starts in phase
+  time: number;
+  integrator: IntegratorId;
+  tolerance?: number;
+  step: number;
+  // initial phase-space distance between the two trajectories
+  separation?: number;
+  // simulated seconds between renormalizations
+  interval?: number;
+  // simulated seconds after which the estimate is considered converged
+  duration?: number;
+}
+
+export interface LyapunovSample {
+  time: number;
+  exponent: number;
+}
+
+export interface LyapunovEstimator {
+  // current estimate of the largest exponent, 1/s
+  readonly exponent: number;
+  readonly elapsed: number;
+  // one sample per renormalization
+  readonly history: LyapunovSample[];
+  readonly progress: number;
+  // integrate up to `steps` more steps; returns true once `duration` is covered
+  advance(steps: number): boolean;
+}
+
+export const LYAPUNOV_STEP = 0.005;
+const DEFAULT_SEPARATION = 1e-8;
+const DEFAULT_INTERVAL = 0.1;
+const DEFAULT_DURATION = 200;
+
+function distance(a: Vector, b: Vector): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+  return Math.sqrt(sum);
+}
+
+/**
+ * Benettin's method: evolve a reference trajectory and a neighbour
+ * `separation` away, and every `interval` pull the neighbour back to that
+ * distance along the current separation, accumulating the log of the stretch.
+ * The running average of that log growth rate converges to the maximal
+ * Lyapunov exponent. Angles and angular velocities are mixed unweighted in the
+ * phase-space distance, which changes the transient but not the limit.
+ */
+export function createLyapunovEstimator(options: LyapunovOptions): LyapunovEstimator {
+  const { step, time: start } = options;
+  const d0 = options.separation ?? DEFAULT_SEPARATION;
+  const stepsPerInterval = Math.max(1, Math.round((options.interval ?? DEFAULT_INTERVAL) / step));
+  const totalSteps = Math.ceil((options.duration ?? DEFAULT_DURATION) / step);
+  const f = createDerivative(options.config, options.damping);
+  const stepOptions = { tolerance: options.tolerance };
+
+  // Separate integrators so adaptive step sizes stay with their own trajectory
+  const reference = createIntegrator(options.integrator);
+  const neighbour = createIntegrator(options.integrator);
+
+  let y = packState(options.state);
+  // Initial offset spread evenly over every coordinate
+  let z = y.map((value) => value + d0 / Math.sqrt(y.length));
+
+  const history: LyapunovSample[] = [];
+  let logStretch = 0;
+  let steps = 0;
+
+  const estimator: LyapunovEstimator = {
+    history,
+    get exponent() {
+      const elapsed = steps * step;
+      return elapsed > 0 ? logStretch / elapsed : 0;
+    },
+    get elapsed() {
+      return steps * step;
+    },
+    get progress() {
+      return Math.min(1, steps / totalSteps);
+    },
+    advance(count) {
+      for (let i = 0; i < count && steps < totalSteps; i++) {
+        const t = start + steps * step;
+        y = reference.step(f, t, y, step, stepOptions);
+        z = neighbour.step(f, t, z, step, stepOptions);
+        steps++;
+
+        if (steps % stepsPerInterval === 0) {
+          const d = distance(y, z);
+          // A neighbour that collapsed onto the reference has nothing left to renormalize
+          if (d > 0 && Number.isFinite(d)) {
+            logStretch += Math.log(d / d0);
+            z = y.map((value, j) => value + ((z[j] - value) * d0) / d);
+          }
+          history.push({ time: steps * step, exponent: estimator.exponent });
+        }
+      }
+      return steps >= totalSteps;
+    },
+  };
+
+  return estimator;
+}
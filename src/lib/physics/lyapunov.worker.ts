@@ -0,0 +1,43 @@
+import { createLyapunovEstimator, type LyapunovOptions } from "./lyapunov";
+import type { LyapunovProgress, LyapunovRequest } from "./worker-protocol";
+
+/**
+ * Runs one Lyapunov estimate at a time in slices, so a new start or a stop
+ * gets through between them, and reports the new samples after each slice.
+ */
+
+// Work per slice before checking for messages and reporting progress
+const SLICE_MS = 50;
+const STEPS_PER_CALL = 200;
+
+let timer: ReturnType<typeof setTimeout> | undefined;
+
+function start(id: number, options: LyapunovOptions) {
+  const estimator = createLyapunovEstimator(options);
+  let sent = 0;
+
+  const slice = () => {
+    const deadline = performance.now() + SLICE_MS;
+    let done = false;
+    while (!done && performance.now() < deadline) done = estimator.advance(STEPS_PER_CALL);
+
+    const progress: LyapunovProgress = {
+      type: "progress",
+      id,
+      samples: estimator.history.slice(sent),
+      exponent: estimator.exponent,
+      progress: estimator.progress,
+      done,
+    };
+    sent = estimator.history.length;
+    self.postMessage(progress);
+    timer = done ? undefined : setTimeout(slice, 0);
+  };
+  timer = setTimeout(slice, 0);
+}
+
+self.onmessage = (event: MessageEvent<LyapunovRequest>) => {
+  const request = event.data;
+  clearTimeout(timer);
+  if (request.type === "start") start(request.id, request.options);
+};
@@ -0,0 +1,137 @@
+import { calculateEnergy, interpolateState, packState, stepState } from "./engine";
+import {
+  ENSEMBLE_STEP,
+  createEnsemble,
+  createEnsembleStepper,
+  ensembleDivergence,
+  type Ensemble,
+} from "./ensemble";
+import { createIntegrator, type Integrator } from "./integrators";
+import { createFixedStepClock, type FixedStepClock } from "./loop";
+import type { PendulumState } from "./types";
+import type { PhysicsFrame, PhysicsRequest, PhysicsSettings } from "./worker-protocol";
+
+/**
+ * Owns the simulation: the fixed-step clock, the integrator and any running
+ * ensemble. The main thread only sends inputs and draws the frames it gets back.
+ */
+
+let settings: PhysicsSettings | null = null;
+let integrator: Integrator | null = null;
+let clock: FixedStepClock | null = null;
+let stepEnsemble: ReturnType<typeof createEnsembleStepper> | null = null;
+
+let epoch = 0;
+let previous: PendulumState = { angles: [], velocities: [] };
+let current: PendulumState = { angles: [], velocities: [] };
+let time = 0;
+let lastSampleTime = -Infinity;
+
+let ensemble: Ensemble | null = null;
+let lastDivergenceTime = -Infinity;
+
+function configure(next: PhysicsSettings) {
+  if (!integrator || settings?.integrator !== next.integrator) integrator = createIntegrator(next.integrator);
+  if (!clock || settings?.step !== next.step) clock = createFixedStepClock(next.step);
+  stepEnsemble = createEnsembleStepper(next.config, next.damping);
+  settings = next;
+}
+
+// The state and configuration arrive in separate messages; never step a chain against the wrong link count
+function consistent(): boolean {
+  return settings !== null && settings.config.lengths.length === current.angles.length;
+}
+
+// Run `steps` physics steps in the playback direction and report the result,
+// with the display state `alpha` of a further step along
+function advance(steps: number, alpha: number): PhysicsFrame {
+  const samples: number[] = [];
+  const divergence: number[] = [];
+  const dt = clock && settings ? (settings.reverse ? -clock.step : clock.step) : 0;
+
+  if (settings && integrator && consistent()) {
+    const { config, damping, tolerance, sampleInterval, divergenceInterval } = settings;
+
+    for (let i = 0; i < steps; i++) {
+      previous = current;
+      current = stepState(current, config, dt, { time, damping, integrator, tolerance });
+      time += dt;
+
+      if (Math.abs(time - lastSampleTime) >= sampleInterval - 1e-9) {
+        samples.push(time, ...packState(current));
+        lastSampleTime = time;
+      }
+    }
+
+    // Bring the ensemble up (or back) to the main pendulum's time on its own coarser step
+    if (ensemble && stepEnsemble && ensemble.links === current.angles.length) {
+      const direction = Math.sign(dt);
+      while ((time - ensemble.time) * direction >= ENSEMBLE_STEP / 2) {
+        stepEnsemble(ensemble, ENSEMBLE_STEP * direction);
+        if (Math.abs(ensemble.time - lastDivergenceTime) >= divergenceInterval - 1e-9) {
+          // Floored so a log-scale chart never sees zero
+          divergence.push(ensemble.time, Math.max(ensembleDivergence(ensemble), 1e-15));
+          lastDivergenceTime = ensemble.time;
+        }
+      }
+    }
+  }
+
+  return {
+    type: "frame",
+    epoch,
+    current: Float64Array.from(packState(current)),
+    time,
+    display: Float64Array.from(packState(interpolateState(previous, current, alpha))),
+    displayTime: time - (1 - alpha) * dt,
+    energy: consistent() && settings ? calculateEnergy(current, settings.config, time) : 0,
+    samples: Float64Array.from(samples),
+    ensemble: ensemble ? ensemble.states.slice() : null,
+    ensembleTime: ensemble?.time ?? 0,
+    divergence: Float64Array.from(divergence),
+  };
+}
+
+// Frames own all their arrays, so hand them over rather than copying
+function post(frame: PhysicsFrame) {
+  const transfer = [frame.current.buffer, frame.display.buffer, frame.samples.buffer, frame.divergence.buffer];
+  if (frame.ensemble) transfer.push(frame.ensemble.buffer);
+  self.postMessage(frame, { transfer });
+}
+
+self.onmessage = (event: MessageEvent<PhysicsRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case "configure":
+      configure(request.settings);
+      break;
+    case "load":
+      epoch = request.epoch;
+      previous = request.state;
+      current = request.state;
+      time = request.time;
+      lastSampleTime = -Infinity;
+      // The ensemble was spread around the old state; a new run leaves it meaningless
+      if (request.branch) ensemble = null;
+      break;
+    case "advance": {
+      const { steps, alpha } = clock?.advance(request.elapsed, settings?.timeScale) ?? { steps: 0, alpha: 0 };
+      post(advance(steps, alpha));
+      break;
+    }
+    case "step":
+      // Show exactly the state reached rather than interpolating towards it
+      post(advance(request.steps, 1));
+      break;
+    case "resetClock":
+      clock?.reset();
+      break;
+    case "startEnsemble":
+      ensemble = createEnsemble(current, request.count, request.epsilon, time);
+      lastDivergenceTime = -Infinity;
+      break;
+    case "stopEnsemble":
+      ensemble = null;
+      break;
+  }
+};
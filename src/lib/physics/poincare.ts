@@ -0,0 +1,155 @@
+import {
+  calculateEnergy,
+  createDerivative,
+  getMassMatrix,
+  packState,
+  unpackState,
+  wrapAngle,
+} from "./engine";
+import { createIntegrator, type IntegratorId, type Vector } from "./integrators";
+import type { PendulumConfig, PendulumState } from "./types";
+
+export type CrossingDirection = "positive" | "negative";
+
+// The surface θ[link] = 0 (mod 2π), crossed with ω[link] of the given sign
+export interface PoincareSection {
+  link: number;
+  direction: CrossingDirection;
+  // link whose (θ, ω) is recorded at each crossing
+  plotLink: number;
+}
+
+export interface PoincarePoint {
+  theta: number;
+  omega: number;
+  // index of the initial condition that produced the point
+  run: number;
+}
+
+export interface PoincareOptions {
+  config: PendulumConfig;
+  section: PoincareSection;
+  initialStates: PendulumState[];
+  duration: number; // simulated seconds per initial condition
+  step: number;
+  integrator: IntegratorId;
+}
+
+export interface PoincareRun {
+  readonly points: PoincarePoint[];
+  // fraction of the total simulated time covered so far, 0..1
+  readonly progress: number;
+  // integrate up to `steps` more steps; returns true once every run is finished
+  advance(steps: number): boolean;
+  // the points found so far, as a new array
+  snapshot(): PoincarePoint[];
+}
+
+export const POINCARE_STEP = 0.005;
+
+// Sections only make sense for the autonomous, conservative system
+function conservative(config: PendulumConfig): PendulumConfig {
+  return { lengths: config.lengths, masses: config.masses, gravity: config.gravity };
+}
+
+/**
+ * Initial conditions on the section with total energy `energy`: θ[link] = 0,
+ * the plotted link's angle spread over (−π, π) at rest, other links taken from
+ * `base`, and ω[link] solved from the energy. Spreads that cannot reach the
+ * energy are skipped, so fewer than `count` states may come back.
+ */
+export function sameEnergyStates(
+  base: PendulumState,
+  config: PendulumConfig,
+  section: PoincareSection,
+  energy: number,
+  count: number,
+): PendulumState[] {
+  const physics = conservative(config);
+  const states: PendulumState[] = [];
+  const sign = section.direction === "positive" ? 1 : -1;
+
+  for (let k = 0; k < count; k++) {
+    const angles = [...base.angles];
+    const velocities = [...base.velocities];
+    angles[section.link] = 0;
+    angles[section.plotLink] = -Math.PI + (2 * Math.PI * (k + 0.5)) / count;
+    velocities[section.plotLink] = 0;
+    velocities[section.link] = 0;
+
+    // E(ω) = a·ω² + b·ω + E(0) along the section link's velocity
+    const M = getMassMatrix(angles, physics);
+    const a = 0.5 * M[section.link][section.link];
+    const b = velocities.reduce((sum, w, j) => (j === section.link ? sum : sum + M[section.link][j] * w), 0);
+    const c = calculateEnergy({ angles, velocities }, physics) - energy;
+    const discriminant = b * b - 4 * a * c;
+    if (discriminant < 0) continue;
+
+    const root = (-b + sign * Math.sqrt(discriminant)) / (2 * a);
+    if (Math.sign(root) !== sign) continue;
+    velocities[section.link] = root;
+    states.push({ angles, velocities });
+  }
+
+  return states;
+}
+
+/**
+ * Integrate each initial condition in turn and record (θ, ω) of the plotted
+ * link every time the trajectory pierces the section. Work is handed out in
+ * `advance` chunks so callers can spread it over frames or run it in a worker.
+ */
+export function createPoincareRun(options: PoincareOptions): PoincareRun {
+  const { section, initialStates, duration, step } = options;
+  const f = createDerivative(conservative(options.config));
+  const stepsPerRun = Math.ceil(duration / step);
+  const totalSteps = stepsPerRun * initialStates.length;
+  const sign = section.direction === "positive" ? 1 : -1;
+
+  const points: PoincarePoint[] = [];
+  let run = 0;
+  let stepInRun = 0;
+  let integrator = createIntegrator(options.integrator);
+  let y: Vector = initialStates.length > 0 ? packState(initialStates[0]) : [];
+
+  // Signed distance to the surface; only zeros with cos θ > 0 are θ = 0 rather than θ = π
+  const surface = (v: Vector) => Math.sin(v[section.link]);
+  const onNearSide = (v: Vector) => Math.cos(v[section.link]) > 0;
+
+  return {
+    points,
+    get progress() {
+      return totalSteps === 0 ? 1 : (run * stepsPerRun + stepInRun) / totalSteps;
+    },
+    advance(steps) {
+      for (let i = 0; i < steps && run < initialStates.length; i++) {
+        const next = integrator.step(f, stepInRun * step, y, step);
+        const g0 = surface(y);
+        const g1 = surface(next);
+
+        if (g0 * sign < 0 && g1 * sign >= 0 && onNearSide(next)) {
+          // Linear interpolation to the crossing within the step
+          const s = g0 / (g0 - g1);
+          const crossing = y.map((value, j) => value + (next[j] - value) * s);
+          const state = unpackState(crossing);
+          points.push({
+            theta: wrapAngle(state.angles[section.plotLink]),
+            omega: state.velocities[section.plotLink],
+            run,
+          });
+        }
+
+        y = next;
+        stepInRun++;
+        if (stepInRun >= stepsPerRun) {
+          run++;
+          stepInRun = 0;
+          integrator = createIntegrator(options.integrator);
+          if (run < initialStates.length) y = packState(initialStates[run]);
+        }
+      }
+      return run >= initialStates.length;
+    },
+    snapshot: () => points.slice(),
+  };
+}
@@ -0,0 +1,102 @@
+import { z } from "zod";
+import { MAX_LINKS, MIN_LINKS } from "./engine";
+import { LIMITS, type Range } from "./limits";
+import type { DampingConfig, DampingModel, PendulumConfig, PendulumState, PivotDrive } from "./types";
+
+// Runtime checks for the simulation types, for anything that arrives from outside
+// (imported files, stored presets). Messages complete the field's path, e.g.
+// "config.lengths[0] must be between 0.2 and 2.5 m (got 3)".
+
+const number = z
+  .number({ required_error: "is missing", invalid_type_error: "must be a number" })
+  .finite("must be a finite number");
+
+export const bounded = (range: Range, unit: string) =>
+  number.refine(
+    (value) => value >= range.min && value <= range.max,
+    (value) => ({ message: `must be between ${range.min} and ${range.max}${unit && ` ${unit}`} (got ${value})` }),
+  );
+
+const list = <T extends z.ZodTypeAny>(item: T, name: string) =>
+  z
+    .array(item, { required_error: "is missing", invalid_type_error: "must be a list" })
+    .min(MIN_LINKS, `needs at least ${MIN_LINKS} ${name}`)
+    .max(MAX_LINKS, `allows at most ${MAX_LINKS} ${name}`);
+
+export const object = <T extends z.ZodRawShape>(shape: T) =>
+  z.object(shape, { required_error: "is missing", invalid_type_error: "must be an object" });
+
+export const driveSchema: z.ZodType<PivotDrive> = object({
+  axis: z.enum(["horizontal", "vertical"], {
+    errorMap: () => ({ message: 'must be "horizontal" or "vertical"' }),
+  }),
+  amplitude: bounded(LIMITS.driveAmplitude, "m"),
+  frequency: bounded(LIMITS.driveFrequency, "Hz"),
+  torque: bounded(LIMITS.driveTorque, "N·m"),
+  torqueFrequency: bounded(LIMITS.torqueFrequency, "Hz"),
+});
+
+export const configSchema: z.ZodType<PendulumConfig> = object({
+  lengths: list(bounded(LIMITS.length, "m"), "links"),
+  masses: list(bounded(LIMITS.mass, "kg"), "links"),
+  gravity: bounded(LIMITS.gravity, "m/s²"),
+  drive: driveSchema.optional(),
+}).superRefine((config, ctx) => {
+  if (config.masses.length !== config.lengths.length) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["masses"],
+      message: `has ${config.masses.length} entries but there are ${config.lengths.length} lengths`,
+    });
+  }
+});
+
+export const stateSchema: z.ZodType<PendulumState> = object({
+  angles: list(number, "links"),
+  velocities: list(number, "links"),
+}).superRefine((state, ctx) => {
+  if (state.velocities.length !== state.angles.length) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["velocities"],
+      message: `has ${state.velocities.length} entries but there are ${state.angles.length} angles`,
+    });
+  }
+});
+
+const DAMPING_MODEL_IDS = ["viscous", "quadratic", "joint", "coulomb"] as const satisfies readonly DampingModel[];
+
+export const dampingSchema: z.ZodType<DampingConfig> = object({
+  models: z.array(
+    z.enum(DAMPING_MODEL_IDS, {
+      errorMap: () => ({ message: `must be one of ${DAMPING_MODEL_IDS.join(", ")}` }),
+    }),
+    { required_error: "is missing", invalid_type_error: "must be a list" },
+  ),
+  viscous: bounded(LIMITS.viscous, "N·s/m"),
+  quadratic: bounded(LIMITS.quadratic, "N·s²/m²"),
+  joint: list(bounded(LIMITS.joint, "N·m·s/rad"), "hinges"),
+  coulomb: bounded(LIMITS.coulomb, "N·m"),
+});
+
+// "config.lengths[0]" for the path [config, lengths, 0]
+export function formatPath(path: (string | number)[]): string {
+  return path.reduce<string>(
+    (text, key) => (typeof key === "number" ? `${text}[${key}]` : text ? `${text}.${key}` : key),
+    "",
+  );
+}
+
+/**
+ * One readable line per problem. `name` can rename a path, e.g. to the CSV
+ * column it came from; the formatted path is used otherwise.
+ */
+export function describeIssues(
+  error: z.ZodError,
+  name: (path: (string | number)[]) => string | undefined = () => undefined,
+): string[] {
+  return error.issues.map((issue) => {
+    const field = name(issue.path) ?? formatPath(issue.path);
+    return field ? `${field} ${issue.message}` : issue.message;
+  });
+}
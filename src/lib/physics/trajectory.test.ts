@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { createTrajectoryRecorder } from "@/lib/physics/trajectory";
+
+// A one-link recording at 60 samples per second; each state encodes its own time
+function recordRun(recorder = createTrajectoryRecorder(), samples = 60) {
+  for (let i = 0; i < samples; i++) recorder.record(i / 60, [i, -i]);
+  return recorder;
+}
+
+describe("createTrajectoryRecorder", () => {
+  it("keeps samples in time order and looks them up by time", () => {
+    const recorder = recordRun();
+    expect(recorder.length).toBe(60);
+    expect(recorder.startTime).toBe(0);
+    expect(recorder.endTime).toBeCloseTo(59 / 60);
+    expect(recorder.at(10)).toEqual({ time: 10 / 60, angles: [10], velocities: [-10] });
+    expect(recorder.indexAt(10.5 / 60)).toBe(10);
+    expect(recorder.indexAt(10 / 60)).toBe(10);
+    expect(recorder.indexAt(-1)).toBe(-1);
+    expect(recorder.between(10 / 60, 12 / 60).map((sample) => sample.angles[0])).toEqual([10, 11, 12]);
+  });
+
+  it("branches: recording at an earlier time drops everything from there on", () => {
+    const recorder = recordRun();
+    recorder.record(20 / 60, [100, 0]);
+    expect(recorder.length).toBe(21);
+    expect(recorder.endTime).toBeCloseTo(20 / 60);
+    expect(recorder.at(20).angles).toEqual([100]);
+    expect(recorder.at(19).angles).toEqual([19]);
+
+    // and carries on from the branch
+    recorder.record(21 / 60, [101, 0]);
+    expect(recorder.between(19 / 60, 1).map((sample) => sample.angles[0])).toEqual([19, 100, 101]);
+  });
+
+  it("replaces a sample recorded again at the same time", () => {
+    const recorder = recordRun();
+    recorder.record(59 / 60, [-5, 0]);
+    expect(recorder.length).toBe(60);
+    expect(recorder.at(59).angles).toEqual([-5]);
+  });
+
+  it("truncates across chunk boundaries and grows again", () => {
+    const recorder = recordRun(createTrajectoryRecorder(), 10000);
+    recorder.record(5000 / 60, [0, 0]);
+    expect(recorder.length).toBe(5001);
+    for (let i = 5001; i < 9000; i++) recorder.record(i / 60, [i, -i]);
+    expect(recorder.length).toBe(9000);
+    expect(recorder.at(8999)).toEqual({ time: 8999 / 60, angles: [8999], velocities: [-8999] });
+    expect(recorder.at(4999).angles).toEqual([4999]);
+  });
+
+  it("starts afresh when the link count changes", () => {
+    const recorder = recordRun();
+    recorder.record(2, [1, 2, 3, 4]);
+    expect(recorder.length).toBe(1);
+    expect(recorder.at(0)).toEqual({ time: 2, angles: [1, 2], velocities: [3, 4] });
+  });
+
+  it("drops the oldest whole chunk once full", () => {
+    const recorder = createTrajectoryRecorder(5000);
+    for (let i = 0; i < 5001; i++) recorder.record(i, [i, 0]);
+    // one chunk of 4096 went
+    expect(recorder.length).toBe(5001 - 4096);
+    expect(recorder.startTime).toBe(4096);
+    expect(recorder.endTime).toBe(5000);
+    expect(recorder.indexAt(4095)).toBe(-1);
+  });
+
+  it("empties on clear", () => {
+    const recorder = recordRun();
+    recorder.clear();
+    expect(recorder.length).toBe(0);
+    expect(recorder.startTime).toBe(0);
+    expect(recorder.between(0, 10)).toEqual([]);
+  });
+});
+
+describe("recorded configurations", () => {
+  const short = { lengths: [1], masses: [1], gravity: 9.81 };
+  const long = { lengths: [2], masses: [1], gravity: 9.81 };
+
+  it("gives the configuration in force at each time", () => {
+    const recorder = recordRun();
+    expect(recorder.configAt(0.5)).toBeUndefined();
+    recorder.noteConfig(0, short);
+    recorder.noteConfig(0.5, long);
+    expect(recorder.configAt(0.2)).toBe(short);
+    expect(recorder.configAt(0.5)).toBe(long);
+    expect(recorder.configAt(0.9)).toBe(long);
+    // before the first note, the first one
+    expect(recorder.configAt(-1)).toBe(short);
+  });
+
+  it("replaces notes at or after a new one", () => {
+    const recorder = recordRun();
+    recorder.noteConfig(0, short);
+    recorder.noteConfig(0.5, long);
+    recorder.noteConfig(0.5, short);
+    expect(recorder.configAt(0.9)).toBe(short);
+  });
+
+  it("drops changes made after a branch", () => {
+    const recorder = recordRun();
+    recorder.noteConfig(0, short);
+    recorder.noteConfig(0.5, long);
+    recorder.record(0.25, [0, 0]);
+    expect(recorder.configAt(0.9)).toBe(short);
+  });
+
+  it("forgets them on clear and when the link count changes", () => {
+    const recorder = recordRun();
+    recorder.noteConfig(0, short);
+    recorder.record(1, [0, 0, 0, 0]);
+    expect(recorder.configAt(1)).toBeUndefined();
+    recorder.noteConfig(1, short);
+    recorder.clear();
+    expect(recorder.configAt(1)).toBeUndefined();
+  });
+});
@@ -0,0 +1,137 @@
+import { unpackState } from "./engine";
+import type { PendulumConfig, StateSample } from "./types";
+
+// Samples per storage chunk; the oldest whole chunk goes once the recording is full
+const CHUNK_SIZE = 4096;
+// Half an hour at 60 samples per simulated second
+export const MAX_RECORDED_SAMPLES = 30 * 60 * 60;
+
+// Slack when comparing sample times that went through different float sums
+const TIME_EPSILON = 1e-9;
+
+export interface TrajectoryRecorder {
+  readonly length: number;
+  // simulated time of the first and last samples; 0 when empty
+  readonly startTime: number;
+  readonly endTime: number;
+  /**
+   * Append `state` (packed angles then velocities) at `time`. Anything recorded
+   * at or after `time` is dropped first, so recording from an earlier moment
+   * branches the run. A different link count starts a fresh recording.
+   */
+  record(time: number, state: ArrayLike<number>): void;
+  /**
+   * Note that the run goes on with `config` from `time`, so each sample can be
+   * read against the chain that produced it. Like `record`, this drops what
+   * was noted at or after `time`.
+   */
+  noteConfig(time: number, config: PendulumConfig): void;
+  // the configuration in force at `time`; before the first note, the first one
+  configAt(time: number): PendulumConfig | undefined;
+  clear(): void;
+  at(index: number): StateSample;
+  // index of the last sample at or before `time`, −1 when there is none
+  indexAt(time: number): number;
+  // samples from `start` to `end` inclusive, in time order
+  between(start: number, end: number): StateSample[];
+}
+
+/**
+ * Every state of a run at the fixed rate the physics worker samples it, in
+ * packed chunks so an hour-long recording doesn't mean a million objects.
+ */
+export function createTrajectoryRecorder(capacity = MAX_RECORDED_SAMPLES): TrajectoryRecorder {
+  let chunks: Float64Array[] = [];
+  let stride = 0; // 1 + 2·links
+  let count = 0;
+  // configuration changes in time order
+  let configs: { time: number; config: PendulumConfig }[] = [];
+
+  const timeAt = (index: number) => chunks[Math.floor(index / CHUNK_SIZE)][(index % CHUNK_SIZE) * stride];
+
+  const indexAt = (time: number) => {
+    let lo = 0;
+    let hi = count - 1;
+    let found = -1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (timeAt(mid) <= time + TIME_EPSILON) {
+        found = mid;
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    return found;
+  };
+
+  const truncate = (length: number) => {
+    count = length;
+    chunks.length = Math.ceil(count / CHUNK_SIZE);
+  };
+
+  const recorder: TrajectoryRecorder = {
+    get length() {
+      return count;
+    },
+    get startTime() {
+      return count > 0 ? timeAt(0) : 0;
+    },
+    get endTime() {
+      return count > 0 ? timeAt(count - 1) : 0;
+    },
+    record(time, state) {
+      if (state.length + 1 !== stride) {
+        recorder.clear();
+        stride = state.length + 1;
+      }
+      truncate(indexAt(time - 2 * TIME_EPSILON) + 1);
+      // A branch runs on whatever the caller notes next, not on changes made after it
+      while (configs.length > 0 && configs[configs.length - 1].time > time + TIME_EPSILON) configs.pop();
+
+      if (count === chunks.length * CHUNK_SIZE) chunks.push(new Float64Array(CHUNK_SIZE * stride));
+      const offset = (count % CHUNK_SIZE) * stride;
+      const chunk = chunks[chunks.length - 1];
+      chunk[offset] = time;
+      for (let i = 0; i < state.length; i++) chunk[offset + 1 + i] = state[i];
+      count++;
+
+      if (count > capacity) {
+        chunks.shift();
+        count -= CHUNK_SIZE;
+      }
+    },
+    noteConfig(time, config) {
+      while (configs.length > 0 && configs[configs.length - 1].time >= time - TIME_EPSILON) configs.pop();
+      configs.push({ time, config });
+    },
+    configAt(time) {
+      let found = configs[0]?.config;
+      for (const entry of configs) {
+        if (entry.time > time + TIME_EPSILON) break;
+        found = entry.config;
+      }
+      return found;
+    },
+    clear() {
+      chunks = [];
+      count = 0;
+      configs = [];
+    },
+    at(index) {
+      const chunk = chunks[Math.floor(index / CHUNK_SIZE)];
+      const offset = (index % CHUNK_SIZE) * stride;
+      return { time: chunk[offset], ...unpackState(Array.from(chunk.subarray(offset + 1, offset + stride))) };
+    },
+    indexAt,
+    between(start, end) {
+      const samples: StateSample[] = [];
+      for (let i = indexAt(start - 2 * TIME_EPSILON) + 1; i < count && timeAt(i) <= end + TIME_EPSILON; i++) {
+        samples.push(recorder.at(i));
+      }
+      return samples;
+    },
+  };
+
+  return recorder;
+}
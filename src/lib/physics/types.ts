@@ -0,0 +1,67 @@
+import type { Integrator } from "./integrators";
+
+// Angles are measured from the downward vertical, one entry per link from the pivot out
+export interface PendulumState {
+  angles: number[];
+  velocities: number[];
+}
+
+export type DriveAxis = "horizontal" | "vertical";
+
+// Periodic forcing: the pivot oscillates as amplitude·sin(2π·frequency·t) along
+// `axis`, and an optional sinusoidal torque acts on the first link.
+export interface PivotDrive {
+  axis: DriveAxis;
+  amplitude: number; // m
+  frequency: number; // Hz
+  torque: number; // N·m
+  torqueFrequency: number; // Hz
+}
+
+export interface PendulumConfig {
+  lengths: number[]; // m, from the pivot out
+  masses: number[]; // kg
+  gravity: number; // m/s²
+  // undriven (fixed pivot) when absent
+  drive?: PivotDrive;
+}
+
+export type DampingModel = "viscous" | "quadratic" | "joint" | "coulomb";
+
+export interface DampingConfig {
+  // active mechanisms; their coefficients below are ignored otherwise
+  models: DampingModel[];
+  viscous: number; // N·s/m at each bob
+  quadratic: number; // N·s²/m² at each bob
+  joint: number[]; // N·m·s/rad per hinge, from the pivot out
+  coulomb: number; // N·m at each hinge
+}
+
+// Everything needed to start the simulator from a given configuration
+export interface SimulationSnapshot {
+  config: PendulumConfig;
+  state: PendulumState;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// A physics state stamped with its simulated time
+export interface StateSample extends PendulumState {
+  time: number;
+}
+
+// Bob positions, one per link
+export type PendulumPositions = Point[];
+
+export interface StepOptions {
+  // simulated time at the start of the step, for time-dependent forcing
+  time?: number;
+  // undamped when absent
+  damping?: DampingConfig;
+  integrator?: Integrator;
+  // error tolerance for adaptive integrators
+  tolerance?: number;
+}
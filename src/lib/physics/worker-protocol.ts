@@ -0,0 +1,76 @@
+import type { IntegratorId } from "./integrators";
+import type { LyapunovOptions, LyapunovSample } from "./lyapunov";
+import type { DampingConfig, PendulumConfig, PendulumState } from "./types";
+
+// Everything the worker needs to step the simulation; resent whenever any of it changes
+export interface PhysicsSettings {
+  config: PendulumConfig;
+  // undamped when absent
+  damping?: DampingConfig;
+  integrator: IntegratorId;
+  tolerance: number;
+  // fixed physics step, seconds
+  step: number;
+  // simulated seconds per wall-clock second
+  timeScale: number;
+  // run time backwards: every step is taken with −step
+  reverse: boolean;
+  // simulated seconds between recorded state samples
+  sampleInterval: number;
+  // simulated seconds between ensemble divergence samples
+  divergenceInterval: number;
+}
+
+export type PhysicsRequest =
+  | { type: "configure"; settings: PhysicsSettings }
+  // Replace the state outright; `epoch` tags every frame produced from it on. A `branch`
+  // starts a new run from it, which drops the ensemble; scrubbing and dragging keep it.
+  | { type: "load"; state: PendulumState; time: number; epoch: number; branch: boolean }
+  // Wall-clock seconds since the last advance; answered with one frame
+  | { type: "advance"; elapsed: number }
+  // Run this many physics steps in the playback direction regardless of the clock; answered with one frame
+  | { type: "step"; steps: number }
+  | { type: "resetClock" }
+  | { type: "startEnsemble"; count: number; epsilon: number }
+  | { type: "stopEnsemble" };
+
+/**
+ * One rendered frame. All arrays are freshly allocated in the worker and
+ * transferred, so posting them costs no copy.
+ */
+export interface PhysicsFrame {
+  type: "frame";
+  // `epoch` of the load this frame descends from; stale frames are dropped
+  epoch: number;
+  // physics state after the last full step, packed as angles then velocities
+  current: Float64Array;
+  time: number;
+  // state interpolated into the leftover fraction of a step, for drawing
+  display: Float64Array;
+  displayTime: number;
+  energy: number;
+  // samples recorded since the previous frame, each [time, ...packed state]
+  samples: Float64Array;
+  // packed ensemble members (see Ensemble), or null when none is running
+  ensemble: Float64Array | null;
+  ensembleTime: number;
+  // (time, divergence) pairs recorded since the previous frame
+  divergence: Float64Array;
+}
+
+export type PhysicsResponse = PhysicsFrame;
+
+// The Lyapunov estimate has a worker of its own so it never holds up the frame loop.
+// Starting a new estimate abandons the previous one.
+export type LyapunovRequest = { type: "start"; id: number; options: LyapunovOptions } | { type: "stop" };
+
+export interface LyapunovProgress {
+  type: "progress";
+  // `id` of the start this estimate belongs to; progress from abandoned ones is dropped
+  id: number;
+  // renormalizations since the previous message
+  samples: LyapunovSample[];
+  exponent: number;
+  progress: number;
+  done: boolean;
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { PRESET_VERSION } from "@/convex/presetVersion";
+import { DEFAULT_DAMPING } from "@/lib/physics/damping";
+import { DEFAULT_INTEGRATOR } from "@/lib/physics/integrators";
+import { diffSetups, readPreset, type PresetSetup } from "@/lib/presets";
+import { DEFAULT_CAMERA_VIEW } from "@/lib/render/camera";
+
+const LEGACY_CONFIG = {
+  length1: 1.2,
+  length2: 0.8,
+  mass1: 2,
+  mass2: 3,
+  gravity: 9.81,
+  angle1: 1,
+  angle2: -0.5,
+  velocity1: 0.25,
+  velocity2: 0,
+};
+
+function loaded(result: ReturnType<typeof readPreset>): PresetSetup {
+  if (!result.ok) throw new Error(result.errors.join("; "));
+  return result.setup;
+}
+
+describe("readPreset", () => {
+  it("lifts a version 1 record into a full setup with the defaults of the time", () => {
+    const setup = loaded(readPreset({ config: LEGACY_CONFIG }));
+    expect(setup.physics.config).toEqual({ lengths: [1.2, 0.8], masses: [2, 3], gravity: 9.81 });
+    expect(setup.physics.state).toEqual({ angles: [1, -0.5], velocities: [0.25, 0] });
+    expect(setup.physics.time).toBe(0);
+    expect(setup.physics.damping).toEqual(DEFAULT_DAMPING);
+    expect(setup.physics.dampingEnabled).toBe(false);
+    expect(setup.solver.integrator).toBe(DEFAULT_INTEGRATOR);
+    expect(setup.view).toEqual({
+      showTrails: true,
+      showEnergy: true,
+      timeScale: 1,
+      reverse: false,
+      camera: DEFAULT_CAMERA_VIEW,
+    });
+  });
+
+  it("reads a record of the current version as stored", () => {
+    const setup = loaded(readPreset({ config: LEGACY_CONFIG }));
+    expect(loaded(readPreset({ version: PRESET_VERSION, setup }))).toEqual(setup);
+  });
+
+  it("checks migrated values like any other setup", () => {
+    const result = readPreset({ config: { ...LEGACY_CONFIG, mass1: -1 } });
+    expect(result.ok).toBe(false);
+  });
+
+  it("refuses records from a newer version", () => {
+    const result = readPreset({ version: PRESET_VERSION + 1, config: LEGACY_CONFIG });
+    expect(result).toEqual({ ok: false, errors: [expect.stringContaining("newer version")] });
+  });
+
+  it("reports a record with nothing in it", () => {
+    expect(readPreset({ version: PRESET_VERSION })).toEqual({ ok: false, errors: ["It holds no settings"] });
+  });
+});
+
+describe("diffSetups", () => {
+  const base = loaded(readPreset({ config: LEGACY_CONFIG }));
+
+  it("finds nothing between equal setups", () => {
+    expect(diffSetups(base, structuredClone(base))).toEqual([]);
+  });
+
+  it("lists changed parameters with their displayed values", () => {
+    const after = structuredClone(base);
+    after.physics.config.gravity = 1.62;
+    after.physics.dampingEnabled = true;
+    expect(diffSetups(base, after)).toEqual([
+      { label: "Gravity", before: "9.81 m/s²", after: "1.62 m/s²" },
+      { label: "Damping", before: "off", after: "on" },
+    ]);
+  });
+
+  it("reports differences past the displayed digits", () => {
+    const before = structuredClone(base);
+    before.view.camera.center = { x: 0.5, y: 0.25 };
+    const after = structuredClone(before);
+    after.physics.state.angles[0] += 1e-9;
+    after.view.camera.center.y += 1e-9;
+    expect(diffSetups(before, after)).toEqual([
+      { label: "Angle 1", before: "1 rad", after: "1 rad" },
+      { label: "Camera", before: "0.5 m, 0.25 m", after: "0.5 m, 0.25 m" },
+    ]);
+  });
+
+  it("puts links only the older setup had last, with no new value", () => {
+    const after = structuredClone(base);
+    after.physics.config.lengths = [1.2];
+    after.physics.config.masses = [2];
+    after.physics.state = { angles: [1], velocities: [0.25] };
+    after.physics.damping = { ...after.physics.damping, joint: [after.physics.damping.joint[0]] };
+    const changes = diffSetups(base, after);
+    expect(changes[0]).toEqual({ label: "Links", before: "2", after: "1" });
+    expect(changes.slice(1).map((change) => change.label)).toEqual([
+      "Length 2",
+      "Mass 2",
+      "Angle 2",
+      "Angular velocity 2",
+      "Hinge friction 2",
+    ]);
+    expect(changes.slice(1).every((change) => change.after === undefined)).toBe(true);
+  });
+});
@@ -0,0 +1,220 @@
+import { z } from "zod";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+import { PRESET_VERSION } from "@/convex/presetVersion";
+import { DAMPING_MODELS, DEFAULT_DAMPING } from "@/lib/physics/damping";
+import { DEFAULT_INTEGRATOR, DEFAULT_TOLERANCE, INTEGRATORS, type IntegratorId } from "@/lib/physics/integrators";
+import { LIMITS } from "@/lib/physics/limits";
+import { DEFAULT_PHYSICS_STEP } from "@/lib/physics/loop";
+import { bounded, configSchema, dampingSchema, describeIssues, object, stateSchema } from "@/lib/physics/schema";
+import type { DampingConfig, PendulumConfig, PendulumState } from "@/lib/physics/types";
+import { DEFAULT_CAMERA_VIEW, MAX_ZOOM, MIN_ZOOM, type CameraView } from "@/lib/render/camera";
+
+// Everything that decides what the simulator shows, so a preset loads exactly as it was saved
+export interface PresetSetup {
+  physics: {
+    // `drive` is present while the pivot drive is on
+    config: PendulumConfig;
+    state: PendulumState;
+    // simulated time of `state`, which sets the drive's phase
+    time: number;
+    damping: DampingConfig;
+    dampingEnabled: boolean;
+  };
+  solver: {
+    integrator: IntegratorId;
+    tolerance: number;
+    step: number; // s
+  };
+  view: {
+    showTrails: boolean;
+    showEnergy: boolean;
+    timeScale: number;
+    reverse: boolean;
+    camera: CameraView;
+  };
+}
+
+// The saved preset a setup was loaded from, which forks link back to
+export interface PresetSource {
+  id: Id<"simulationPresets">;
+  name: string;
+}
+
+export type PresetResult = { ok: true; setup: PresetSetup } | { ok: false; errors: string[] };
+
+type StoredPreset = Pick<Doc<"simulationPresets">, "version" | "config" | "setup">;
+
+const flag = z.boolean({ required_error: "is missing", invalid_type_error: "must be true or false" });
+const INTEGRATOR_IDS = INTEGRATORS.map((info) => info.id) as [IntegratorId, ...IntegratorId[]];
+
+const setupSchema: z.ZodType<PresetSetup> = object({
+  physics: object({
+    config: configSchema,
+    state: stateSchema,
+    time: z.number({ required_error: "is missing", invalid_type_error: "must be a number" }).finite(),
+    damping: dampingSchema,
+    dampingEnabled: flag,
+  }),
+  solver: object({
+    integrator: z.enum(INTEGRATOR_IDS, {
+      errorMap: () => ({ message: `must be one of ${INTEGRATOR_IDS.join(", ")}` }),
+    }),
+    tolerance: bounded(LIMITS.tolerance, ""),
+    step: bounded(LIMITS.physicsStep, "s"),
+  }),
+  view: object({
+    showTrails: flag,
+    showEnergy: flag,
+    timeScale: bounded(LIMITS.timeScale, "×"),
+    reverse: flag,
+    camera: object({
+      center: object({ x: z.number().finite(), y: z.number().finite() }),
+      zoom: bounded({ min: MIN_ZOOM, max: MAX_ZOOM }, "×"),
+    }),
+  }),
+}).superRefine((setup, ctx) => {
+  const links = setup.physics.config.lengths.length;
+  if (setup.physics.state.angles.length !== links) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["physics", "state", "angles"],
+      message: `has ${setup.physics.state.angles.length} entries but there are ${links} links`,
+    });
+  }
+});
+
+/**
+ * Each step lifts a record one version. Settings an old version didn't store
+ * get the simulator's defaults from that time, which is what its author saw.
+ */
+const MIGRATIONS: Record<number, (preset: StoredPreset) => StoredPreset> = {
+  1: ({ config }) => ({
+    version: 2,
+    setup: config && {
+      physics: {
+        config: {
+          lengths: [config.length1, config.length2],
+          masses: [config.mass1, config.mass2],
+          gravity: config.gravity,
+        },
+        state: {
+          angles: [config.angle1, config.angle2],
+          velocities: [config.velocity1, config.velocity2],
+        },
+        time: 0,
+        damping: DEFAULT_DAMPING,
+        dampingEnabled: false,
+      },
+      solver: { integrator: DEFAULT_INTEGRATOR, tolerance: DEFAULT_TOLERANCE, step: DEFAULT_PHYSICS_STEP },
+      view: { showTrails: true, showEnergy: true, timeScale: 1, reverse: false, camera: DEFAULT_CAMERA_VIEW },
+    },
+  }),
+};
+
+// A stored preset brought up to the current version and checked like an imported file
+export function readPreset(preset: StoredPreset): PresetResult {
+  let record = preset;
+  let version = record.version ?? 1;
+  if (version > PRESET_VERSION) {
+    return { ok: false, errors: ["It was saved by a newer version of the simulator; reload the page"] };
+  }
+  while (version < PRESET_VERSION) {
+    record = MIGRATIONS[version](record);
+    version = record.version ?? version + 1;
+  }
+  if (!record.setup) return { ok: false, errors: ["It holds no settings"] };
+  return checkSetup(record.setup);
+}
+
+// Check a setup from outside, e.g. a link; `name` can rename paths in the messages as in describeIssues
+export function checkSetup(data: unknown, name?: (path: (string | number)[]) => string | undefined): PresetResult {
+  const parsed = setupSchema.safeParse(data);
+  return parsed.success ? { ok: true, setup: parsed.data } : { ok: false, errors: describeIssues(parsed.error, name) };
+}
+
+// One parameter that differs between two setups; a side is missing when the chain has no such link
+export interface SetupChange {
+  label: string;
+  before?: string;
+  after?: string;
+}
+
+// A parameter's exact value, which decides whether it changed, and how it's shown
+interface Parameter {
+  value: number | string | boolean | number[];
+  display: string;
+}
+
+const format = (n: number, unit = "") => `${+n.toPrecision(6)}${unit && ` ${unit}`}`;
+const quantity = (n: number, unit?: string): Parameter => ({ value: n, display: format(n, unit) });
+const text = (value: string, display = value): Parameter => ({ value, display });
+const onOff = (on: boolean): Parameter => ({ value: on, display: on ? "on" : "off" });
+const perLink = (label: string, values: number[], unit?: string): [string, Parameter][] =>
+  values.map((n, i) => [`${label} ${i + 1}`, quantity(n, unit)]);
+
+const sameValue = (a: Parameter["value"], b: Parameter["value"]) =>
+  Array.isArray(a) && Array.isArray(b) ? a.length === b.length && a.every((n, i) => n === b[i]) : a === b;
+
+// Every parameter of a setup by label, in the order the controls show them
+function describeSetup({ physics, solver, view }: PresetSetup): [string, Parameter][] {
+  const { config, state, damping } = physics;
+  const drive = config.drive;
+  const modelLabel = (id: string) => DAMPING_MODELS.find((model) => model.id === id)?.label ?? id;
+  const { x, y } = view.camera.center;
+  return [
+    ["Links", { value: config.lengths.length, display: String(config.lengths.length) }],
+    ...perLink("Length", config.lengths, "m"),
+    ...perLink("Mass", config.masses, "kg"),
+    ["Gravity", quantity(config.gravity, "m/s²")],
+    ...perLink("Angle", state.angles, "rad"),
+    ...perLink("Angular velocity", state.velocities, "rad/s"),
+    ["Time", quantity(physics.time, "s")],
+    ["Pivot drive", text(drive ? drive.axis : "off")],
+    ...(drive
+      ? ([
+          ["Drive amplitude", quantity(drive.amplitude, "m")],
+          ["Drive frequency", quantity(drive.frequency, "Hz")],
+          ["Drive torque", quantity(drive.torque, "N·m")],
+          ["Torque frequency", quantity(drive.torqueFrequency, "Hz")],
+        ] as [string, Parameter][])
+      : []),
+    ["Damping", onOff(physics.dampingEnabled)],
+    ["Damping models", text(damping.models.join(","), damping.models.map(modelLabel).join(", ") || "none")],
+    ["Viscous drag", quantity(damping.viscous, "N·s/m")],
+    ["Air drag", quantity(damping.quadratic, "N·s²/m²")],
+    ...perLink("Hinge friction", damping.joint, "N·m·s"),
+    ["Coulomb friction", quantity(damping.coulomb, "N·m")],
+    [
+      "Integrator",
+      text(solver.integrator, INTEGRATORS.find((info) => info.id === solver.integrator)?.label ?? solver.integrator),
+    ],
+    ["Tolerance", quantity(solver.tolerance)],
+    ["Time step", quantity(solver.step, "s")],
+    ["Trails", onOff(view.showTrails)],
+    ["Energy plot", onOff(view.showEnergy)],
+    ["Speed", quantity(view.timeScale, "×")],
+    ["Reverse", onOff(view.reverse)],
+    ["Camera", { value: [x, y], display: `${format(x, "m")}, ${format(y, "m")}` }],
+    ["Zoom", quantity(view.camera.zoom, "×")],
+  ];
+}
+
+/**
+ * The parameters that differ, with their displayed values. Values are compared
+ * exactly, so a change past the displayed digits still shows up, with both
+ * sides looking the same.
+ */
+export function diffSetups(before: PresetSetup, after: PresetSetup): SetupChange[] {
+  const old = new Map(describeSetup(before));
+  const changes: SetupChange[] = [];
+  for (const [label, next] of describeSetup(after)) {
+    const previous = old.get(label);
+    old.delete(label);
+    if (!previous || !sameValue(previous.value, next.value)) {
+      changes.push({ label, before: previous?.display, after: next.display });
+    }
+  }
+  // Whatever only the older setup had, e.g. the links a shorter chain dropped
+  for (const [label, previous] of old) changes.push({ label, before: previous.display });
+  return changes;
+}
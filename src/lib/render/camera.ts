@@ -0,0 +1,109 @@
+import type { Point } from "@/lib/physics/types";
+
+/**
+ * Maps world coordinates (meters, origin at the pivot's rest position, y down
+ * like the physics) onto a canvas. `width` and `height` are CSS pixels; the
+ * backing store is `pixelRatio` times larger so lines stay sharp on HiDPI screens.
+ */
+export interface Camera {
+  // world point at the centre of the canvas
+  center: Point;
+  pixelsPerMeter: number;
+  width: number;
+  height: number;
+  pixelRatio: number;
+}
+
+// Zoom and pan on top of the automatic fit, so both survive a resize
+export interface CameraView {
+  center: Point;
+  zoom: number;
+}
+
+export const DEFAULT_CAMERA_VIEW: CameraView = { center: { x: 0, y: 0 }, zoom: 1 };
+export const MIN_ZOOM = 0.25;
+export const MAX_ZOOM = 20;
+
+// Free space left around a fitted chain, as a fraction of the canvas
+const FIT_MARGIN = 0.08;
+
+export function worldToScreen(camera: Camera, point: Point): Point {
+  return {
+    x: camera.width / 2 + (point.x - camera.center.x) * camera.pixelsPerMeter,
+    y: camera.height / 2 + (point.y - camera.center.y) * camera.pixelsPerMeter,
+  };
+}
+
+export function screenToWorld(camera: Camera, point: Point): Point {
+  return {
+    x: camera.center.x + (point.x - camera.width / 2) / camera.pixelsPerMeter,
+    y: camera.center.y + (point.y - camera.height / 2) / camera.pixelsPerMeter,
+  };
+}
+
+/**
+ * Camera for a canvas of `width` × `height` CSS pixels that fits a chain able
+ * to reach `reach` meters from the pivot in any direction, with `view` applied.
+ */
+export function fitCamera(
+  reach: number,
+  width: number,
+  height: number,
+  pixelRatio: number,
+  view: CameraView = DEFAULT_CAMERA_VIEW,
+): Camera {
+  const fitted = (Math.min(width, height) * (1 - 2 * FIT_MARGIN)) / (2 * Math.max(reach, 1e-3));
+  return { center: view.center, pixelsPerMeter: fitted * view.zoom, width, height, pixelRatio };
+}
+
+/**
+ * The same framing on a canvas of another size, e.g. a video frame: scaled the
+ * way `fitCamera` scales, by the shorter side.
+ */
+export function resizeCamera(camera: Camera, width: number, height: number, pixelRatio = 1): Camera {
+  const scale = Math.min(width, height) / Math.min(camera.width, camera.height);
+  return { ...camera, pixelsPerMeter: camera.pixelsPerMeter * scale, width, height, pixelRatio };
+}
+
+/**
+ * View after zooming by `factor` about a screen point, which keeps the world
+ * point under it fixed.
+ */
+export function zoomViewAt(camera: Camera, view: CameraView, anchor: Point, factor: number): CameraView {
+  const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, view.zoom * factor));
+  const applied = zoom / view.zoom;
+  const world = screenToWorld(camera, anchor);
+  return {
+    zoom,
+    center: {
+      x: world.x + (camera.center.x - world.x) / applied,
+      y: world.y + (camera.center.y - world.y) / applied,
+    },
+  };
+}
+
+// View shifted so the picture follows a drag of (dx, dy) CSS pixels
+export function panView(camera: Camera, view: CameraView, dx: number, dy: number): CameraView {
+  return {
+    ...view,
+    center: { x: view.center.x - dx / camera.pixelsPerMeter, y: view.center.y - dy / camera.pixelsPerMeter },
+  };
+}
+
+/**
+ * Length in meters for a scale bar at most `maxPixels` long: the largest
+ * 1, 2 or 5 × 10^k that fits.
+ */
+export function scaleBarLength(camera: Camera, maxPixels: number): number {
+  const maxMeters = maxPixels / camera.pixelsPerMeter;
+  const magnitude = 10 ** Math.floor(Math.log10(maxMeters));
+  const step = [5, 2, 1].find((candidate) => candidate * magnitude <= maxMeters) ?? 1;
+  return step * magnitude;
+}
+
+// Scale bar label, e.g. "50 cm" or "2 m"
+export function formatMeters(meters: number): string {
+  if (meters >= 1) return `${+meters.toPrecision(3)} m`;
+  if (meters >= 0.01) return `${+(meters * 100).toPrecision(3)} cm`;
+  return `${+(meters * 1000).toPrecision(3)} mm`;
+}
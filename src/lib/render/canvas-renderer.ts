@@ -0,0 +1,91 @@
+import { PendulumRenderer, type RenderFrame, type RenderScene } from "./pendulum-renderer";
+import type { RenderRequest } from "./worker-protocol";
+
+// What the page talks to, wherever the drawing actually happens
+export interface CanvasRenderer {
+  setScene(scene: RenderScene): void;
+  pushFrame(frame: RenderFrame): void;
+  clearTrails(): void;
+}
+
+interface Entry {
+  renderer: CanvasRenderer;
+  dispose: () => void;
+  releaseTimer?: ReturnType<typeof setTimeout>;
+}
+
+// A canvas can hand its control to a worker only once, so renderers live per
+// canvas element and outlive StrictMode's unmount/remount of the same element
+const entries = new WeakMap<HTMLCanvasElement, Entry>();
+
+function createWorkerRenderer(canvas: HTMLCanvasElement): Entry {
+  const worker = new Worker(new URL("./render.worker.ts", import.meta.url), { type: "module" });
+  const offscreen = canvas.transferControlToOffscreen();
+  const post = (request: RenderRequest, transfer: Transferable[] = []) => worker.postMessage(request, transfer);
+  post({ type: "init", canvas: offscreen }, [offscreen]);
+
+  return {
+    renderer: {
+      setScene: (scene) => post({ type: "scene", scene }),
+      // The ensemble copy is the caller's to give away; moving it saves cloning every frame
+      pushFrame: (frame) => post({ type: "frame", frame }, frame.ensemble ? [frame.ensemble.buffer] : []),
+      clearTrails: () => post({ type: "clearTrails" }),
+    },
+    dispose: () => worker.terminate(),
+  };
+}
+
+function createPageRenderer(canvas: HTMLCanvasElement): Entry | null {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+  const renderer = new PendulumRenderer(ctx);
+  return {
+    renderer: {
+      setScene: (scene) => renderer.setScene(scene),
+      pushFrame: (frame) => renderer.pushFrame(frame),
+      clearTrails: () => renderer.clearTrails(),
+    },
+    dispose: () => {},
+  };
+}
+
+/**
+ * Renderer for `canvas`: on an OffscreenCanvas in a worker where the browser
+ * supports it, on the page otherwise. Pair every call with `releaseCanvasRenderer`.
+ */
+export function acquireCanvasRenderer(canvas: HTMLCanvasElement): CanvasRenderer | null {
+  let entry = entries.get(canvas);
+  if (entry) {
+    clearTimeout(entry.releaseTimer);
+    return entry.renderer;
+  }
+
+  const offscreen = typeof canvas.transferControlToOffscreen === "function" && typeof Worker !== "undefined";
+  entry = (offscreen ? createWorkerRenderer(canvas) : createPageRenderer(canvas)) ?? undefined;
+  if (!entry) return null;
+  entries.set(canvas, entry);
+  return entry.renderer;
+}
+
+// Dispose on the next tick unless the same canvas is acquired again in between
+export function releaseCanvasRenderer(canvas: HTMLCanvasElement) {
+  const entry = entries.get(canvas);
+  if (!entry) return;
+  clearTimeout(entry.releaseTimer);
+  entry.releaseTimer = setTimeout(() => {
+    entry.dispose();
+    entries.delete(canvas);
+  }, 0);
+}
+
+/**
+ * One renderer that forwards every call to each of `renderers` in turn. A
+ * worker renderer takes the ensemble buffer away with the frame, so it goes last.
+ */
+export function combineRenderers(...renderers: CanvasRenderer[]): CanvasRenderer {
+  return {
+    setScene: (scene) => renderers.forEach((renderer) => renderer.setScene(scene)),
+    pushFrame: (frame) => renderers.forEach((renderer) => renderer.pushFrame(frame)),
+    clearTrails: () => renderers.forEach((renderer) => renderer.clearTrails()),
+  };
+}
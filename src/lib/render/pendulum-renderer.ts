@@ -0,0 +1,346 @@
+import { bobColor, ensembleColor } from "@/lib/palette";
+import { calculateEnergy, getPositions, wrapAngle } from "@/lib/physics/engine";
+import { getPivotOffset } from "@/lib/physics/drive";
+import type { PendulumConfig, PendulumState } from "@/lib/physics/types";
+import { formatMeters, scaleBarLength, worldToScreen, type Camera } from "./camera";
+import { TrailBuffer } from "./trail-buffer";
+
+// Everything about the picture that changes with the controls rather than every frame
+export interface RenderScene {
+  // physics configuration, including the drive when it is on
+  config: PendulumConfig;
+  camera: Camera;
+  showTrails: boolean;
+  // playback speed and direction, shown next to the clock
+  timeScale: number;
+  reverse: boolean;
+  // energy readout and phase portraits drawn into the picture, for videos, which
+  // don't capture the page's own panels
+  overlays?: boolean;
+}
+
+export interface RenderFrame {
+  state: PendulumState;
+  time: number;
+  // packed ensemble members (angles then velocities per member), drawn underneath
+  ensemble: Float64Array | null;
+  ensembleTime: number;
+  // whether the bobs' positions extend their trails (false for loads and redraws)
+  trail: boolean;
+}
+
+// Any 2D context the renderer can draw into, on the page or in a worker
+export type RenderContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+const TRAIL_DURATION = 3000; // ms
+// Enough points for the full trail duration at 240 frames per second
+const TRAIL_CAPACITY = 1024;
+// Trail segments are quantized into this many opacity levels, one stroke per run
+const FADE_LEVELS = 16;
+const TRAIL_OPACITY = 0.8;
+// Longest the scale bar may grow, CSS px
+const SCALE_BAR_MAX = 120;
+// Phase portrait inset in the bottom-right corner, CSS px
+const PHASE_INSET = { width: 180, height: 130, margin: 16 };
+
+/**
+ * Draws the pendulum, its trails and any ensemble into a 2D context. It holds
+ * its own copy of the latest frame and scene, so it can run on the page or on
+ * an OffscreenCanvas in a worker, and draws whenever either changes. Trails are
+ * kept in world coordinates so they stay put when the camera moves.
+ */
+export class PendulumRenderer {
+  private readonly ctx: RenderContext;
+  private scene: RenderScene | null = null;
+  private frame: RenderFrame | null = null;
+  // Clock that ages the trails, in ms
+  private readonly now: () => number;
+  private trails: TrailBuffer[] = [];
+  // Recent (θ, ω) of each link for the phase portrait overlay
+  private phases: TrailBuffer[] = [];
+  // Scratch point for reading trails without allocating
+  private readonly point = { x: 0, y: 0, timestamp: 0 };
+
+  // `now` defaults to the wall clock; a video rendered offline passes its own timeline
+  constructor(ctx: RenderContext, now: () => number = () => performance.now()) {
+    this.ctx = ctx;
+    this.now = now;
+  }
+
+  // Size the backing store for the camera, which clears it, and redraw
+  setScene(scene: RenderScene) {
+    const { canvas } = this.ctx;
+    const { width, height, pixelRatio } = scene.camera;
+    const pixelWidth = Math.round(width * pixelRatio);
+    const pixelHeight = Math.round(height * pixelRatio);
+    if (canvas.width !== pixelWidth) canvas.width = pixelWidth;
+    if (canvas.height !== pixelHeight) canvas.height = pixelHeight;
+    this.scene = scene;
+    this.render();
+  }
+
+  pushFrame(frame: RenderFrame) {
+    this.frame = frame;
+    if (frame.trail && this.scene && frame.state.angles.length === this.scene.config.lengths.length) {
+      const now = this.now();
+      const positions = getPositions(frame.state, this.scene.config, undefined, 1, frame.time);
+      positions.forEach(({ x, y }, bob) => {
+        this.trails[bob] ??= new TrailBuffer(TRAIL_CAPACITY);
+        this.trails[bob].push(x, y, now);
+        this.phases[bob] ??= new TrailBuffer(TRAIL_CAPACITY);
+        this.phases[bob].push(wrapAngle(frame.state.angles[bob]), frame.state.velocities[bob], now);
+      });
+      this.trails.length = positions.length;
+      this.phases.length = positions.length;
+    }
+    this.render();
+  }
+
+  clearTrails() {
+    this.trails.forEach((trail) => trail.clear());
+    this.phases.forEach((phase) => phase.clear());
+    this.render();
+  }
+
+  render() {
+    const { ctx, scene, frame } = this;
+    if (!scene || !frame) return;
+
+    // Draw in CSS pixels; the transform takes care of the pixel ratio
+    const { camera } = scene;
+    ctx.setTransform(camera.pixelRatio, 0, 0, camera.pixelRatio, 0, 0);
+    ctx.fillStyle = "#0a0a0a";
+    ctx.fillRect(0, 0, camera.width, camera.height);
+
+    this.drawRail(scene);
+    if (scene.showTrails) this.drawTrails(camera);
+    if (frame.ensemble) this.drawEnsemble(scene, frame.ensemble, frame.ensembleTime);
+    this.drawPendulum(scene, frame);
+    this.drawScaleBar(camera);
+    this.drawClock(scene, frame.time);
+    if (scene.overlays) {
+      this.drawEnergy(scene, frame);
+      this.drawPhasePortrait(camera);
+    }
+  }
+
+  // The rail a driven pivot slides along
+  private drawRail({ config, camera }: RenderScene) {
+    if (!config.drive) return;
+    const { ctx } = this;
+    const origin = worldToScreen(camera, { x: 0, y: 0 });
+    const reach = config.drive.amplitude * camera.pixelsPerMeter + 12;
+    const horizontal = config.drive.axis === "horizontal";
+    ctx.strokeStyle = "#ff0080";
+    ctx.globalAlpha = 0.5;
+    ctx.lineWidth = 2;
+    ctx.setLineDash([6, 4]);
+    ctx.beginPath();
+    ctx.moveTo(origin.x - (horizontal ? reach : 0), origin.y - (horizontal ? 0 : reach));
+    ctx.lineTo(origin.x + (horizontal ? reach : 0), origin.y + (horizontal ? 0 : reach));
+    ctx.stroke();
+    ctx.setLineDash([]);
+    ctx.globalAlpha = 1;
+  }
+
+  // Each segment fades with its age. Points are in time order, so segments of one
+  // opacity level form a contiguous run and each run is a single stroke.
+  private drawTrails(camera: Camera) {
+    const { ctx, point } = this;
+    const now = this.now();
+    ctx.lineWidth = 2;
+    ctx.lineJoin = "round";
+
+    this.trails.forEach((trail, bob) => {
+      trail.expire(now - TRAIL_DURATION);
+      if (trail.length < 2) return;
+      ctx.strokeStyle = bobColor(bob);
+
+      let level = -1;
+      trail.at(0, point);
+      let { x: lastX, y: lastY } = worldToScreen(camera, point);
+      for (let i = 1; i < trail.length; i++) {
+        const { timestamp } = trail.at(i, point);
+        const { x, y } = worldToScreen(camera, point);
+        const freshness = Math.max(0, 1 - (now - timestamp) / TRAIL_DURATION);
+        const segmentLevel = Math.min(FADE_LEVELS - 1, Math.floor(freshness * FADE_LEVELS));
+        if (segmentLevel !== level) {
+          if (level >= 0) ctx.stroke();
+          level = segmentLevel;
+          ctx.globalAlpha = ((level + 0.5) / FADE_LEVELS) * TRAIL_OPACITY;
+          ctx.beginPath();
+          ctx.moveTo(lastX, lastY);
+        }
+        ctx.lineTo(x, y);
+        lastX = x;
+        lastY = y;
+      }
+      ctx.stroke();
+    });
+    ctx.globalAlpha = 1;
+    ctx.lineJoin = "miter";
+  }
+
+  // Ensemble members underneath, fainter the more there are
+  private drawEnsemble({ config, camera }: RenderScene, states: Float64Array, time: number) {
+    const { ctx } = this;
+    const links = config.lengths.length;
+    const count = Math.floor(states.length / (2 * links));
+    const pivot = worldToScreen(camera, getPivotOffset(config, time));
+    const scale = camera.pixelsPerMeter;
+    ctx.globalAlpha = Math.min(0.8, Math.max(0.1, 4 / Math.sqrt(count)));
+    ctx.lineWidth = 1;
+    for (let k = 0; k < count; k++) {
+      const color = ensembleColor(k, count);
+      let { x, y } = pivot;
+      ctx.strokeStyle = color;
+      ctx.beginPath();
+      ctx.moveTo(x, y);
+      for (let i = 0; i < links; i++) {
+        const angle = states[k * 2 * links + i];
+        x += config.lengths[i] * Math.sin(angle) * scale;
+        y += config.lengths[i] * Math.cos(angle) * scale;
+        ctx.lineTo(x, y);
+      }
+      ctx.stroke();
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.arc(x, y, 3, 0, 2 * Math.PI);
+      ctx.fill();
+    }
+    ctx.globalAlpha = 1;
+  }
+
+  private drawPendulum({ config, camera }: RenderScene, frame: RenderFrame) {
+    // A resized chain can briefly see a frame from before the resize
+    if (frame.state.angles.length !== config.lengths.length) return;
+    const { ctx } = this;
+    const origin = worldToScreen(camera, { x: 0, y: 0 });
+    const positions = getPositions(frame.state, config, origin, camera.pixelsPerMeter, frame.time);
+    const { x: pivotX, y: pivotY } = worldToScreen(camera, getPivotOffset(config, frame.time));
+
+    // Rods
+    ctx.strokeStyle = "#ffffff";
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.moveTo(pivotX, pivotY);
+    positions.forEach(({ x, y }) => ctx.lineTo(x, y));
+    ctx.stroke();
+
+    // Pivot
+    ctx.fillStyle = "#ff0080";
+    ctx.beginPath();
+    ctx.arc(pivotX, pivotY, 8, 0, 2 * Math.PI);
+    ctx.fill();
+
+    // Bobs
+    positions.forEach(({ x, y }, bob) => {
+      ctx.fillStyle = bobColor(bob);
+      ctx.beginPath();
+      ctx.arc(x, y, Math.max(8, config.masses[bob]), 0, 2 * Math.PI);
+      ctx.fill();
+      ctx.strokeStyle = "#ffffff";
+      ctx.lineWidth = 2;
+      ctx.stroke();
+    });
+  }
+
+  // Bottom-left bar of a round number of meters
+  private drawScaleBar(camera: Camera) {
+    const { ctx } = this;
+    const meters = scaleBarLength(camera, SCALE_BAR_MAX);
+    const length = meters * camera.pixelsPerMeter;
+    const x = 16;
+    const y = camera.height - 16;
+    ctx.strokeStyle = "#9ca3af";
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(x, y - 5);
+    ctx.lineTo(x, y);
+    ctx.lineTo(x + length, y);
+    ctx.lineTo(x + length, y - 5);
+    ctx.stroke();
+    ctx.fillStyle = "#9ca3af";
+    ctx.font = "12px sans-serif";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "bottom";
+    ctx.fillText(formatMeters(meters), x + length / 2, y - 4);
+  }
+
+  // Simulated time above the scale bar, with the speed when it isn't real time
+  private drawClock({ camera, timeScale, reverse }: RenderScene, time: number) {
+    const { ctx } = this;
+    const speed = timeScale === 1 ? "" : `  ${+timeScale.toPrecision(2)}×`;
+    ctx.fillStyle = "#e5e7eb";
+    ctx.font = "14px ui-monospace, monospace";
+    ctx.textAlign = "left";
+    ctx.textBaseline = "bottom";
+    ctx.fillText(`t = ${time.toFixed(3)} s${speed}${reverse ? "  ◀" : ""}`, 16, camera.height - 40);
+  }
+
+  // Top-right readout, like the page's energy panel
+  private drawEnergy({ config, camera }: RenderScene, frame: RenderFrame) {
+    if (frame.state.angles.length !== config.lengths.length) return;
+    const { ctx } = this;
+    const text = `E = ${calculateEnergy(frame.state, config, frame.time).toFixed(2)} J`;
+    ctx.font = "14px ui-monospace, monospace";
+    const width = ctx.measureText(text).width + 20;
+    ctx.fillStyle = "rgba(0, 0, 0, 0.5)";
+    ctx.fillRect(camera.width - width - 16, 16, width, 28);
+    ctx.fillStyle = "#00ff88";
+    ctx.textAlign = "left";
+    ctx.textBaseline = "middle";
+    ctx.fillText(text, camera.width - width - 6, 30);
+  }
+
+  // Bottom-right inset of ω against θ over the trail duration, one curve per link
+  private drawPhasePortrait(camera: Camera) {
+    const { ctx, point } = this;
+    const { width, height, margin } = PHASE_INSET;
+    const left = camera.width - width - margin;
+    const top = camera.height - height - margin;
+
+    const now = this.now();
+    let maxOmega = 1;
+    this.phases.forEach((phase) => {
+      phase.expire(now - TRAIL_DURATION);
+      for (let i = 0; i < phase.length; i++) maxOmega = Math.max(maxOmega, Math.abs(phase.at(i, point).y));
+    });
+    const toX = (theta: number) => left + ((theta + Math.PI) / (2 * Math.PI)) * width;
+    const toY = (omega: number) => top + height / 2 - (omega / maxOmega) * (height / 2 - 4);
+
+    ctx.fillStyle = "rgba(0, 0, 0, 0.5)";
+    ctx.fillRect(left, top, width, height);
+    ctx.strokeStyle = "#374151";
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(left, top + height / 2);
+    ctx.lineTo(left + width, top + height / 2);
+    ctx.moveTo(left + width / 2, top);
+    ctx.lineTo(left + width / 2, top + height);
+    ctx.stroke();
+
+    ctx.lineWidth = 1.5;
+    this.phases.forEach((phase, link) => {
+      if (phase.length < 2) return;
+      ctx.strokeStyle = bobColor(link);
+      ctx.beginPath();
+      let lastTheta = phase.at(0, point).x;
+      ctx.moveTo(toX(lastTheta), toY(point.y));
+      for (let i = 1; i < phase.length; i++) {
+        const { x: theta, y: omega } = phase.at(i, point);
+        // Wrapping from +π to −π isn't a jump across the plot
+        if (Math.abs(theta - lastTheta) > Math.PI) ctx.moveTo(toX(theta), toY(omega));
+        else ctx.lineTo(toX(theta), toY(omega));
+        lastTheta = theta;
+      }
+      ctx.stroke();
+    });
+
+    ctx.fillStyle = "#9ca3af";
+    ctx.font = "11px sans-serif";
+    ctx.textAlign = "left";
+    ctx.textBaseline = "top";
+    ctx.fillText(`θ–ω  (±${maxOmega.toFixed(1)} rad/s)`, left + 6, top + 4);
+  }
+}
@@ -0,0 +1,25 @@
+import { PendulumRenderer } from "./pendulum-renderer";
+import type { RenderRequest } from "./worker-protocol";
+
+// Hosts a PendulumRenderer on an OffscreenCanvas so drawing never touches the page's main thread
+let renderer: PendulumRenderer | null = null;
+
+self.onmessage = (event: MessageEvent<RenderRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case "init": {
+      const ctx = request.canvas.getContext("2d");
+      if (ctx) renderer = new PendulumRenderer(ctx);
+      break;
+    }
+    case "scene":
+      renderer?.setScene(request.scene);
+      break;
+    case "frame":
+      renderer?.pushFrame(request.frame);
+      break;
+    case "clearTrails":
+      renderer?.clearTrails();
+      break;
+  }
+};
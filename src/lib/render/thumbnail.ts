@@ -0,0 +1,73 @@
+import { getPivotOffset } from "@/lib/physics/drive";
+import { getPositions, integrateTo } from "@/lib/physics/engine";
+import { createIntegrator } from "@/lib/physics/integrators";
+import { bobColor } from "@/lib/palette";
+import type { PresetSetup } from "@/lib/presets";
+import { fitCamera, worldToScreen } from "./camera";
+import type { RenderContext } from "./pendulum-renderer";
+
+// Simulated seconds of motion traced behind the chain, and how finely
+const TRACE_DURATION = 4;
+const TRACE_INTERVAL = 1 / 30;
+// Coarsest physics step for the trace: a preview needn't be as fine as the simulator
+const TRACE_STEP = 0.004; // s
+
+/**
+ * A still of a preset for cards and lists: the chain at its saved state over
+ * the path its outer bob takes in the next few seconds, in the saved view.
+ */
+export function drawThumbnail(ctx: RenderContext, setup: PresetSetup, width: number, height: number, pixelRatio = 1) {
+  const { config, state, time, damping, dampingEnabled } = setup.physics;
+  const reach = config.lengths.reduce((sum, length) => sum + length, 0) + (config.drive?.amplitude ?? 0);
+  const camera = fitCamera(reach, width, height, pixelRatio, setup.view.camera);
+  const origin = worldToScreen(camera, { x: 0, y: 0 });
+  const scale = camera.pixelsPerMeter;
+  const outer = config.lengths.length - 1;
+
+  ctx.canvas.width = Math.round(width * pixelRatio);
+  ctx.canvas.height = Math.round(height * pixelRatio);
+  ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+  ctx.fillStyle = "#0a0a0a";
+  ctx.fillRect(0, 0, width, height);
+
+  const options = {
+    damping: dampingEnabled && damping.models.length > 0 ? damping : undefined,
+    integrator: createIntegrator(setup.solver.integrator),
+    tolerance: setup.solver.tolerance,
+  };
+  ctx.strokeStyle = bobColor(outer);
+  ctx.globalAlpha = 0.6;
+  ctx.lineWidth = 1.5;
+  ctx.lineJoin = "round";
+  ctx.beginPath();
+  const step = Math.max(setup.solver.step, TRACE_STEP);
+  let current = state;
+  for (let k = 0; k <= Math.round(TRACE_DURATION / TRACE_INTERVAL); k++) {
+    const t = time + k * TRACE_INTERVAL;
+    if (k > 0) current = integrateTo(current, config, t, step, { ...options, time: t - TRACE_INTERVAL });
+    const { x, y } = getPositions(current, config, origin, scale, t)[outer];
+    if (k === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  }
+  ctx.stroke();
+  ctx.globalAlpha = 1;
+
+  const positions = getPositions(state, config, origin, scale, time);
+  const pivot = worldToScreen(camera, getPivotOffset(config, time));
+  ctx.strokeStyle = "#ffffff";
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(pivot.x, pivot.y);
+  positions.forEach(({ x, y }) => ctx.lineTo(x, y));
+  ctx.stroke();
+  ctx.fillStyle = "#ff0080";
+  ctx.beginPath();
+  ctx.arc(pivot.x, pivot.y, 4, 0, 2 * Math.PI);
+  ctx.fill();
+  positions.forEach(({ x, y }, bob) => {
+    ctx.fillStyle = bobColor(bob);
+    ctx.beginPath();
+    ctx.arc(x, y, Math.max(4, config.masses[bob] / 2), 0, 2 * Math.PI);
+    ctx.fill();
+  });
+}
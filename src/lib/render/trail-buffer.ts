@@ -0,0 +1,50 @@
+/**
+ * Fixed-capacity ring buffer of trail points (x, y, timestamp in ms). Pushing
+ * onto a full buffer overwrites the oldest point, so a trail never reallocates.
+ */
+export class TrailBuffer {
+  private readonly data: Float64Array;
+  private readonly capacity: number;
+  private start = 0;
+  private size = 0;
+
+  constructor(capacity: number) {
+    this.capacity = capacity;
+    this.data = new Float64Array(capacity * 3);
+  }
+
+  get length(): number {
+    return this.size;
+  }
+
+  push(x: number, y: number, timestamp: number) {
+    const slot = ((this.start + this.size) % this.capacity) * 3;
+    this.data[slot] = x;
+    this.data[slot + 1] = y;
+    this.data[slot + 2] = timestamp;
+    if (this.size < this.capacity) this.size++;
+    else this.start = (this.start + 1) % this.capacity;
+  }
+
+  // Drop points stamped before `timestamp` from the old end
+  expire(timestamp: number) {
+    while (this.size > 0 && this.data[this.start * 3 + 2] < timestamp) {
+      this.start = (this.start + 1) % this.capacity;
+      this.size--;
+    }
+  }
+
+  clear() {
+    this.start = 0;
+    this.size = 0;
+  }
+
+  // Point `i` counted from the oldest; `out` is reused to avoid allocating
+  at(i: number, out: { x: number; y: number; timestamp: number }) {
+    const slot = ((this.start + i) % this.capacity) * 3;
+    out.x = this.data[slot];
+    out.y = this.data[slot + 1];
+    out.timestamp = this.data[slot + 2];
+    return out;
+  }
+}
@@ -0,0 +1,8 @@
+import type { RenderFrame, RenderScene } from "./pendulum-renderer";
+
+export type RenderRequest =
+  // First message: the canvas handed over with transferControlToOffscreen
+  | { type: "init"; canvas: OffscreenCanvas }
+  | { type: "scene"; scene: RenderScene }
+  | { type: "frame"; frame: RenderFrame }
+  | { type: "clearTrails" };
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { readPreset, type PresetSetup } from "@/lib/presets";
+import { decodeSetup, encodeSetup } from "@/lib/share-link";
+
+const base: PresetSetup = (() => {
+  const result = readPreset({
+    config: {
+      length1: 1.5,
+      length2: 1.5,
+      mass1: 10,
+      mass2: 10,
+      gravity: 9.81,
+      angle1: Math.PI / 2,
+      angle2: Math.PI / 2,
+      velocity1: 0,
+      velocity2: 0,
+    },
+  });
+  if (!result.ok) throw new Error(result.errors.join("; "));
+  return result.setup;
+})();
+
+describe("encodeSetup / decodeSetup", () => {
+  it("round-trips the default setup", () => {
+    expect(decodeSetup(encodeSetup(base))).toEqual({ ok: true, setup: base });
+  });
+
+  it("round-trips every part of a busy setup exactly", () => {
+    const setup: PresetSetup = {
+      physics: {
+        config: {
+          lengths: [1.1, 0.7, 0.35],
+          masses: [1.5, 2.25, 1.25],
+          gravity: 3.71,
+          drive: { axis: "vertical", amplitude: 0.05, frequency: 2.5, torque: 0.3, torqueFrequency: 1.25 },
+        },
+        state: { angles: [0.1 + 0.2, -Math.PI / 3, 2.5], velocities: [1 / 3, 0, -0.75] },
+        time: 12.345678901234,
+        damping: { models: ["viscous", "coulomb"], viscous: 0.02, quadratic: 0.001, joint: [0.1, 0.2, 0.3], coulomb: 0.05 },
+        dampingEnabled: false,
+      },
+      solver: { integrator: "rk45", tolerance: 1e-9, step: 0.0005 },
+      view: {
+        showTrails: false,
+        showEnergy: true,
+        timeScale: 0.5,
+        reverse: true,
+        camera: { center: { x: -0.25, y: 1.5 }, zoom: 2 },
+      },
+    };
+    expect(decodeSetup(encodeSetup(setup))).toEqual({ ok: true, setup });
+  });
+
+  it("accepts the fragment with its leading #", () => {
+    expect(decodeSetup(`#${encodeSetup(base)}`)).toEqual({ ok: true, setup: base });
+  });
+
+  it("fills keys a link leaves out with the defaults", () => {
+    const result = decodeSetup("a=1,2");
+    expect(result?.ok && result.setup.physics.state.angles).toEqual([1, 2]);
+    expect(result?.ok && result.setup.physics.config).toEqual(base.physics.config);
+  });
+
+  it("returns null for a fragment with no setup in it", () => {
+    expect(decodeSetup("")).toBeNull();
+    expect(decodeSetup("#section-2")).toBeNull();
+  });
+
+  it("names the fragment key of a bad value", () => {
+    const result = decodeSetup("a=1,oops");
+    expect(result).toEqual({ ok: false, errors: [expect.stringMatching(/^a\[1\]/)] });
+  });
+
+  it("refuses links from a newer version", () => {
+    expect(decodeSetup("v=99&a=1,2")).toEqual({ ok: false, errors: [expect.stringContaining("newer version")] });
+  });
+});
@@ -0,0 +1,172 @@
+import { DEFAULT_DAMPING } from "@/lib/physics/damping";
+import { DEFAULT_CONFIG, DEFAULT_STATE } from "@/lib/physics/engine";
+import { DEFAULT_INTEGRATOR, DEFAULT_TOLERANCE } from "@/lib/physics/integrators";
+import { DEFAULT_PHYSICS_STEP } from "@/lib/physics/loop";
+import { checkSetup, type PresetResult, type PresetSetup } from "@/lib/presets";
+import { DEFAULT_CAMERA_VIEW } from "@/lib/render/camera";
+
+// A whole simulator setup as a short, readable URL fragment, e.g.
+// "l=1.5,1.5&m=10,10&a=1.57,3.1&w=0,0". Keys left out take the simulator's
+// defaults; numbers are written in full so a link restores the exact state.
+
+// Bump when a key changes meaning; links without `v` are version 1
+const LINK_VERSION = 1;
+
+// Fragment key for each part of the setup, for encoding and for error messages
+const KEYS = {
+  lengths: "l",
+  masses: "m",
+  gravity: "g",
+  angles: "a",
+  velocities: "w",
+  time: "t",
+  // axis (h or v), amplitude, frequency, torque, torque frequency; absent when off
+  drive: "dr",
+  // "1" while damping is on
+  damping: "d",
+  // damping models joined by "."
+  models: "dm",
+  viscous: "dv",
+  quadratic: "dq",
+  joint: "dj",
+  coulomb: "dc",
+  integrator: "i",
+  tolerance: "tol",
+  step: "dt",
+  showTrails: "tr",
+  showEnergy: "en",
+  timeScale: "sp",
+  reverse: "rev",
+  // center x, center y, zoom
+  camera: "cam",
+} as const;
+
+const list = (values: number[]) => values.map(String).join(",");
+const flag = (value: boolean) => (value ? "1" : "0");
+
+export function encodeSetup({ physics, solver, view }: PresetSetup): string {
+  const { config, state, damping } = physics;
+  const entries: [string, string][] = [
+    [KEYS.lengths, list(config.lengths)],
+    [KEYS.masses, list(config.masses)],
+    [KEYS.gravity, String(config.gravity)],
+    [KEYS.angles, list(state.angles)],
+    [KEYS.velocities, list(state.velocities)],
+  ];
+  if (physics.time !== 0) entries.push([KEYS.time, String(physics.time)]);
+  if (config.drive) {
+    const { axis, amplitude, frequency, torque, torqueFrequency } = config.drive;
+    entries.push([KEYS.drive, [axis[0], amplitude, frequency, torque, torqueFrequency].join(",")]);
+  }
+  entries.push(
+    [KEYS.damping, flag(physics.dampingEnabled)],
+    [KEYS.models, damping.models.join(".")],
+    [KEYS.viscous, String(damping.viscous)],
+    [KEYS.quadratic, String(damping.quadratic)],
+    [KEYS.joint, list(damping.joint)],
+    [KEYS.coulomb, String(damping.coulomb)],
+    [KEYS.integrator, solver.integrator],
+    [KEYS.tolerance, String(solver.tolerance)],
+    [KEYS.step, String(solver.step)],
+    [KEYS.showTrails, flag(view.showTrails)],
+    [KEYS.showEnergy, flag(view.showEnergy)],
+    [KEYS.timeScale, String(view.timeScale)],
+  );
+  if (view.reverse) entries.push([KEYS.reverse, "1"]);
+  const { center, zoom } = view.camera;
+  if (center.x !== 0 || center.y !== 0 || zoom !== 1) entries.push([KEYS.camera, list([center.x, center.y, zoom])]);
+  return [["v", String(LINK_VERSION)], ...entries].map(([key, value]) => `${key}=${encodeURIComponent(value).replace(/%2C/g, ",")}`).join("&");
+}
+
+// Messages name the fragment key, e.g. "a[1] must be a number"
+function keyOf(path: (string | number)[]): string | undefined {
+  const [, field, inner] = path.map(String);
+  const key = KEYS[inner as keyof typeof KEYS] ?? KEYS[field as keyof typeof KEYS];
+  if (!key) return undefined;
+  const index = path.find((part) => typeof part === "number");
+  return index === undefined ? key : `${key}[${index}]`;
+}
+
+/**
+ * The setup a URL fragment describes, checked like a stored preset, or null
+ * when the fragment holds no setup at all.
+ */
+export function decodeSetup(fragment: string): PresetResult | null {
+  const params = new Map<string, string>();
+  for (const part of fragment.replace(/^#/, "").split("&")) {
+    const split = part.indexOf("=");
+    if (split <= 0) continue;
+    try {
+      params.set(part.slice(0, split), decodeURIComponent(part.slice(split + 1)));
+    } catch {
+      return { ok: false, errors: [`${part.slice(0, split)} isn't valid URL encoding`] };
+    }
+  }
+  if (!Object.values(KEYS).some((key) => params.has(key))) return null;
+  const version = Number(params.get("v") ?? 1);
+  if (version > LINK_VERSION) {
+    return { ok: false, errors: ["This link comes from a newer version of the simulator; reload the page"] };
+  }
+
+  // Malformed numbers come through as NaN so the checks report them by key
+  const number = (key: string, fallback: number) => (params.has(key) ? Number(params.get(key)) : fallback);
+  const numbers = (key: string, fallback: number[]) =>
+    params.has(key) ? params.get(key)!.split(",").map(Number) : fallback;
+  const bool = (key: string, fallback: boolean) => (params.has(key) ? params.get(key) === "1" : fallback);
+
+  const lengths = numbers(KEYS.lengths, DEFAULT_CONFIG.lengths);
+  const drive = params.get(KEYS.drive)?.split(",");
+  const camera = numbers(KEYS.camera, [DEFAULT_CAMERA_VIEW.center.x, DEFAULT_CAMERA_VIEW.center.y, DEFAULT_CAMERA_VIEW.zoom]);
+  const defaultAngles = lengths.map((_, i) => DEFAULT_STATE.angles[i] ?? 0);
+
+  return checkSetup(
+    {
+      physics: {
+        config: {
+          lengths,
+          masses: numbers(KEYS.masses, lengths.map((_, i) => DEFAULT_CONFIG.masses[i] ?? DEFAULT_CONFIG.masses[0])),
+          gravity: number(KEYS.gravity, DEFAULT_CONFIG.gravity),
+          drive: drive && {
+            axis: drive[0] === "h" ? "horizontal" : drive[0] === "v" ? "vertical" : drive[0],
+            amplitude: Number(drive[1]),
+            frequency: Number(drive[2]),
+            torque: Number(drive[3]),
+            torqueFrequency: Number(drive[4]),
+          },
+        },
+        state: {
+          angles: numbers(KEYS.angles, defaultAngles),
+          velocities: numbers(KEYS.velocities, lengths.map(() => 0)),
+        },
+        time: number(KEYS.time, 0),
+        damping: {
+          models: params.get(KEYS.models)?.split(".").filter(Boolean) ?? DEFAULT_DAMPING.models,
+          viscous: number(KEYS.viscous, DEFAULT_DAMPING.viscous),
+          quadratic: number(KEYS.quadratic, DEFAULT_DAMPING.quadratic),
+          joint: numbers(KEYS.joint, lengths.map((_, i) => DEFAULT_DAMPING.joint[i] ?? DEFAULT_DAMPING.joint[0])),
+          coulomb: number(KEYS.coulomb, DEFAULT_DAMPING.coulomb),
+        },
+        dampingEnabled: bool(KEYS.damping, false),
+      },
+      solver: {
+        integrator: params.get(KEYS.integrator) ?? DEFAULT_INTEGRATOR,
+        tolerance: number(KEYS.tolerance, DEFAULT_TOLERANCE),
+        step: number(KEYS.step, DEFAULT_PHYSICS_STEP),
+      },
+      view: {
+        showTrails: bool(KEYS.showTrails, true),
+        showEnergy: bool(KEYS.showEnergy, true),
+        timeScale: number(KEYS.timeScale, 1),
+        reverse: bool(KEYS.reverse, false),
+        camera: { center: { x: camera[0], y: camera[1] }, zoom: camera[2] },
+      },
+    },
+    keyOf,
+  );
+}
+
+// A link that opens the simulator with exactly this setup
+export const setupLink = (setup: PresetSetup) => `${window.location.origin}/simulation#${encodeSetup(setup)}`;
+
+// The short link to a saved preset, which resolves it when opened
+export const presetLink = (id: string) => `${window.location.origin}/s/${id}`;
@@ -11,6 +11,9 @@ import "./index.css";
 import Landing from "./pages/Landing.tsx";
 import NotFound from "./pages/NotFound.tsx";
 import Simulation from "./pages/Simulation.tsx";
+import Fractal from "./pages/Fractal.tsx";
+import Gallery from "./pages/Gallery.tsx";
+import ShortLink from "./pages/ShortLink.tsx";
 import "./types/global.d.ts";
 
 const convex = new ConvexReactClient(import.meta.env.VITE_CONVEX_URL as string);
@@ -48,6 +51,9 @@ createRoot(document.getElementById("root")!).render(
           <Routes>
             <Route path="/" element={<Landing />} />
             <Route path="/simulation" element={<Simulation />} />
+            <Route path="/fractal" element={<Fractal />} />
+            <Route path="/gallery" element={<Gallery />} />
+            <Route path="/s/:presetId" element={<ShortLink />} />
             <Route path="/auth" element={<AuthPage redirectAfterAuth="/simulation" />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
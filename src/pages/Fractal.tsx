@@ -0,0 +1,5 @@
+import FlipTimeFractal from "@/components/FlipTimeFractal";
+
+export default function Fractal() {
+  return <FlipTimeFractal />;
+}
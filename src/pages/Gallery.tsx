@@ -0,0 +1,235 @@
+import { useMutation, usePaginatedQuery } from "convex/react";
+import { ConvexError } from "convex/values";
+import { motion } from "framer-motion";
+import { ArrowLeft, GitFork, Heart, Loader2, Search } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router";
+import { toast } from "sonner";
+import { PresetThumbnail } from "@/components/PresetThumbnail";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { api } from "@/convex/_generated/api";
+import type { Doc } from "@/convex/_generated/dataModel";
+import { useAuth } from "@/hooks/use-auth";
+import { readPreset } from "@/lib/presets";
+
+type GallerySort = "newest" | "likes" | "forks";
+
+const SORTS: { id: GallerySort; label: string }[] = [
+  { id: "newest", label: "Newest" },
+  { id: "likes", label: "Most liked" },
+  { id: "forks", label: "Most forked" },
+];
+
+const PAGE_SIZE = 12;
+// Wait for a pause in typing before searching
+const SEARCH_DELAY = 300; // ms
+
+type GalleryPreset = Doc<"simulationPresets"> & { authorName: string; liked: boolean };
+
+function PresetCard({ preset, onTag }: { preset: GalleryPreset; onTag: (tag: string) => void }) {
+  const navigate = useNavigate();
+  const { isAuthenticated } = useAuth();
+  const toggleLike = useMutation(api.presets.toggleLike);
+  const forkPreset = useMutation(api.presets.fork);
+  const read = useMemo(() => readPreset(preset), [preset]);
+
+  const handleLike = async () => {
+    if (!isAuthenticated) {
+      toast("Sign in to like presets", { action: { label: "Sign In", onClick: () => navigate("/auth") } });
+      return;
+    }
+    try {
+      await toggleLike({ id: preset._id });
+    } catch (error) {
+      toast.error(error instanceof ConvexError ? String(error.data) : "Couldn't update the like");
+    }
+  };
+
+  // The fork lands in the user's own presets, private until they share it
+  const handleFork = async () => {
+    if (!isAuthenticated) {
+      toast("Sign in to fork presets", { action: { label: "Sign In", onClick: () => navigate("/auth") } });
+      return;
+    }
+    try {
+      const { id } = await forkPreset({ id: preset._id });
+      toast.success(`Forked “${preset.name}” into your presets`, {
+        action: { label: "Open", onClick: () => navigate(`/simulation?preset=${id}`) },
+      });
+    } catch (error) {
+      toast.error(error instanceof ConvexError ? String(error.data) : "Couldn't fork the preset");
+    }
+  };
+
+  return (
+    <Card className="bg-[#111111] border-gray-800 overflow-hidden py-0 gap-0">
+      <button
+        type="button"
+        onClick={() => navigate(`/simulation?preset=${preset._id}`)}
+        className="block w-full cursor-pointer"
+        title="Open in the simulator"
+      >
+        <PresetThumbnail setup={read.ok ? read.setup : null} width={320} height={200} className="block w-full bg-[#0a0a0a]" />
+      </button>
+      <CardContent className="p-4 space-y-2">
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <h3 className="font-bold tracking-tight text-white truncate">{preset.name}</h3>
+            <p className="text-xs text-gray-500">
+              {preset.authorName} · {new Date(preset._creationTime).toLocaleDateString()}
+            </p>
+          </div>
+          <div className="flex items-center gap-1 shrink-0">
+            <Button
+              onClick={() => void handleLike()}
+              size="sm"
+              variant="ghost"
+              title={preset.liked ? "Unlike" : "Like"}
+              className={`h-8 px-2 cursor-pointer ${preset.liked ? "text-[#ff0080]" : "text-gray-400"}`}
+            >
+              <Heart className={`w-4 h-4 ${preset.liked ? "fill-current" : ""}`} />
+              {preset.likeCount ?? 0}
+            </Button>
+            <Button
+              onClick={() => void handleFork()}
+              size="sm"
+              variant="ghost"
+              title="Fork into your presets"
+              className="h-8 px-2 text-gray-400 cursor-pointer"
+            >
+              <GitFork className="w-4 h-4" />
+              {preset.forkCount ?? 0}
+            </Button>
+          </div>
+        </div>
+        {preset.description && <p className="text-sm text-gray-400 line-clamp-2">{preset.description}</p>}
+        {preset.tags && preset.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {preset.tags.map((tag) => (
+              <Badge
+                key={tag}
+                variant="outline"
+                onClick={() => onTag(tag)}
+                className="border-gray-700 text-gray-300 cursor-pointer hover:bg-gray-800"
+              >
+                {tag}
+              </Badge>
+            ))}
+          </div>
+        )}
+        {!read.ok && <p className="text-xs text-[#ff0080]">This preset no longer loads: {read.errors[0]}</p>}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Gallery() {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState("");
+  const [search, setSearch] = useState("");
+  const [sort, setSort] = useState<GallerySort>("newest");
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(query.trim()), SEARCH_DELAY);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const { results, status, loadMore } = usePaginatedQuery(
+    api.presets.listPublic,
+    { search: search || undefined, sort },
+    { initialNumItems: PAGE_SIZE },
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#0a0a0a] to-[#111111] text-white p-4">
+      <div className="max-w-7xl mx-auto">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="text-center mb-8"
+        >
+          <h1 className="text-4xl font-bold tracking-tight mb-2 bg-gradient-to-r from-[#00ff88] to-[#ff0080] bg-clip-text text-transparent">
+            Preset Gallery
+          </h1>
+          <p className="text-gray-400 text-lg">Setups shared by the community, ready to run</p>
+          <Button onClick={() => navigate("/simulation")} variant="link" className="text-[#0088ff] cursor-pointer">
+            <ArrowLeft className="w-4 h-4" />
+            Back to the simulator
+          </Button>
+        </motion.div>
+
+        <div className="flex flex-col sm:flex-row gap-3 mb-6">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-500" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search names, descriptions and tags"
+              className="pl-9 border-gray-700"
+            />
+          </div>
+          <Select value={sort} onValueChange={(value) => setSort(value as GallerySort)} disabled={search !== ""}>
+            <SelectTrigger className="w-full sm:w-44 border-gray-700">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SORTS.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {search !== "" && <p className="text-xs text-gray-500 -mt-4 mb-4">Search results are ranked by relevance.</p>}
+
+        {status === "LoadingFirstPage" ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="w-8 h-8 animate-spin text-gray-500" />
+          </div>
+        ) : results.length === 0 ? (
+          <p className="text-center text-gray-500 py-16">
+            {search ? `No public presets match “${search}”.` : "No public presets yet. Share one from the simulator's Presets panel."}
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+            {results.map((preset, i) => (
+              <motion.div
+                key={preset._id}
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: (i % PAGE_SIZE) * 0.03 }}
+              >
+                <PresetCard preset={preset} onTag={setQuery} />
+              </motion.div>
+            ))}
+          </div>
+        )}
+
+        {(status === "CanLoadMore" || status === "LoadingMore") && (
+          <div className="flex justify-center mt-8">
+            <Button
+              onClick={() => loadMore(PAGE_SIZE)}
+              disabled={status === "LoadingMore"}
+              variant="outline"
+              className="border-gray-600 hover:bg-gray-800 cursor-pointer"
+            >
+              {status === "LoadingMore" && <Loader2 className="w-4 h-4 animate-spin" />}
+              Load more
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
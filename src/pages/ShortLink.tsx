@@ -0,0 +1,7 @@
+import { Navigate, useParams } from "react-router";
+
+// `/s/<id>` is the short form of `/simulation?preset=<id>`, which looks the preset up
+export default function ShortLink() {
+  const { presetId } = useParams();
+  return <Navigate to={presetId ? `/simulation?preset=${encodeURIComponent(presetId)}` : "/simulation"} replace />;
+}
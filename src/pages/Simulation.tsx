@@ -1,5 +1,64 @@
+import { useQuery } from "convex/react";
+import { useCallback, useEffect, useState } from "react";
+import { useLocation, useSearchParams } from "react-router";
+import { toast } from "sonner";
 import DoublePendulum from "@/components/DoublePendulum";
+import { api } from "@/convex/_generated/api";
+import type { SimulationSnapshot } from "@/lib/physics/types";
+import { readPreset, type PresetSetup, type PresetSource } from "@/lib/presets";
+import { decodeSetup, encodeSetup } from "@/lib/share-link";
 
 export default function Simulation() {
-  return <DoublePendulum />;
+  // Other views (e.g. the fractal map) hand over an initial condition through navigation state
+  const location = useLocation();
+  const initial = (location.state as SimulationSnapshot | null) ?? undefined;
+
+  // A `#l=…&a=…` fragment holds a whole setup, read once when the page opens
+  const [linked] = useState(() => decodeSetup(location.hash));
+
+  // `?preset=<id>` opens a saved preset, e.g. from the gallery or a `/s/<id>` link
+  const [searchParams] = useSearchParams();
+  const presetId = searchParams.get("preset");
+  const preset = useQuery(api.presets.get, presetId ? { id: presetId } : "skip");
+  // Applied once per id, so later edits to the record (likes, renames) don't reset the run
+  const [loadedId, setLoadedId] = useState<string | null>(null);
+  const [setup, setSetup] = useState<PresetSetup | undefined>(() => (linked?.ok ? linked.setup : undefined));
+  const [source, setSource] = useState<PresetSource>();
+
+  useEffect(() => {
+    if (linked && !linked.ok) toast.error("Couldn't open the linked setup", { description: linked.errors.join("; ") });
+  }, [linked]);
+
+  useEffect(() => {
+    if (presetId === null || preset === undefined || presetId === loadedId) return;
+    setLoadedId(presetId);
+    if (preset === null) {
+      toast.error("That preset doesn't exist or isn't shared");
+      return;
+    }
+    const read = readPreset(preset);
+    if (read.ok) {
+      setSetup(read.setup);
+      setSource({ id: preset._id, name: preset.name });
+      toast.success(`Loaded “${preset.name}”`);
+    } else {
+      toast.error(`Couldn't load “${preset.name}”`, { description: read.errors.join("; ") });
+    }
+  }, [presetId, preset, loadedId]);
+
+  // Keep the address bar a link to what's on screen. This goes around the router
+  // on purpose: a navigation per slider drag would flood the back button.
+  const handleSetupChange = useCallback(
+    (current: PresetSetup) => {
+      // Until a requested preset has arrived the simulator still shows the defaults
+      if (presetId !== null && presetId !== loadedId) return;
+      const url = `${location.pathname}${location.search}#${encodeSetup(current)}`;
+      window.history.replaceState(window.history.state, "", url);
+    },
+    [presetId, loadedId, location.pathname, location.search],
+  );
+
+  return (
+    <DoublePendulum initial={initial} preset={setup} presetSource={source} onSetupChange={handleSetupChange} />
+  );
 }